@@ -0,0 +1,365 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup, waitFor } from '@testing-library/react';
+import App from './App';
+import { mockFixtures, MOCK_MARKERS } from './services/providers/mockProvider';
+import { getHistory, addHistoryItem, deleteMultipleHistoryItems, mergeAndSaveHistory } from './services/historyService';
+import { Difficulty, GameMode, GrammarPoint, NuanceVerdict, Register, SentenceLength } from './types';
+
+const grammarFixture: GrammarPoint[] = [
+  { level: Difficulty.N5, grammar_point: '～に会う', meaning_cn: '见到某人', usage: '名＋に会う', example_ja: '友達に会う。', example_cn: '见朋友。', note: '' },
+];
+
+
+const startMode = (modeLabel: string) => {
+  fireEvent.click(screen.getByRole('button', { name: 'N5' }));
+  fireEvent.click(screen.getByRole('button', { name: '短' }));
+  fireEvent.click(screen.getByText(modeLabel));
+};
+
+describe('App', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await deleteMultipleHistoryItems((await getHistory()).map(item => item.id));
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(grammarFixture))));
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  // Runs first: grammar data is cached for the rest of the module once a fetch succeeds.
+  it('returns to the welcome screen with an error when the task cannot be generated', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 500 })));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(<App />);
+    startMode('翻译练习');
+
+    expect(await screen.findByText('Failed to fetch a new task. Please try again.')).toBeTruthy();
+    expect(screen.getByText('AI Japanese Practice')).toBeTruthy();
+  });
+
+  it('goes from welcome to practice to feedback and records the attempt', async () => {
+    render(<App />);
+    startMode('翻译练习');
+
+    expect(await screen.findByText(mockFixtures.sentenceTask.chineseSentence)).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText('ここに翻訳を入力してください...'), { target: { value: '昨日駅で同級生に会った。' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Translation' }));
+
+    expect(await screen.findByText(String(mockFixtures.feedback.score))).toBeTruthy();
+    expect(await screen.findByText(mockFixtures.feedback.correctedSentence)).toBeTruthy();
+    expect(await screen.findByRole('list', { name: 'Score breakdown' })).toBeTruthy();
+    expect(screen.getByRole('list', { name: 'Alternative translations' }).querySelectorAll('li')).toHaveLength(3);
+    expect(screen.getByText(/你的译法和「口语 \(Casual\)」的说法一样自然/)).toBeTruthy();
+
+    const nextButton = screen.getByRole('button', { name: '次の文章 (Next Sentence)' });
+    await waitFor(() => expect((nextButton as HTMLButtonElement).disabled).toBe(false));
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+
+    const [item] = await getHistory();
+    expect(item.gameMode).toBe(GameMode.Translation);
+    expect(item.gameMode === GameMode.Translation && item.score).toBe(mockFixtures.feedback.score);
+    expect(item.gameMode === GameMode.Translation && item.matchedRegister).toBe(Register.Casual);
+
+    fireEvent.click(nextButton);
+    expect(await screen.findByPlaceholderText('ここに翻訳を入力してください...')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Back to Home' }));
+    expect(screen.getByText('AI Japanese Practice')).toBeTruthy();
+  });
+
+  it('answers a follow-up question on the feedback and saves the thread with the attempt', async () => {
+    render(<App />);
+    startMode('翻译练习');
+
+    expect(await screen.findByText(mockFixtures.sentenceTask.chineseSentence)).toBeTruthy();
+    fireEvent.change(screen.getByPlaceholderText('ここに翻訳を入力してください...'), { target: { value: '昨日駅で同級生と会った。' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Translation' }));
+
+    const question = '这里用「と」也可以吗？';
+    fireEvent.change(await screen.findByLabelText('Follow-up question'), { target: { value: question } });
+    fireEvent.click(screen.getByRole('button', { name: '提问 (Ask)' }));
+
+    expect(await screen.findByText(question)).toBeTruthy();
+    await waitFor(async () => {
+      const [item] = await getHistory();
+      expect(item.gameMode === GameMode.Translation && item.followUps).toEqual([{ question, answer: mockFixtures.followUpAnswer }]);
+    });
+  });
+
+  it('keeps a failed follow-up answer out of the saved thread and restores the question', async () => {
+    render(<App />);
+    startMode('翻译练习');
+
+    expect(await screen.findByText(mockFixtures.sentenceTask.chineseSentence)).toBeTruthy();
+    fireEvent.change(screen.getByPlaceholderText('ここに翻訳を入力してください...'), { target: { value: '昨日駅で同級生と会った。' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Translation' }));
+
+    const question = `这里用「と」也可以吗？${MOCK_MARKERS.fail}`;
+    fireEvent.change(await screen.findByLabelText('Follow-up question'), { target: { value: question } });
+    fireEvent.click(screen.getByRole('button', { name: '提问 (Ask)' }));
+
+    expect((await screen.findByRole('alert')).textContent).toContain('Failed to get an answer');
+    expect((screen.getByLabelText('Follow-up question') as HTMLInputElement).value).toBe(question);
+    expect(screen.queryByRole('list', { name: 'Follow-up questions' })).toBeNull();
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.Translation && item.followUps).toBeUndefined();
+  });
+
+  it('reveals hints stage by stage and takes their penalty off the recorded score', async () => {
+    render(<App />);
+    startMode('翻译练习');
+
+    expect(await screen.findByText(mockFixtures.sentenceTask.chineseSentence)).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: /提示 \(Hint\) 0\/3/ }));
+    expect(await screen.findByText(mockFixtures.translationHints.vocabulary[1].meaning)).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: /提示 \(Hint\) 1\/3/ }));
+    expect(screen.getByText(mockFixtures.translationHints.skeleton)).toBeTruthy();
+    expect(screen.queryByText(mockFixtures.translationHints.firstChunk)).toBeNull();
+
+    fireEvent.change(screen.getByPlaceholderText('ここに翻訳を入力してください...'), { target: { value: '昨日駅で同級生に会った。' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Translation' }));
+
+    const penalized = mockFixtures.feedback.score - 15;
+    expect(await screen.findByText(`提示 ×2：${mockFixtures.feedback.score} − 15`)).toBeTruthy();
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.Translation && item.hintsUsed).toBe(2);
+    expect(item.gameMode === GameMode.Translation && item.score).toBe(penalized);
+  });
+
+  it('retries a translation from the history and links the new attempt to the first one', async () => {
+    await addHistoryItem({
+      id: 'first-attempt',
+      timestamp: 1,
+      gameMode: GameMode.Translation,
+      difficulty: Difficulty.N4,
+      sentenceLength: SentenceLength.Short,
+      chineseSentence: '我们明天去看电影吧。',
+      userSentence: '明日映画を見ます。',
+      correctedSentence: '明日、映画を見に行きましょう。',
+      score: 40,
+      evaluation: '',
+      feedbackExplanation: '',
+    });
+    render(<App />);
+    fireEvent.click(screen.getByText('練習履歴'));
+    fireEvent.click(await screen.findByText('我们明天去看电影吧。'));
+    fireEvent.click(screen.getByRole('button', { name: '再挑战 (Retry)' }));
+
+    expect(await screen.findByText('我们明天去看电影吧。')).toBeTruthy();
+    fireEvent.change(screen.getByPlaceholderText('ここに翻訳を入力してください...'), { target: { value: '明日、映画を見に行こう。' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Translation' }));
+
+    await waitFor(async () => expect(await getHistory()).toHaveLength(2));
+    const [retry] = await getHistory();
+    expect(retry.gameMode === GameMode.Translation && retry.parentId).toBe('first-attempt');
+    expect(retry.gameMode === GameMode.Translation && retry.chineseSentence).toBe('我们明天去看电影吧。');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Back to Home' }));
+    fireEvent.click(screen.getByText('練習履歴'));
+    fireEvent.click(screen.getAllByText('我们明天去看电影吧。')[0]);
+    const progression = await screen.findByRole('list', { name: 'Attempt progression' });
+    expect(Array.from(progression.querySelectorAll('li')).map(li => li.textContent?.replace('→', ''))).toEqual(['40', String(mockFixtures.feedback.score)]);
+  });
+
+  it('reveals the answer of a multiple choice question and records the choice', async () => {
+    render(<App />);
+    startMode('选择题测验');
+
+    const option = await screen.findByText(mockFixtures.multipleChoiceTask.options[0]);
+    fireEvent.click(option);
+
+    expect(screen.getByRole('button', { name: '次の問題 (Next Question)' })).toBeTruthy();
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.MultipleChoice && item.userChoiceIndex).toBe(0);
+  });
+
+  it('checks a free Japanese sentence and returns to the input screen', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByText('文章チェック'));
+
+    fireEvent.change(screen.getByLabelText('Japanese sentence input'), { target: { value: '同級生に会いました。' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Sentence' }));
+
+    const nextButton = await screen.findByRole('button', { name: 'Check Another Sentence' });
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    expect((await getHistory())[0].gameMode).toBe(GameMode.SentenceCheck);
+
+    fireEvent.click(nextButton);
+    expect(screen.getByLabelText('Japanese sentence input')).toBeTruthy();
+  });
+
+  it('checks a paragraph sentence by sentence and flags mixed politeness', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByText('文章チェック'));
+
+    fireEvent.change(screen.getByLabelText('Japanese sentence input'), { target: { value: '昨日は友達と映画を見ました。とても面白かった。' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Sentence' }));
+
+    const [first, second] = mockFixtures.paragraphFeedback.sentences;
+    expect(await screen.findByText('整体点评 (Coherence)')).toBeTruthy();
+    expect(await screen.findByText(String(Math.round((first.score + second.score) / 2)))).toBeTruthy();
+    expect(screen.getByText('とても面白かった。')).toBeTruthy();
+    expect(screen.getByRole('note').textContent).toContain('混在');
+
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.SentenceCheck && item.correctedSentence).toBe(first.correctedSentence + second.correctedSentence);
+    expect(item.gameMode === GameMode.SentenceCheck && item.sentences?.map(sentence => sentence.score)).toEqual([first.score, second.score]);
+  });
+
+  it('starts a multiple choice session on a grammar point picked in the library', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByText('文法ライブラリ'));
+
+    fireEvent.click(await screen.findByText(grammarFixture[0].grammar_point));
+    fireEvent.click(screen.getByRole('button', { name: '选择题测验' }));
+
+    fireEvent.click(await screen.findByText(mockFixtures.multipleChoiceTask.options[1]));
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.MultipleChoice && item.grammarPoint).toEqual(grammarFixture[0]);
+  });
+
+  it('grades a dictation answer written in kana and records it', async () => {
+    render(<App />);
+    startMode('听写练习');
+
+    expect(await screen.findByRole('button', { name: /再生/ })).toBeTruthy();
+    fireEvent.change(screen.getByLabelText('Dictation answer'), { target: { value: 'きのうえきでともだちにあいました' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Dictation' }));
+
+    expect(screen.getByText('100%')).toBeTruthy();
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.Dictation && item.accuracy).toBe(100);
+  });
+
+  it('evaluates a Chinese translation of a Japanese sentence and records the nuance verdict', async () => {
+    render(<App />);
+    startMode('日译中练习');
+
+    expect(await screen.findByText(mockFixtures.reverseTranslationTask.japaneseSentence)).toBeTruthy();
+    fireEvent.change(screen.getByLabelText('Chinese translation'), { target: { value: '下雨之前早点回家吧。' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Translation' }));
+
+    expect(await screen.findByText(mockFixtures.reverseTranslationFeedback.correctedSentence)).toBeTruthy();
+    expect(await screen.findByText('部分理解 (Partly understood)')).toBeTruthy();
+    expect(screen.queryByRole('status')).toBeNull();
+
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.ReverseTranslation && item.nuance).toBe(NuanceVerdict.Partial);
+  });
+
+  it('accepts a katakana answer to a cloze drill and records it', async () => {
+    render(<App />);
+    startMode('填空练习');
+
+    expect(await screen.findByText(mockFixtures.clozeTask.chineseTranslation)).toBeTruthy();
+    fireEvent.change(screen.getByLabelText('Cloze answer'), { target: { value: 'ウチニ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Answer' }));
+
+    expect(screen.getByText('正解！ (Correct)')).toBeTruthy();
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.Cloze && item.isCorrect).toBe(true);
+  });
+
+  it('places the chunks of a reordering question in order and records it', async () => {
+    render(<App />);
+    startMode('排序题');
+
+    expect(await screen.findByText(mockFixtures.reorderTask.chineseTranslation)).toBeTruthy();
+    for (const chunk of mockFixtures.reorderTask.chunks) {
+      fireEvent.click(screen.getByRole('button', { name: chunk }));
+    }
+    fireEvent.click(screen.getByRole('button', { name: 'Check Order' }));
+
+    expect(screen.getByText('正解！ (Correct)')).toBeTruthy();
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.Reorder && item.userOrder).toEqual([0, 1, 2, 3]);
+  });
+
+  it('runs a mock exam without showing answers and saves it as one graded record', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<App />);
+    startMode('模拟考试');
+
+    expect(await screen.findByRole('timer', { name: 'Time remaining' })).toBeTruthy();
+    const { options, correctOptionIndex } = mockFixtures.multipleChoiceTask;
+    fireEvent.click(screen.getByRole('radio', { name: new RegExp(options[correctOptionIndex]) }));
+    expect(screen.queryByText('正解！ (Correct)')).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'Question 6' }));
+    fireEvent.change(screen.getByLabelText('Cloze answer'), { target: { value: 'うちに' } });
+    fireEvent.click(screen.getByRole('button', { name: '提出する (Submit Exam)' }));
+
+    expect(window.confirm).toHaveBeenCalled();
+    expect(screen.getByText('2 / 10 正解')).toBeTruthy();
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.Exam && item.questions.filter(question => question.isCorrect)).toHaveLength(2);
+  });
+
+  it('keeps a role-play conversation going and saves the transcript with corrections', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'N5' }));
+    fireEvent.click(screen.getByText('角色扮演会话'));
+    fireEvent.click(screen.getByText('お店で買い物'));
+
+    expect(await screen.findByText(mockFixtures.conversationOpening.openingLine)).toBeTruthy();
+    fireEvent.change(screen.getByLabelText('Your reply'), { target: { value: 'シャツを探しています。' } });
+    fireEvent.click(screen.getByRole('button', { name: '送信 (Send)' }));
+
+    expect(await screen.findByText(mockFixtures.conversationReply)).toBeTruthy();
+    await waitFor(async () => expect(await getHistory()).toHaveLength(1));
+    const [item] = await getHistory();
+    expect(item.gameMode === GameMode.Conversation && item.turns).toHaveLength(3);
+  });
+
+  it('searches the history and selects only the records the search shows', async () => {
+    const item = (id: string, chineseSentence: string) => ({
+      id, timestamp: 1, gameMode: GameMode.Translation as const, difficulty: Difficulty.N5, sentenceLength: SentenceLength.Short,
+      chineseSentence, userSentence: '', correctedSentence: '', score: 50, evaluation: '', feedbackExplanation: '',
+    });
+    await addHistoryItem(item('movie', '我们明天去看电影吧。'));
+    await addHistoryItem(item('rain', '明天下雨的话就不去了。'));
+    vi.stubGlobal('confirm', vi.fn(() => true));
+    render(<App />);
+    fireEvent.click(screen.getByText('練習履歴'));
+    await screen.findByText('我们明天去看电影吧。');
+
+    fireEvent.change(screen.getByRole('searchbox', { name: 'Search history' }), { target: { value: '下雨' } });
+    expect(screen.queryByText('我们明天去看电影吧。')).toBeNull();
+    expect(screen.getByText('1 / 2 records')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Select' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Select All' }));
+    expect(screen.getByText('1 selected')).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Delete selected items' }));
+
+    await waitFor(async () => expect((await getHistory()).map(entry => entry.id)).toEqual(['movie']));
+  });
+
+  it('only mounts the history cards near the viewport of a long history', async () => {
+    await mergeAndSaveHistory(Array.from({ length: 2000 }, (_, index) => ({
+      id: `item-${index}`, timestamp: index + 1, gameMode: GameMode.Translation, difficulty: Difficulty.N5, sentenceLength: SentenceLength.Short,
+      chineseSentence: `第${index}句`, userSentence: '', correctedSentence: '', score: 50, evaluation: '', feedbackExplanation: '',
+    })));
+    render(<App />);
+    fireEvent.click(screen.getByText('練習履歴'));
+
+    fireEvent.click(await screen.findByText('第1999句'));
+    const cards = screen.getAllByRole('button', { expanded: false });
+    expect(cards.length).toBeGreaterThan(5);
+    expect(cards.length).toBeLessThan(50);
+    expect(screen.queryByText('第0句')).toBeNull();
+    expect(screen.getByRole('button', { expanded: true }).textContent).toContain('第1999句');
+  });
+});
@@ -1,7 +1,16 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { GameState, SentenceTask, Feedback, Difficulty, GameMode, MultipleChoiceTask, SentenceLength, GrammarPoint, HistoryItem, TranslationHistoryItem, MultipleChoiceHistoryItem, SentenceCheckHistoryItem } from './types';
-import { generateSentenceTask, generateMultipleChoiceTask, getGrammarPoints } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { GameState, SentenceTask, Feedback, Difficulty, GameMode, MultipleChoiceTask, SentenceLength, GrammarPoint, HistoryItem, TranslationHistoryItem, MultipleChoiceHistoryItem, SentenceCheckHistoryItem, ProviderConfig, DictationTask, DictationHistoryItem, ReverseTranslationTask, ReverseTranslationHistoryItem, ClozeTask, ClozeHistoryItem, ReorderTask, ReorderHistoryItem, ReorderVariant, ExamQuestion, ExamHistoryItem, ConversationScenario, ConversationTurn, ConversationHistoryItem, FollowUpMessage } from './types';
+import { generateSentenceTask, generateMultipleChoiceTask, generateDictationTask, generateReverseTranslationTask, generateClozeTask, generateReorderTask, getGrammarPoints } from './services/geminiService';
+import { DictationGrade } from './services/dictationService';
+import { ReorderGrade } from './services/reorderService';
+import { examTimeLimitSeconds, generateExamQuestions, gradeExam } from './services/examService';
+import { splitSentences } from './services/paragraphService';
+import { applyHintPenalty } from './services/hintService';
+import { RetryableHistoryItem, rootAttemptId } from './services/retryService';
+import { getProviderConfig, saveProviderConfig, getProviderLabel } from './services/aiProvider';
 import { getHistory, addHistoryItem, updateHistoryItem, mergeAndSaveHistory, deleteHistoryItem, deleteMultipleHistoryItems } from './services/historyService';
+import { buildReviewStates, countDueByLevel, getDueReviews, grammarPointKey } from './services/srsService';
+import { shuffle } from './services/shuffle';
 import WelcomeScreen from './components/WelcomeScreen';
 import PracticeScreen from './components/PracticeScreen';
 import FeedbackDisplay from './components/FeedbackDisplay';
@@ -11,6 +20,15 @@ import { HomeIcon } from './components/icons/HomeIcon';
 import GrammarLibrary from './components/GrammarLibrary';
 import HistoryScreen from './components/HistoryScreen';
 import SentenceCheckScreen from './components/SentenceCheckScreen';
+import SettingsScreen from './components/SettingsScreen';
+import StatsScreen from './components/StatsScreen';
+import DictationScreen from './components/DictationScreen';
+import ReverseTranslationScreen from './components/ReverseTranslationScreen';
+import ClozeScreen from './components/ClozeScreen';
+import ReorderScreen from './components/ReorderScreen';
+import ExamScreen from './components/ExamScreen';
+import ExamReport from './components/ExamReport';
+import ConversationScreen from './components/ConversationScreen';
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.Welcome);
@@ -21,12 +39,34 @@ const App: React.FC = () => {
   // Translation mode states
   const [currentTask, setCurrentTask] = useState<SentenceTask | null>(null);
   const [userSentence, setUserSentence] = useState('');
+  const [hintsUsed, setHintsUsed] = useState(0);
 
   // Multiple choice mode states
   const [mcqTask, setMcqTask] = useState<MultipleChoiceTask | null>(null);
 
+  // Dictation mode state
+  const [dictationTask, setDictationTask] = useState<DictationTask | null>(null);
+
+  // Reverse translation mode state (the answer goes in `userSentence`)
+  const [reverseTask, setReverseTask] = useState<ReverseTranslationTask | null>(null);
+
+  // Cloze mode state
+  const [clozeTask, setClozeTask] = useState<ClozeTask | null>(null);
+
+  // Sentence reordering state; the question type sticks for the rest of the session
+  const [reorderTask, setReorderTask] = useState<ReorderTask | null>(null);
+  const [reorderVariant, setReorderVariant] = useState<ReorderVariant>(ReorderVariant.Star);
+
+  // Mock exam: the questions while it runs, then the saved record for the report
+  const [examQuestions, setExamQuestions] = useState<ExamQuestion[]>([]);
+  const [examResult, setExamResult] = useState<ExamHistoryItem | null>(null);
+
   // Sentence check mode state
   const [sentenceToCheck, setSentenceToCheck] = useState('');
+  // The history item of the feedback on screen, which follow-up questions are saved to.
+  const [feedbackItemId, setFeedbackItemId] = useState<string | null>(null);
+  // Set while retrying a question from the history: the first attempt the new one links to.
+  const [retryParentId, setRetryParentId] = useState<string | null>(null);
   
   // Grammar library state
   const [grammarPoints, setGrammarPoints] = useState<GrammarPoint[]>([]);
@@ -34,12 +74,24 @@ const App: React.FC = () => {
   // History state
   const [history, setHistory] = useState<HistoryItem[]>([]);
 
+  // Spaced repetition: review mode serves due grammar points before random ones
+  const [isReviewing, setIsReviewing] = useState(false);
+  const reviewStates = useMemo(() => buildReviewStates(history), [history]);
+  const dueCounts = useMemo(() => countDueByLevel(reviewStates, Date.now()), [reviewStates]);
+
+  // Targeted practice: grammar points picked in the library, served in turn
+  const [focusSet, setFocusSet] = useState<GrammarPoint[]>([]);
+  const [focusIndex, setFocusIndex] = useState(0);
+
+  // AI provider settings
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(() => getProviderConfig());
+
   // Shared states
   const [error, setError] = useState<string | null>(null);
 
   // Load history on initial render
   useEffect(() => {
-    setHistory(getHistory());
+    getHistory().then(setHistory);
   }, []);
 
   const handleGoHome = () => {
@@ -48,44 +100,188 @@ const App: React.FC = () => {
     setCurrentTask(null);
     setUserSentence('');
     setMcqTask(null);
+    setDictationTask(null);
+    setReverseTask(null);
+    setClozeTask(null);
+    setReorderTask(null);
+    setExamQuestions([]);
+    setExamResult(null);
+    setIsReviewing(false);
+    setFocusSet([]);
     setError(null);
   };
+
+  // Generates the next task of a practice mode into its state slot.
+  const loadTask = useCallback(async (mode: GameMode, level: Difficulty, length: SentenceLength, focus?: GrammarPoint) => {
+    setRetryParentId(null);
+    if (mode === GameMode.Translation) {
+      setCurrentTask(await generateSentenceTask(level, length, focus));
+    } else if (mode === GameMode.MultipleChoice) {
+      setMcqTask(await generateMultipleChoiceTask(level, length, focus));
+    } else if (mode === GameMode.Dictation) {
+      setDictationTask(await generateDictationTask(level, length, focus));
+    } else if (mode === GameMode.ReverseTranslation) {
+      setReverseTask(await generateReverseTranslationTask(level, length, focus));
+    } else if (mode === GameMode.Cloze) {
+      setClozeTask(await generateClozeTask(level, length, focus));
+    } else if (mode === GameMode.Reorder) {
+      setReorderTask(await generateReorderTask(level, length, focus));
+    }
+  }, []);
   
+  // The most overdue grammar point of the level, skipping the one just practised
+  // (its history item may not be saved yet when the next task is requested).
+  const getNextDueGrammarPoint = useCallback((level: Difficulty, exclude?: GrammarPoint) => {
+    const excludedKey = exclude && grammarPointKey(exclude);
+    return getDueReviews(reviewStates, Date.now(), level)
+      .find(state => grammarPointKey(state.grammarPoint) !== excludedKey)?.grammarPoint;
+  }, [reviewStates]);
+
   const handleStartPractice = useCallback(async (selectedDifficulty: Difficulty, selectedLength: SentenceLength, selectedMode: GameMode) => {
     setDifficulty(selectedDifficulty);
     setSentenceLength(selectedLength);
     setGameMode(selectedMode);
+    setIsReviewing(false);
+    setFocusSet([]);
     setGameState(GameState.Loading);
     setError(null);
     try {
-      if (selectedMode === GameMode.Translation) {
-        const task = await generateSentenceTask(selectedDifficulty, selectedLength);
-        setCurrentTask(task);
-      } else {
-        const task = await generateMultipleChoiceTask(selectedDifficulty, selectedLength);
-        setMcqTask(task);
-      }
+      await loadTask(selectedMode, selectedDifficulty, selectedLength);
+      setGameState(GameState.Practicing);
+    } catch (err) {
+      setError('Failed to fetch a new task. Please try again.');
+      setGameState(GameState.Welcome);
+    }
+  }, [loadTask]);
+
+  // Reviews are translation tasks, since their scores grade recall more finely than a single choice.
+  const handleStartReview = useCallback(async (selectedDifficulty: Difficulty, selectedLength: SentenceLength) => {
+    setDifficulty(selectedDifficulty);
+    setSentenceLength(selectedLength);
+    setGameMode(GameMode.Translation);
+    setIsReviewing(true);
+    setFocusSet([]);
+    setGameState(GameState.Loading);
+    setError(null);
+    try {
+      await loadTask(GameMode.Translation, selectedDifficulty, selectedLength, getNextDueGrammarPoint(selectedDifficulty));
+      setGameState(GameState.Practicing);
+    } catch (err) {
+      setError('Failed to fetch a new task. Please try again.');
+      setGameState(GameState.Welcome);
+    }
+  }, [loadTask, getNextDueGrammarPoint]);
+
+  // Each task takes its JLPT level from the grammar point, so a set may mix levels.
+  const handleStartTargetedPractice = useCallback(async (points: GrammarPoint[], selectedLength: SentenceLength, selectedMode: GameMode) => {
+    if (points.length === 0) return;
+    const shuffled = shuffle(points);
+    const [first] = shuffled;
+    setFocusSet(shuffled);
+    setFocusIndex(0);
+    setDifficulty(first.level);
+    setSentenceLength(selectedLength);
+    setGameMode(selectedMode);
+    setIsReviewing(false);
+    setGameState(GameState.Loading);
+    setError(null);
+    try {
+      await loadTask(selectedMode, first.level, selectedLength, first);
       setGameState(GameState.Practicing);
     } catch (err) {
       setError('Failed to fetch a new task. Please try again.');
       setGameState(GameState.Welcome);
     }
+  }, [loadTask]);
+
+  const handleStartExam = useCallback(async (selectedDifficulty: Difficulty, selectedLength: SentenceLength) => {
+    setDifficulty(selectedDifficulty);
+    setSentenceLength(selectedLength);
+    setGameMode(GameMode.Exam);
+    setIsReviewing(false);
+    setFocusSet([]);
+    setExamResult(null);
+    setGameState(GameState.Loading);
+    setError(null);
+    try {
+      setExamQuestions(await generateExamQuestions(selectedDifficulty, selectedLength));
+      setGameState(GameState.Exam);
+    } catch (err) {
+      setError('Failed to prepare the exam. Please try again.');
+      setGameState(GameState.Welcome);
+    }
+  }, []);
+
+  const handleExamFinish = useCallback((questions: ExamQuestion[], timeUsedSeconds: number, timedOut: boolean) => {
+    const newHistoryItem: ExamHistoryItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: Date.now(),
+      gameMode: GameMode.Exam,
+      difficulty,
+      sentenceLength,
+      questions: gradeExam(questions),
+      timeLimitSeconds: examTimeLimitSeconds(),
+      timeUsedSeconds,
+      timedOut,
+    };
+    addHistoryItem(newHistoryItem);
+    setHistory(prevHistory => [newHistoryItem, ...prevHistory]);
+    setExamQuestions([]);
+    setExamResult(newHistoryItem);
+    setGameState(GameState.ExamReport);
+  }, [difficulty, sentenceLength]);
+
+  const handleStartConversation = useCallback((selectedDifficulty: Difficulty) => {
+    setDifficulty(selectedDifficulty);
+    setGameMode(GameMode.Conversation);
+    setIsReviewing(false);
+    setFocusSet([]);
+    setError(null);
+    setGameState(GameState.Conversation);
   }, []);
 
+  // Saved after every turn, so leaving mid-conversation keeps the transcript.
+  const handleConversationChange = useCallback((scenario: ConversationScenario, startedAt: number, turns: ConversationTurn[], audios: (string | null)[]) => {
+    const conversationItem: ConversationHistoryItem = {
+      id: `${startedAt}-conversation`,
+      timestamp: startedAt,
+      gameMode: GameMode.Conversation,
+      difficulty,
+      scenario,
+      turns,
+      audiosBase64: audios.some(a => a) ? audios : undefined,
+    };
+    addHistoryItem(conversationItem);
+    setHistory(prevHistory => [conversationItem, ...prevHistory.filter(item => item.id !== conversationItem.id)]);
+  }, [difficulty]);
+
   const handleNextPractice = useCallback(async () => {
+    const previousGrammarPoint = currentTask?.grammarPoint;
     setGameState(GameState.Loading);
     setError(null);
     setCurrentTask(null);
     setUserSentence('');
     setMcqTask(null);
+    setDictationTask(null);
+    setReverseTask(null);
+    setClozeTask(null);
+    setReorderTask(null);
+
+    let level = difficulty;
+    let focus: GrammarPoint | undefined;
+    if (focusSet.length > 0) {
+      const nextIndex = (focusIndex + 1) % focusSet.length;
+      focus = focusSet[nextIndex];
+      level = focus.level;
+      setFocusIndex(nextIndex);
+      setDifficulty(level);
+    } else if (isReviewing) {
+      focus = getNextDueGrammarPoint(difficulty, previousGrammarPoint);
+    }
 
     try {
-      if (gameMode === GameMode.Translation) {
-        const task = await generateSentenceTask(difficulty, sentenceLength);
-        setCurrentTask(task);
-      } else if (gameMode === GameMode.MultipleChoice) {
-        const task = await generateMultipleChoiceTask(difficulty, sentenceLength);
-        setMcqTask(task);
+      if (gameMode) {
+        await loadTask(gameMode, level, sentenceLength, focus);
       }
       setGameState(GameState.Practicing);
     } catch (err) {
@@ -93,10 +289,11 @@ const App: React.FC = () => {
       // Go back to welcome if fetching fails from a feedback screen
       setGameState(GameState.Welcome);
     }
-  }, [difficulty, gameMode, sentenceLength]);
+  }, [difficulty, gameMode, sentenceLength, currentTask, isReviewing, getNextDueGrammarPoint, focusSet, focusIndex, loadTask]);
 
-  const handleSubmission = (sentence: string) => {
+  const handleSubmission = (sentence: string, hintsUsed = 0) => {
     setUserSentence(sentence);
+    setHintsUsed(hintsUsed);
     setGameState(GameState.Feedback);
   };
 
@@ -116,12 +313,52 @@ const App: React.FC = () => {
     }
   }, [grammarPoints]);
   
+  // Re-opens a question from the history as-is, without generating a new one.
+  const handleRetry = useCallback((item: RetryableHistoryItem) => {
+    setDifficulty(item.difficulty);
+    setSentenceLength(item.sentenceLength);
+    setGameMode(item.gameMode);
+    setIsReviewing(false);
+    setFocusSet([]);
+    setError(null);
+    setRetryParentId(rootAttemptId(item));
+    if (item.gameMode === GameMode.Translation) {
+      setCurrentTask({ chineseSentence: item.chineseSentence, grammarPoint: item.grammarPoint });
+      setUserSentence('');
+      setHintsUsed(0);
+    } else {
+      setMcqTask({
+        chineseSentence: item.chineseSentence,
+        options: item.options,
+        correctOptionIndex: item.correctOptionIndex,
+        chinglishOptionIndex: item.chinglishOptionIndex,
+        explanation: item.mcqExplanation,
+        grammarPoint: item.grammarPoint,
+      });
+    }
+    setGameState(GameState.Practicing);
+  }, []);
+
   const handleViewHistory = () => {
     setGameState(GameState.History);
   };
+
+  const handleViewStats = () => {
+    setGameState(GameState.Stats);
+  };
   
-  const handleImportHistory = useCallback((importedData: HistoryItem[]) => {
-    const mergedHistory = mergeAndSaveHistory(importedData);
+  const handleOpenSettings = () => {
+    setGameState(GameState.Settings);
+  };
+
+  const handleSaveSettings = (config: ProviderConfig) => {
+    saveProviderConfig(config);
+    setProviderConfig(config);
+    setGameState(GameState.Welcome);
+  };
+
+  const handleImportHistory = useCallback(async (importedData: HistoryItem[]) => {
+    const mergedHistory = await mergeAndSaveHistory(importedData);
     setHistory(mergedHistory);
   }, []);
   
@@ -142,6 +379,13 @@ const App: React.FC = () => {
     setHistory(prev => prev.map(item => item.id === updatedItem.id ? updatedItem : item));
   }, []);
 
+  const handleFollowUp = useCallback((followUps: FollowUpMessage[]) => {
+    const item = history.find(entry => entry.id === feedbackItemId);
+    if (item && (item.gameMode === GameMode.Translation || item.gameMode === GameMode.ReverseTranslation || item.gameMode === GameMode.SentenceCheck)) {
+      handleUpdateHistoryItem({ ...item, followUps });
+    }
+  }, [history, feedbackItemId, handleUpdateHistoryItem]);
+
   const handleTranslationComplete = useCallback((feedback: Feedback, audioBase64: string | null) => {
       if (!currentTask) return;
       const newHistoryItem: TranslationHistoryItem = {
@@ -152,16 +396,24 @@ const App: React.FC = () => {
           sentenceLength,
           chineseSentence: currentTask.chineseSentence,
           userSentence,
-          score: feedback.score,
+          score: applyHintPenalty(feedback.score, hintsUsed),
+          hintsUsed: hintsUsed || undefined,
           evaluation: feedback.evaluation,
           correctedSentence: feedback.correctedSentence,
           feedbackExplanation: feedback.explanation,
+          rubric: feedback.rubric,
+          fixes: feedback.fixes,
+          sentences: feedback.sentences,
+          alternatives: feedback.alternatives,
+          matchedRegister: feedback.matchedRegister,
           grammarPoint: currentTask.grammarPoint,
+          parentId: retryParentId ?? undefined,
           audioBase64: audioBase64 ?? undefined,
       };
       addHistoryItem(newHistoryItem);
+      setFeedbackItemId(newHistoryItem.id);
       setHistory(prevHistory => [newHistoryItem, ...prevHistory]);
-  }, [currentTask, userSentence, difficulty, sentenceLength]);
+  }, [currentTask, userSentence, hintsUsed, retryParentId, difficulty, sentenceLength]);
 
   const handleMcqComplete = useCallback((userChoiceIndex: number, audiosBase64: (string | null)[]) => {
     if (!mcqTask) return;
@@ -175,14 +427,105 @@ const App: React.FC = () => {
       options: mcqTask.options,
       userChoiceIndex,
       correctOptionIndex: mcqTask.correctOptionIndex,
+      chinglishOptionIndex: mcqTask.chinglishOptionIndex,
       mcqExplanation: mcqTask.explanation,
       grammarPoint: mcqTask.grammarPoint,
+      parentId: retryParentId ?? undefined,
       audiosBase64: audiosBase64.some(a => a) ? audiosBase64 : undefined,
     };
     addHistoryItem(newHistoryItem);
     setHistory(prevHistory => [newHistoryItem, ...prevHistory]);
-  }, [mcqTask, difficulty, sentenceLength]);
+  }, [mcqTask, retryParentId, difficulty, sentenceLength]);
   
+  const handleDictationComplete = useCallback((transcript: string, grade: DictationGrade, audioBase64: string | null) => {
+    if (!dictationTask) return;
+    const newHistoryItem: DictationHistoryItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: Date.now(),
+      gameMode: GameMode.Dictation,
+      difficulty,
+      sentenceLength,
+      japaneseSentence: dictationTask.japaneseSentence,
+      segments: dictationTask.segments,
+      chineseTranslation: dictationTask.chineseTranslation,
+      userTranscript: transcript,
+      accuracy: grade.accuracy,
+      grammarPoint: dictationTask.grammarPoint,
+      audioBase64: audioBase64 ?? undefined,
+    };
+    addHistoryItem(newHistoryItem);
+    setHistory(prevHistory => [newHistoryItem, ...prevHistory]);
+  }, [dictationTask, difficulty, sentenceLength]);
+
+  const handleReverseTranslationComplete = useCallback((feedback: Feedback, audioBase64: string | null) => {
+    if (!reverseTask) return;
+    const newHistoryItem: ReverseTranslationHistoryItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: Date.now(),
+      gameMode: GameMode.ReverseTranslation,
+      difficulty,
+      sentenceLength,
+      japaneseSentence: reverseTask.japaneseSentence,
+      userSentence,
+      score: feedback.score,
+      evaluation: feedback.evaluation,
+      correctedSentence: feedback.correctedSentence,
+      nuance: feedback.nuance,
+      feedbackExplanation: feedback.explanation,
+      grammarPoint: reverseTask.grammarPoint,
+      audioBase64: audioBase64 ?? undefined,
+    };
+    addHistoryItem(newHistoryItem);
+    setFeedbackItemId(newHistoryItem.id);
+    setHistory(prevHistory => [newHistoryItem, ...prevHistory]);
+  }, [reverseTask, userSentence, difficulty, sentenceLength]);
+
+  const handleClozeComplete = useCallback((userAnswer: string, isCorrect: boolean, audioBase64: string | null) => {
+    if (!clozeTask) return;
+    const newHistoryItem: ClozeHistoryItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: Date.now(),
+      gameMode: GameMode.Cloze,
+      difficulty,
+      sentenceLength,
+      before: clozeTask.before,
+      answer: clozeTask.answer,
+      after: clozeTask.after,
+      reading: clozeTask.reading,
+      alternatives: clozeTask.alternatives,
+      chineseTranslation: clozeTask.chineseTranslation,
+      userAnswer,
+      isCorrect,
+      grammarPoint: clozeTask.grammarPoint,
+      audioBase64: audioBase64 ?? undefined,
+    };
+    addHistoryItem(newHistoryItem);
+    setHistory(prevHistory => [newHistoryItem, ...prevHistory]);
+  }, [clozeTask, difficulty, sentenceLength]);
+
+  const handleReorderComplete = useCallback((userOrder: number[], grade: ReorderGrade, audioBase64: string | null) => {
+    if (!reorderTask) return;
+    const newHistoryItem: ReorderHistoryItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      timestamp: Date.now(),
+      gameMode: GameMode.Reorder,
+      difficulty,
+      sentenceLength,
+      before: reorderTask.before,
+      chunks: reorderTask.chunks,
+      after: reorderTask.after,
+      starIndex: reorderTask.starIndex,
+      chineseTranslation: reorderTask.chineseTranslation,
+      variant: reorderVariant,
+      userOrder,
+      isCorrect: grade.isCorrect,
+      grammarPoint: reorderTask.grammarPoint,
+      audioBase64: audioBase64 ?? undefined,
+    };
+    addHistoryItem(newHistoryItem);
+    setHistory(prevHistory => [newHistoryItem, ...prevHistory]);
+  }, [reorderTask, reorderVariant, difficulty, sentenceLength]);
+
   const handleStartSentenceCheck = () => {
     setGameMode(GameMode.SentenceCheck);
     setGameState(GameState.SentenceCheck);
@@ -205,9 +548,13 @@ const App: React.FC = () => {
           evaluation: feedback.evaluation,
           correctedSentence: feedback.correctedSentence,
           feedbackExplanation: feedback.explanation,
+          rubric: feedback.rubric,
+          fixes: feedback.fixes,
+          sentences: feedback.sentences,
           audioBase64: audioBase64 ?? undefined,
       };
       addHistoryItem(newHistoryItem);
+      setFeedbackItemId(newHistoryItem.id);
       setHistory(prevHistory => [newHistoryItem, ...prevHistory]);
   }, [sentenceToCheck]);
 
@@ -217,16 +564,28 @@ const App: React.FC = () => {
       case GameState.Loading:
         return <LoadingSpinner />;
       case GameState.Welcome:
-        return <WelcomeScreen onStart={handleStartPractice} onViewGrammar={handleViewGrammar} onViewHistory={handleViewHistory} onStartSentenceCheck={handleStartSentenceCheck} />;
+        return <WelcomeScreen onStart={handleStartPractice} onStartReview={handleStartReview} onStartExam={handleStartExam} onStartConversation={handleStartConversation} dueCounts={dueCounts} onViewGrammar={handleViewGrammar} onViewHistory={handleViewHistory} onStartSentenceCheck={handleStartSentenceCheck} onOpenSettings={handleOpenSettings} />;
       case GameState.SentenceCheck:
         return <SentenceCheckScreen onCheck={handleSentenceCheckSubmit} />;
       case GameState.Practicing:
         if (gameMode === GameMode.Translation && currentTask) {
-          return <PracticeScreen task={currentTask} onCheck={handleSubmission} />;
+          return <PracticeScreen task={currentTask} difficulty={difficulty} onCheck={handleSubmission} />;
         }
         if (gameMode === GameMode.MultipleChoice && mcqTask) {
           return <MultipleChoiceScreen task={mcqTask} onNext={handleNextPractice} onComplete={handleMcqComplete} />;
         }
+        if (gameMode === GameMode.Dictation && dictationTask) {
+          return <DictationScreen task={dictationTask} onNext={handleNextPractice} onComplete={handleDictationComplete} />;
+        }
+        if (gameMode === GameMode.ReverseTranslation && reverseTask) {
+          return <ReverseTranslationScreen task={reverseTask} onCheck={handleSubmission} />;
+        }
+        if (gameMode === GameMode.Cloze && clozeTask) {
+          return <ClozeScreen task={clozeTask} onNext={handleNextPractice} onComplete={handleClozeComplete} />;
+        }
+        if (gameMode === GameMode.Reorder && reorderTask) {
+          return <ReorderScreen task={reorderTask} variant={reorderVariant} onVariantChange={setReorderVariant} onNext={handleNextPractice} onComplete={handleReorderComplete} />;
+        }
         // Fallback if task isn't loaded for some reason
         handleNextPractice();
         return <LoadingSpinner />;
@@ -235,30 +594,65 @@ const App: React.FC = () => {
             return <FeedbackDisplay
               task={currentTask}
               userSentence={userSentence}
+              paragraph={sentenceLength === SentenceLength.Paragraph}
+              hintsUsed={hintsUsed}
               onNext={handleNextPractice}
               onComplete={handleTranslationComplete}
+              onFollowUp={handleFollowUp}
+            />;
+         }
+         if (gameMode === GameMode.ReverseTranslation && reverseTask) {
+            return <FeedbackDisplay
+              reverseTask={reverseTask}
+              userSentence={userSentence}
+              onNext={handleNextPractice}
+              onComplete={handleReverseTranslationComplete}
+              onFollowUp={handleFollowUp}
             />;
          }
          if (gameMode === GameMode.SentenceCheck) {
             return <FeedbackDisplay
               userSentence={sentenceToCheck}
+              paragraph={splitSentences(sentenceToCheck).length > 1}
               onNext={() => { 
                 setSentenceToCheck(''); 
                 setGameState(GameState.SentenceCheck); 
               }}
               onComplete={handleSentenceCheckComplete}
+              onFollowUp={handleFollowUp}
               onNextLabel="Check Another Sentence"
             />;
          }
          // Fallback for MCQ or if translation feedback is missing
          setGameState(GameState.Welcome);
-         return <WelcomeScreen onStart={handleStartPractice} onViewGrammar={handleViewGrammar} onViewHistory={handleViewHistory} onStartSentenceCheck={handleStartSentenceCheck}/>;
+         return <WelcomeScreen onStart={handleStartPractice} onStartReview={handleStartReview} onStartExam={handleStartExam} onStartConversation={handleStartConversation} dueCounts={dueCounts} onViewGrammar={handleViewGrammar} onViewHistory={handleViewHistory} onStartSentenceCheck={handleStartSentenceCheck} onOpenSettings={handleOpenSettings} />;
+      case GameState.Exam:
+        return <ExamScreen questions={examQuestions} difficulty={difficulty} timeLimitSeconds={examTimeLimitSeconds()} onFinish={handleExamFinish} />;
+      case GameState.ExamReport:
+        if (!examResult) return <LoadingSpinner />;
+        return (
+          <div className="w-full p-6 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in flex flex-col gap-6">
+            <ExamReport exam={examResult} />
+            <button
+              onClick={() => handleStartExam(examResult.difficulty, examResult.sentenceLength)}
+              className="w-full px-8 py-3 bg-gradient-to-r from-blue-500 to-teal-400 text-white font-bold rounded-full hover:scale-105 transform transition-transform duration-300 focus:outline-none focus:ring-4 focus:ring-teal-300/50 shadow-lg"
+            >
+              もう一度受験する (Take Another Exam)
+            </button>
+          </div>
+        );
+      case GameState.Conversation:
+        return <ConversationScreen difficulty={difficulty} onSessionChange={handleConversationChange} />;
       case GameState.Grammar:
-        return <GrammarLibrary points={grammarPoints} />;
+        return <GrammarLibrary points={grammarPoints} onPractice={handleStartTargetedPractice} />;
       case GameState.History:
-        return <HistoryScreen history={history} onUpdateHistoryItem={handleUpdateHistoryItem} onImportHistory={handleImportHistory} onDeleteItem={handleDeleteHistoryItem} onDeleteMultipleItems={handleDeleteMultipleHistoryItems} />;
+        return <HistoryScreen history={history} onUpdateHistoryItem={handleUpdateHistoryItem} onImportHistory={handleImportHistory} onDeleteItem={handleDeleteHistoryItem} onDeleteMultipleItems={handleDeleteMultipleHistoryItems} onViewStats={handleViewStats} onRetry={handleRetry} />;
+      case GameState.Stats:
+        return <StatsScreen history={history} onBack={handleViewHistory} />;
+      case GameState.Settings:
+        return <SettingsScreen config={providerConfig} onSave={handleSaveSettings} />;
       default:
-        return <WelcomeScreen onStart={handleStartPractice} onViewGrammar={handleViewGrammar} onViewHistory={handleViewHistory} onStartSentenceCheck={handleStartSentenceCheck}/>;
+        return <WelcomeScreen onStart={handleStartPractice} onStartReview={handleStartReview} onStartExam={handleStartExam} onStartConversation={handleStartConversation} dueCounts={dueCounts} onViewGrammar={handleViewGrammar} onViewHistory={handleViewHistory} onStartSentenceCheck={handleStartSentenceCheck} onOpenSettings={handleOpenSettings} />;
     }
   };
 
@@ -278,12 +672,12 @@ const App: React.FC = () => {
              Japanese Sentence Practice AI
           </h1>
        </header>
-       <main className={`w-full ${gameState === GameState.Grammar || gameState === GameState.History ? 'max-w-4xl' : 'max-w-2xl'} flex-grow flex ${gameState === GameState.Grammar || gameState === GameState.History ? 'items-stretch' : 'items-center'} justify-center pb-8`}>
+       <main className={`w-full ${gameState === GameState.Grammar || gameState === GameState.History || gameState === GameState.Stats ? 'max-w-4xl' : 'max-w-2xl'} flex-grow flex ${gameState === GameState.Grammar || gameState === GameState.History || gameState === GameState.Stats ? 'items-stretch' : 'items-center'} justify-center pb-8`}>
           {renderGameState()}
        </main>
        {error && <div className="absolute bottom-4 bg-red-500/90 text-white py-2 px-4 rounded-md shadow-lg animate-fade-in">{error}</div>}
        <footer className="fixed bottom-0 left-0 w-full p-2 text-center text-gray-500 text-sm bg-gray-900">
-        <p>Powered by Gemini AI</p>
+        <p>Powered by {getProviderLabel(providerConfig)}</p>
        </footer>
     </div>
   );
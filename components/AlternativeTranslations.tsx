@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { AlternativeTranslation, Register } from '../types';
+import { generateSpeech } from '../services/geminiService';
+import { playAudio } from '../services/audioPlaybackService';
+import { SpeakerWaveIcon } from './icons/SpeakerWaveIcon';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
+
+interface AlternativeTranslationsProps {
+  alternatives: AlternativeTranslation[];
+  matchedRegister?: Register;
+}
+
+const registerLabels: Record<Register, string> = {
+  [Register.Casual]: '口语 (Casual)',
+  [Register.Polite]: '礼貌 (Polite)',
+  [Register.Written]: '书面 (Written)',
+};
+
+const AlternativeTranslations: React.FC<AlternativeTranslationsProps> = ({ alternatives, matchedRegister }) => {
+  // Clips are generated on first play and kept for as long as the list is shown.
+  const [clips, setClips] = useState<Partial<Record<Register, string>>>({});
+  const [loadingRegister, setLoadingRegister] = useState<Register | null>(null);
+
+  const handlePlay = async ({ register, sentence }: AlternativeTranslation) => {
+    if (loadingRegister) return;
+    setLoadingRegister(register);
+    try {
+      let clip = clips[register];
+      if (!clip) {
+        clip = await generateSpeech(sentence) ?? undefined;
+        if (!clip) throw new Error("Audio generation returned null.");
+        setClips(prev => ({ ...prev, [register]: clip }));
+      }
+      await playAudio(clip);
+    } catch (error) {
+      console.error("Failed to generate or play alternative translation audio:", error);
+    } finally {
+      setLoadingRegister(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {matchedRegister && (
+        <p className="flex items-center gap-2 text-green-300" role="status">
+          <CheckCircleIcon className="w-5 h-5 shrink-0" />
+          你的译法和「{registerLabels[matchedRegister]}」的说法一样自然，不算错误。
+        </p>
+      )}
+      <ul className="space-y-2" aria-label="Alternative translations">
+        {alternatives.map(alternative => (
+          <li
+            key={alternative.register}
+            className={`flex items-center gap-3 p-3 rounded-lg border ${alternative.register === matchedRegister ? 'border-green-500/50 bg-green-900/20' : 'border-slate-700 bg-slate-900/40'}`}
+          >
+            <span className="w-28 shrink-0 text-sm text-slate-400">{registerLabels[alternative.register]}</span>
+            <span className="flex-1 text-white" lang="ja">{alternative.sentence}</span>
+            <button
+              onClick={() => handlePlay(alternative)}
+              disabled={loadingRegister !== null}
+              className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait shrink-0"
+              aria-label={`Play ${alternative.register.toLowerCase()} translation`}
+            >
+              {loadingRegister === alternative.register
+                ? <div className="w-5 h-5 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div>
+                : <SpeakerWaveIcon className="w-5 h-5" />
+              }
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AlternativeTranslations;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { GameMode } from '../types';
+import { RetryableHistoryItem, attemptScore } from '../services/retryService';
+
+interface AttemptProgressionProps {
+  // Every attempt of the question, oldest first.
+  attempts: RetryableHistoryItem[];
+  currentId: string;
+}
+
+const getChipClasses = (score: number | null) => {
+  if (score === null) return 'bg-slate-500/20 text-slate-300 border-slate-500/30';
+  if (score >= 80) return 'bg-green-500/20 text-green-300 border-green-500/30';
+  if (score >= 50) return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
+  return 'bg-red-500/20 text-red-300 border-red-500/30';
+};
+
+const chipLabel = (item: RetryableHistoryItem, score: number | null) => {
+  if (score === null) return '—';
+  if (item.gameMode === GameMode.MultipleChoice) return score === 100 ? '✓' : '✗';
+  return String(score);
+};
+
+const AttemptProgression: React.FC<AttemptProgressionProps> = ({ attempts, currentId }) => {
+  const scores = attempts.map(attemptScore);
+  const graded = scores.filter((score): score is number => score !== null);
+  const change = attempts[0].gameMode === GameMode.Translation && graded.length > 1 ? graded[graded.length - 1] - graded[0] : null;
+
+  return (
+    <div className="flex items-center gap-3 flex-wrap">
+      <ol className="flex items-center gap-1 flex-wrap" aria-label="Attempt progression">
+        {attempts.map((item, index) => (
+          <li key={item.id} className="flex items-center gap-1">
+            {index > 0 && <span className="text-slate-600" aria-hidden="true">→</span>}
+            <span
+              className={`px-2 rounded border font-bold text-sm tabular-nums ${getChipClasses(scores[index])} ${item.id === currentId ? 'ring-2 ring-blue-400' : ''}`}
+              title={new Date(item.timestamp).toLocaleString()}
+              aria-current={item.id === currentId ? 'true' : undefined}
+            >
+              {chipLabel(item, scores[index])}
+            </span>
+          </li>
+        ))}
+      </ol>
+      {change !== null && change !== 0 && (
+        <span className={`text-sm ${change > 0 ? 'text-green-300' : 'text-red-300'}`}>
+          {change > 0 ? `+${change}` : change}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default AttemptProgression;
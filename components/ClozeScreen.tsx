@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { ClozeTask } from '../types';
+import { InformationCircleIcon } from './icons/InformationCircleIcon';
+import { SpeakerWaveIcon } from './icons/SpeakerWaveIcon';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
+import { XCircleIcon } from './icons/XCircleIcon';
+import { generateSpeech } from '../services/geminiService';
+import { playAudio, stopAudio } from '../services/audioPlaybackService';
+import { checkClozeAnswer, clozeSentence } from '../services/clozeService';
+
+interface ClozeScreenProps {
+  task: ClozeTask;
+  onNext: () => void;
+  onComplete: (userAnswer: string, isCorrect: boolean, audioBase64: string | null) => void;
+}
+
+const ClozeScreen: React.FC<ClozeScreenProps> = ({ task, onNext, onComplete }) => {
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<{ userAnswer: string; isCorrect: boolean } | null>(null);
+  const [audioBase64, setAudioBase64] = useState<string | null>(null);
+  const [isAudioLoading, setIsAudioLoading] = useState(false);
+
+  useEffect(() => stopAudio, []);
+
+  const handleCheck = async (userAnswer: string) => {
+    const isCorrect = checkClozeAnswer(task, userAnswer);
+    setResult({ userAnswer, isCorrect });
+
+    setIsAudioLoading(true);
+    let audio: string | null = null;
+    try {
+      audio = await generateSpeech(clozeSentence(task));
+    } catch (error) {
+      console.error("Audio generation failed:", error);
+    }
+    setAudioBase64(audio);
+    setIsAudioLoading(false);
+    onComplete(userAnswer, isCorrect, audio);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (answer.trim()) {
+      handleCheck(answer.trim());
+    }
+  };
+
+  const handlePlayAudio = async () => {
+    if (isAudioLoading || !audioBase64) return;
+    setIsAudioLoading(true);
+    try {
+      await playAudio(audioBase64);
+    } catch (error) {
+      console.error("Failed to play cloze audio:", error);
+    } finally {
+      setIsAudioLoading(false);
+    }
+  };
+
+  const spellings = [...new Set([task.answer, task.reading, ...task.alternatives].filter(Boolean))];
+
+  return (
+    <div className="w-full p-6 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in flex flex-col gap-6">
+      {task.grammarPoint && (
+        <div className="p-4 bg-slate-900/40 border border-slate-700 rounded-lg">
+          <div className="flex items-start gap-3">
+            <InformationCircleIcon className="w-6 h-6 text-purple-400 mt-0.5 shrink-0" />
+            <div>
+              <p className="text-sm text-purple-300 font-semibold">ヒント (Hint)</p>
+              {/* The expression itself is the answer, so only its meaning is shown before checking. */}
+              <p className="text-slate-300 mt-1">{task.grammarPoint.meaning_cn}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="text-center">
+        <p className="text-lg text-slate-400">Fill in the blank:</p>
+        <div className="my-4 p-4 bg-slate-900/50 rounded-lg">
+          <p className="text-2xl font-bold text-white leading-relaxed" lang="ja">
+            {task.before}
+            {result === null ? (
+              <span className="inline-block min-w-[4rem] mx-1 border-b-2 border-teal-400 text-teal-300" aria-label="blank">&nbsp;</span>
+            ) : (
+              <span className={`mx-1 px-1 rounded ${result.isCorrect ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'}`}>{task.answer}</span>
+            )}
+            {task.after}
+          </p>
+          <p className="text-slate-400 mt-2">{task.chineseTranslation}</p>
+        </div>
+      </div>
+
+      {result === null ? (
+        <form onSubmit={handleSubmit}>
+          <input
+            type="text"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder="空欄に入る表現を入力してください..."
+            aria-label="Cloze answer"
+            className="w-full p-4 bg-slate-900 border-2 border-slate-600 rounded-lg text-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-colors"
+          />
+          <p className="text-xs text-slate-500 mt-1">ひらがな・カタカナ・漢字のどれでも大丈夫です。複合語の送り仮名の省略も正解になります。</p>
+          <div className="text-center mt-2">
+            <button
+              type="button"
+              onClick={() => handleCheck('')}
+              className="text-sm text-slate-400 hover:text-teal-300 transition-colors py-1"
+            >
+              不确定？点击查看答案
+            </button>
+          </div>
+          <button
+            type="submit"
+            disabled={!answer.trim()}
+            className="w-full mt-2 px-8 py-3 bg-gradient-to-r from-blue-500 to-teal-400 text-white font-bold rounded-full hover:scale-105 transform transition-transform duration-300 focus:outline-none focus:ring-4 focus:ring-teal-300/50 shadow-lg disabled:bg-gray-600 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:scale-100"
+          >
+            Check Answer
+          </button>
+        </form>
+      ) : (
+        <>
+          <div className="p-4 bg-slate-900/40 border border-slate-700 rounded-lg animate-fade-in space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className={`text-lg font-semibold flex items-center gap-2 ${result.isCorrect ? 'text-green-300' : 'text-red-300'}`}>
+                {result.isCorrect ? <CheckCircleIcon className="w-6 h-6" /> : <XCircleIcon className="w-6 h-6" />}
+                {result.isCorrect ? '正解！ (Correct)' : '不正解 (Incorrect)'}
+              </h3>
+              <button
+                onClick={handlePlayAudio}
+                disabled={isAudioLoading || !audioBase64}
+                className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait"
+                aria-label="Play sentence audio"
+              >
+                {isAudioLoading
+                  ? <div className="w-5 h-5 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div>
+                  : <SpeakerWaveIcon className="w-5 h-5" />
+                }
+              </button>
+            </div>
+            <p className="text-slate-300"><span className="text-slate-400">あなたの答え:</span> {result.userAnswer || '(未回答)'}</p>
+            <p className="text-slate-300"><span className="text-slate-400">正解:</span> {spellings.join(' / ')}</p>
+          </div>
+          {task.grammarPoint && (
+            <div className="p-4 bg-slate-900/40 border border-slate-700 rounded-lg animate-fade-in">
+              <div className="flex items-start gap-3">
+                <InformationCircleIcon className="w-6 h-6 text-purple-400 mt-0.5 shrink-0" />
+                <div>
+                  <p className="text-sm text-purple-300 font-semibold">文法フォーカス (Grammar Focus)</p>
+                  <p className="text-lg font-bold text-white mt-1">{task.grammarPoint.grammar_point}</p>
+                  <p className="text-slate-400 text-sm">{task.grammarPoint.usage}</p>
+                </div>
+              </div>
+            </div>
+          )}
+          <button
+            onClick={onNext}
+            disabled={isAudioLoading && !audioBase64}
+            className="w-full px-8 py-3 bg-gradient-to-r from-blue-500 to-teal-400 text-white font-bold rounded-full hover:scale-105 transform transition-transform duration-300 focus:outline-none focus:ring-4 focus:ring-teal-300/50 shadow-lg disabled:bg-gray-600 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:scale-100"
+          >
+            次の問題 (Next Question)
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClozeScreen;
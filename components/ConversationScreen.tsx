@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ConversationScenario, ConversationSpeaker, ConversationTurn, Difficulty, Feedback, FeedbackHeader, FeedbackParseWarning } from '../types';
+import { continueConversationStream, generateConversationOpening, generateSpeech } from '../services/geminiService';
+import { playAudio, stopAudio } from '../services/audioPlaybackService';
+import { NO_CORRECTION_PLACEHOLDER } from '../services/feedbackStreamParser';
+import { conversationScenarioLabels } from '../services/reportService';
+import ConversationTranscript, { spokenText } from './ConversationTranscript';
+import { parseWarningMessages } from './FeedbackDisplay';
+
+interface ConversationScreenProps {
+  difficulty: Difficulty;
+  // Called after every evaluated turn (and newly generated clip) with the whole session so far.
+  onSessionChange: (scenario: ConversationScenario, startedAt: number, turns: ConversationTurn[], audios: (string | null)[]) => void;
+}
+
+const ConversationScreen: React.FC<ConversationScreenProps> = ({ difficulty, onSessionChange }) => {
+  const [scenario, setScenario] = useState<ConversationScenario | null>(null);
+  const [startedAt, setStartedAt] = useState(0);
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  // Clips by turn index. A ref, since a clip may be generated while a turn is streaming.
+  const audiosRef = useRef<(string | null)[]>([]);
+  const [input, setInput] = useState('');
+  const [pending, setPending] = useState<{ text: string; feedback: Partial<Feedback> } | null>(null);
+  const [parseWarnings, setParseWarnings] = useState<FeedbackParseWarning[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loadingIndex, setLoadingIndex] = useState<number | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => stopAudio, []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'end' });
+  }, [turns, pending?.feedback.reply]);
+
+  const hasLearnerTurns = (list: ConversationTurn[]) => list.some(turn => turn.speaker === ConversationSpeaker.Learner);
+
+  const handleChooseScenario = async (chosen: ConversationScenario) => {
+    setScenario(chosen);
+    setTurns([]);
+    audiosRef.current = [];
+    setParseWarnings([]);
+    setError(null);
+    setIsStarting(true);
+    try {
+      const opening = await generateConversationOpening(chosen, difficulty);
+      setTurns([opening]);
+      setStartedAt(Date.now());
+    } catch (err) {
+      console.error("Failed to start the conversation:", err);
+      setError('会話を始められませんでした。もう一度お試しください。');
+      setScenario(null);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = input.trim();
+    if (!text || !scenario || pending) return;
+
+    const previousTurns = turns;
+    const feedback: Partial<Feedback> = {};
+    setInput('');
+    setParseWarnings([]);
+    setPending({ text, feedback: {} });
+
+    await continueConversationStream(scenario, difficulty, previousTurns, text, {
+      onHeader: (header: FeedbackHeader) => {
+        Object.assign(feedback, header);
+        setPending(prev => prev && { ...prev, feedback: { ...prev.feedback, ...header } });
+      },
+      onExplanationChunk: (chunk: string) => {
+        feedback.explanation = (feedback.explanation ?? '') + chunk;
+        setPending(prev => prev && { ...prev, feedback: { ...prev.feedback, explanation: feedback.explanation } });
+      },
+      onParseWarning: (warning: FeedbackParseWarning) => {
+        setParseWarnings(prev => [...prev, warning]);
+      },
+      onStreamEnd: async () => {
+        const learnerTurn: ConversationTurn = {
+          speaker: ConversationSpeaker.Learner,
+          text,
+          feedback: {
+            score: feedback.score ?? null,
+            evaluation: feedback.evaluation ?? '评价未提供',
+            correctedSentence: feedback.correctedSentence ?? NO_CORRECTION_PLACEHOLDER,
+            explanation: feedback.explanation ?? '',
+            rubric: feedback.rubric,
+            fixes: feedback.fixes,
+            reply: feedback.reply,
+          },
+        };
+        const nextTurns: ConversationTurn[] = feedback.reply
+          ? [...previousTurns, learnerTurn, { speaker: ConversationSpeaker.Partner, text: feedback.reply }]
+          : [...previousTurns, learnerTurn];
+        setTurns(nextTurns);
+        setPending(null);
+        onSessionChange(scenario, startedAt, nextTurns, audiosRef.current);
+      },
+    });
+  };
+
+  const handlePlay = async (index: number) => {
+    if (loadingIndex !== null) return;
+    const text = spokenText(turns[index]);
+    if (!text) return;
+    setLoadingIndex(index);
+    try {
+      let clip = audiosRef.current[index];
+      if (!clip) {
+        clip = await generateSpeech(text);
+        if (!clip) throw new Error("Audio generation returned null.");
+        const nextAudios = [...audiosRef.current];
+        nextAudios[index] = clip;
+        audiosRef.current = nextAudios;
+        if (scenario && hasLearnerTurns(turns)) onSessionChange(scenario, startedAt, turns, nextAudios);
+      }
+      await playAudio(clip);
+    } catch (error) {
+      console.error("Failed to generate or play conversation audio:", error);
+    } finally {
+      setLoadingIndex(null);
+    }
+  };
+
+  if (!scenario || isStarting) {
+    return (
+      <div className="w-full p-6 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in flex flex-col gap-6 text-center">
+        <div>
+          <h2 className="text-2xl font-bold text-white">場面を選んでください</h2>
+          <p className="text-slate-400">Choose a scenario ({difficulty})</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {Object.values(ConversationScenario).map(value => (
+            <button
+              key={value}
+              onClick={() => handleChooseScenario(value)}
+              disabled={isStarting}
+              className="flex flex-col items-center justify-center p-5 bg-slate-700/50 border-2 border-slate-600 rounded-lg text-slate-300 hover:bg-slate-600/50 hover:border-emerald-500 disabled:opacity-50 disabled:cursor-wait transition-all duration-200"
+            >
+              <span className="font-semibold text-white" lang="ja">{conversationScenarioLabels[value].title}</span>
+              <span className="text-sm text-slate-400">{conversationScenarioLabels[value].subtitle}</span>
+            </button>
+          ))}
+        </div>
+        {isStarting && <p className="text-slate-400 animate-pulse">AI is thinking...</p>}
+        {error && <p className="text-red-300">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full p-6 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="font-semibold text-white" lang="ja">{conversationScenarioLabels[scenario].title}</p>
+          <p className="text-sm text-slate-400">{conversationScenarioLabels[scenario].subtitle} · {difficulty}</p>
+        </div>
+        <button
+          onClick={() => setScenario(null)}
+          disabled={!!pending}
+          className="text-sm text-slate-400 hover:text-emerald-300 transition-colors disabled:opacity-50"
+        >
+          場面を変える (New Scenario)
+        </button>
+      </div>
+
+      <div className="max-h-[55vh] overflow-y-auto pr-1">
+        <ConversationTranscript turns={turns} onPlay={handlePlay} loadingIndex={loadingIndex} pending={pending} />
+        <div ref={bottomRef} />
+      </div>
+
+      {parseWarnings.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-900/30 border border-yellow-500/40 text-yellow-200 text-sm space-y-1" role="status">
+          {parseWarnings.map(warning => <p key={warning}>{parseWarningMessages[warning]}</p>)}
+        </div>
+      )}
+
+      <form onSubmit={handleSend} className="flex gap-2 items-end">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="日本語で返事をしてください..."
+          aria-label="Your reply"
+          rows={2}
+          disabled={!!pending}
+          className="flex-1 p-3 bg-slate-900 border-2 border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-colors resize-none disabled:opacity-60"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || !!pending}
+          className="px-6 py-3 bg-gradient-to-r from-blue-500 to-teal-400 text-white font-bold rounded-full shadow-lg disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed"
+        >
+          送信 (Send)
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ConversationScreen;
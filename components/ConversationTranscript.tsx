@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ConversationSpeaker, ConversationTurn, Feedback } from '../types';
+import { SpeakerWaveIcon } from './icons/SpeakerWaveIcon';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import MarkdownRenderer from './MarkdownRenderer';
+import RubricBreakdown from './RubricBreakdown';
+import SentenceDiff from './SentenceDiff';
+import { NO_CORRECTION_PLACEHOLDER } from '../services/feedbackStreamParser';
+
+interface ConversationTranscriptProps {
+  turns: ConversationTurn[];
+  onPlay: (turnIndex: number) => void;
+  loadingIndex: number | null;
+  // The learner's line still being evaluated.
+  pending?: { text: string; feedback: Partial<Feedback> } | null;
+}
+
+// What a line's play button reads: the partner's line, or the corrected version of the learner's.
+export const spokenText = (turn: ConversationTurn): string | null => {
+  if (turn.speaker === ConversationSpeaker.Partner) return turn.text;
+  const corrected = turn.feedback.correctedSentence;
+  return corrected && corrected !== NO_CORRECTION_PLACEHOLDER ? corrected : null;
+};
+
+const getScoreClasses = (score: number | null | undefined) => {
+  if (typeof score !== 'number') return 'bg-slate-500/20 text-slate-300 border-slate-500/30';
+  if (score >= 80) return 'bg-green-500/20 text-green-300 border-green-500/30';
+  if (score >= 50) return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
+  return 'bg-red-500/20 text-red-300 border-red-500/30';
+};
+
+const PlayButton: React.FC<{ label: string; isLoading: boolean; onClick: () => void }> = ({ label, isLoading, onClick }) => (
+  <button
+    onClick={onClick}
+    disabled={isLoading}
+    className="p-1 rounded-full text-slate-400 hover:bg-slate-600 hover:text-white transition-colors disabled:cursor-wait shrink-0"
+    aria-label={label}
+  >
+    {isLoading
+      ? <div className="w-4 h-4 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div>
+      : <SpeakerWaveIcon className="w-4 h-4" />
+    }
+  </button>
+);
+
+const LearnerBubble: React.FC<{
+  text: string;
+  feedback: Partial<Feedback>;
+  isStreaming?: boolean;
+  onPlay?: () => void;
+  isAudioLoading?: boolean;
+}> = ({ text, feedback, isStreaming = false, onPlay, isAudioLoading = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const hasCorrection = !!feedback.correctedSentence && feedback.correctedSentence !== NO_CORRECTION_PLACEHOLDER;
+
+  return (
+    <div className="self-end max-w-[85%] flex flex-col items-end gap-1">
+      <div className="px-4 py-2 rounded-2xl rounded-br-sm bg-blue-600/40 border border-blue-500/40 text-white" lang="ja">{text}</div>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 text-sm text-slate-400 hover:text-white transition-colors"
+      >
+        {feedback.score !== undefined ? (
+          <span className={`px-2 rounded border font-bold ${getScoreClasses(feedback.score)}`}>{feedback.score ?? '—'}</span>
+        ) : (
+          <span className="w-8 h-5 bg-slate-700 rounded animate-pulse"></span>
+        )}
+        {feedback.evaluation && <span>{feedback.evaluation}</span>}
+        <span>添削 (Correction)</span>
+        <ChevronDownIcon className={`w-4 h-4 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="w-full p-3 rounded-lg bg-slate-900/60 border border-slate-700 space-y-3 text-left animate-fade-in">
+          {hasCorrection && (
+            <div>
+              <div className="flex items-center justify-between gap-2">
+                <strong className="text-slate-400 text-sm">修正・自然な言い方:</strong>
+                {onPlay && <PlayButton label="Play corrected line" isLoading={isAudioLoading} onClick={onPlay} />}
+              </div>
+              <p className="text-white" lang="ja">{feedback.correctedSentence}</p>
+              <div className="mt-2">
+                <SentenceDiff userSentence={text} correctedSentence={feedback.correctedSentence} fixes={feedback.fixes} />
+              </div>
+            </div>
+          )}
+          {feedback.rubric && <RubricBreakdown rubric={feedback.rubric} />}
+          <div className="text-slate-200 text-sm">
+            <MarkdownRenderer markdown={feedback.explanation || ''} />
+            {isStreaming && <span className="blinking-cursor"></span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ConversationTranscript: React.FC<ConversationTranscriptProps> = ({ turns, onPlay, loadingIndex, pending }) => (
+  <div className="flex flex-col gap-4" aria-live="polite">
+    {turns.map((turn, index) => turn.speaker === ConversationSpeaker.Partner ? (
+      <div key={index} className="self-start max-w-[85%]">
+        <div className="flex items-start gap-2 px-4 py-2 rounded-2xl rounded-bl-sm bg-slate-700/70 border border-slate-600 text-white">
+          <span lang="ja">{turn.text}</span>
+          <PlayButton label={`Play line ${index + 1}`} isLoading={loadingIndex === index} onClick={() => onPlay(index)} />
+        </div>
+        {turn.translation && <p className="text-xs text-slate-400 mt-1 px-2">{turn.translation}</p>}
+      </div>
+    ) : (
+      <LearnerBubble
+        key={index}
+        text={turn.text}
+        feedback={turn.feedback}
+        onPlay={() => onPlay(index)}
+        isAudioLoading={loadingIndex === index}
+      />
+    )).concat(pending ? [
+      // Keyed like the turn it becomes, so an opened correction stays open when the stream ends.
+      <LearnerBubble key={turns.length} text={pending.text} feedback={pending.feedback} isStreaming />,
+      // The reply comes with the correction headers, before the explanation has finished streaming.
+      pending.feedback.reply ? (
+        <div key="reply" className="self-start max-w-[85%] px-4 py-2 rounded-2xl rounded-bl-sm bg-slate-700/70 border border-slate-600 text-white" lang="ja">{pending.feedback.reply}</div>
+      ) : (
+        <div key="reply" className="self-start px-4 py-2 rounded-2xl rounded-bl-sm bg-slate-700/70 border border-slate-600 text-slate-400 animate-pulse" aria-label="Partner is typing">…</div>
+      ),
+    ] : [])}
+  </div>
+);
+
+export default ConversationTranscript;
@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { DictationTask } from '../types';
+import { InformationCircleIcon } from './icons/InformationCircleIcon';
+import { SpeakerWaveIcon } from './icons/SpeakerWaveIcon';
+import { generateSpeech } from '../services/geminiService';
+import { playAudio, stopAudio } from '../services/audioPlaybackService';
+import { gradeDictation, DictationGrade } from '../services/dictationService';
+import SentenceDiff from './SentenceDiff';
+import FuriganaSentence from './FuriganaSentence';
+
+interface DictationScreenProps {
+  task: DictationTask;
+  onNext: () => void;
+  onComplete: (transcript: string, grade: DictationGrade, audioBase64: string | null) => void;
+}
+
+const SLOW_PLAYBACK_RATE = 0.75;
+
+const getAccuracyColorClasses = (accuracy: number) => {
+  if (accuracy >= 80) return 'bg-green-500/20 text-green-300 border-green-500/30';
+  if (accuracy >= 50) return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
+  return 'bg-red-500/20 text-red-300 border-red-500/30';
+};
+
+const DictationScreen: React.FC<DictationScreenProps> = ({ task, onNext, onComplete }) => {
+  const [transcript, setTranscript] = useState('');
+  const [grade, setGrade] = useState<DictationGrade | null>(null);
+  const [audioBase64, setAudioBase64] = useState<string | null>(null);
+  const [isAudioLoading, setIsAudioLoading] = useState(true);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playCount, setPlayCount] = useState(0);
+
+  useEffect(() => stopAudio, []);
+
+  const loadAudio = useCallback(async () => {
+    setIsAudioLoading(true);
+    const audio = await generateSpeech(task.japaneseSentence);
+    setAudioBase64(audio);
+    setIsAudioLoading(false);
+  }, [task.japaneseSentence]);
+
+  useEffect(() => {
+    loadAudio();
+  }, [loadAudio]);
+
+  const handlePlay = async (playbackRate: number) => {
+    if (!audioBase64 || isPlaying) return;
+    setIsPlaying(true);
+    setPlayCount(prev => prev + 1);
+    try {
+      await playAudio(audioBase64, playbackRate);
+    } catch (error) {
+      console.error("Failed to play dictation audio:", error);
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  const handleCheck = (answer: string) => {
+    const result = gradeDictation(task.segments, answer);
+    setTranscript(answer);
+    setGrade(result);
+    onComplete(answer, result, audioBase64);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (transcript.trim()) {
+      handleCheck(transcript.trim());
+    }
+  };
+
+  const playButtonClass = "flex items-center gap-2 px-5 py-3 font-semibold rounded-full border-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="w-full p-6 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in flex flex-col gap-6">
+      <div className="text-center">
+        <p className="text-lg text-slate-400">Listen and write down what you hear:</p>
+        <div className="my-4 p-4 bg-slate-900/50 rounded-lg flex flex-col items-center gap-3">
+          {isAudioLoading ? (
+            <div className="flex items-center gap-3 text-slate-400">
+              <div className="w-6 h-6 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div>
+              音声を準備中...
+            </div>
+          ) : audioBase64 ? (
+            <div className="flex justify-center gap-3 flex-wrap">
+              <button
+                onClick={() => handlePlay(1)}
+                disabled={isPlaying}
+                className={`${playButtonClass} bg-blue-600/80 border-blue-500 text-white hover:bg-blue-500`}
+              >
+                <SpeakerWaveIcon className="w-6 h-6" />
+                {playCount === 0 ? '再生 (Play)' : 'もう一度 (Replay)'}
+              </button>
+              <button
+                onClick={() => handlePlay(SLOW_PLAYBACK_RATE)}
+                disabled={isPlaying}
+                className={`${playButtonClass} bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-600/50`}
+              >
+                ゆっくり ({SLOW_PLAYBACK_RATE}×)
+              </button>
+            </div>
+          ) : (
+            <div className="text-slate-400">
+              音声を生成できませんでした。
+              <button onClick={loadAudio} className="ml-2 text-teal-300 hover:text-teal-200 underline">Retry</button>
+            </div>
+          )}
+          {playCount > 0 && <p className="text-xs text-slate-500">再生回数: {playCount}</p>}
+        </div>
+      </div>
+
+      {grade === null ? (
+        <form onSubmit={handleSubmit}>
+          <textarea
+            value={transcript}
+            onChange={(e) => setTranscript(e.target.value)}
+            placeholder="聞こえた文を入力してください..."
+            rows={3}
+            aria-label="Dictation answer"
+            className="w-full p-4 bg-slate-900 border-2 border-slate-600 rounded-lg text-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-colors"
+          />
+          <p className="text-xs text-slate-500 mt-1">漢字・ひらがな・カタカナのどれで書いても大丈夫です。句読点は採点しません。</p>
+          <div className="text-center mt-2">
+            <button
+              type="button"
+              onClick={() => handleCheck('')}
+              className="text-sm text-slate-400 hover:text-teal-300 transition-colors py-1"
+            >
+              不确定？点击查看答案
+            </button>
+          </div>
+          <button
+            type="submit"
+            disabled={!transcript.trim()}
+            className="w-full mt-2 px-8 py-3 bg-gradient-to-r from-blue-500 to-teal-400 text-white font-bold rounded-full hover:scale-105 transform transition-transform duration-300 focus:outline-none focus:ring-4 focus:ring-teal-300/50 shadow-lg disabled:bg-gray-600 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:scale-100"
+          >
+            Check Dictation
+          </button>
+        </form>
+      ) : (
+        <>
+          <div className="p-4 bg-slate-900/40 border border-slate-700 rounded-lg animate-fade-in space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-white">正解率 (Accuracy)</h3>
+              <div className={`px-3 py-1 rounded-md border font-bold ${getAccuracyColorClasses(grade.accuracy)}`}>{grade.accuracy}%</div>
+            </div>
+            <div>
+              <p className="text-sm text-slate-400 mb-1">原文 (Sentence):</p>
+              <FuriganaSentence segments={task.segments} className="text-2xl text-white leading-loose" />
+              <p className="text-slate-400 mt-1">{task.chineseTranslation}</p>
+            </div>
+            <div>
+              <p className="text-sm text-slate-400 mb-1">差分 (Changes):</p>
+              <SentenceDiff spans={grade.spans} />
+            </div>
+          </div>
+          {task.grammarPoint && (
+            <div className="p-4 bg-slate-900/40 border border-slate-700 rounded-lg animate-fade-in">
+              <div className="flex items-start gap-3">
+                <InformationCircleIcon className="w-6 h-6 text-purple-400 mt-0.5 shrink-0" />
+                <div>
+                  <p className="text-sm text-purple-300 font-semibold">文法フォーカス (Grammar Focus)</p>
+                  <p className="text-lg font-bold text-white mt-1">{task.grammarPoint.grammar_point}</p>
+                  <p className="text-slate-400 text-sm">{task.grammarPoint.meaning_cn}</p>
+                </div>
+              </div>
+            </div>
+          )}
+          <button
+            onClick={onNext}
+            className="w-full px-8 py-3 bg-gradient-to-r from-blue-500 to-teal-400 text-white font-bold rounded-full hover:scale-105 transform transition-transform duration-300 focus:outline-none focus:ring-4 focus:ring-teal-300/50 shadow-lg"
+          >
+            次の問題 (Next Question)
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DictationScreen;
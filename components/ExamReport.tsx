@@ -0,0 +1,125 @@
+import React from 'react';
+import { ExamHistoryItem, ExamQuestion, GameMode, GrammarPoint } from '../types';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
+import { XCircleIcon } from './icons/XCircleIcon';
+import MarkdownRenderer from './MarkdownRenderer';
+import { examSectionLabel, formatCountdown, summarizeExam } from '../services/examService';
+
+interface ExamReportProps {
+  exam: ExamHistoryItem;
+}
+
+const GrammarNote: React.FC<{ grammarPoint?: GrammarPoint }> = ({ grammarPoint }) => grammarPoint ? (
+  <div className="text-sm">
+    <p className="text-purple-300"><strong>文法:</strong> {grammarPoint.grammar_point} — {grammarPoint.meaning_cn}</p>
+    {grammarPoint.usage && <p className="text-slate-400">{grammarPoint.usage}</p>}
+  </div>
+) : null;
+
+const AnswerLine: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <p className="text-slate-300"><span className="text-slate-400">{label}:</span> {children}</p>
+);
+
+const NO_ANSWER = '(未回答)';
+
+const QuestionReview: React.FC<{ question: ExamQuestion }> = ({ question }) => {
+  switch (question.gameMode) {
+    case GameMode.MultipleChoice: {
+      const { task, userChoiceIndex } = question;
+      return (
+        <>
+          <p className="text-lg text-white">{task.chineseSentence}</p>
+          <AnswerLine label="あなたの答え">{userChoiceIndex === -1 ? NO_ANSWER : task.options[userChoiceIndex]}</AnswerLine>
+          <AnswerLine label="正解">{task.options[task.correctOptionIndex]}</AnswerLine>
+          <div className="text-slate-200 text-sm"><MarkdownRenderer markdown={task.explanation} /></div>
+          <GrammarNote grammarPoint={task.grammarPoint} />
+        </>
+      );
+    }
+    case GameMode.Cloze: {
+      const { task, userAnswer } = question;
+      const spellings = [...new Set([task.answer, task.reading, ...task.alternatives].filter(Boolean))];
+      return (
+        <>
+          <p className="text-lg text-white" lang="ja">
+            {task.before}<span className="mx-0.5 px-1 rounded bg-teal-500/20 text-teal-200">{task.answer}</span>{task.after}
+          </p>
+          <p className="text-slate-400 text-sm">{task.chineseTranslation}</p>
+          <AnswerLine label="あなたの答え">{userAnswer.trim() || NO_ANSWER}</AnswerLine>
+          <AnswerLine label="正解">{spellings.join(' / ')}</AnswerLine>
+          <GrammarNote grammarPoint={task.grammarPoint} />
+        </>
+      );
+    }
+    case GameMode.Reorder: {
+      const { task, userChoiceIndex } = question;
+      return (
+        <>
+          <p className="text-lg text-white" lang="ja">
+            {task.before}
+            {task.chunks.map((chunk, slot) => (
+              <span key={slot} className={slot === task.starIndex ? 'text-amber-300 underline underline-offset-4' : ''}>{chunk}</span>
+            ))}
+            {task.after}
+          </p>
+          <p className="text-slate-400 text-sm">{task.chineseTranslation}</p>
+          <AnswerLine label="あなたの答え">{userChoiceIndex === -1 ? NO_ANSWER : task.chunks[userChoiceIndex]}</AnswerLine>
+          <AnswerLine label="正解 (★)">{task.chunks[task.starIndex]}</AnswerLine>
+          <GrammarNote grammarPoint={task.grammarPoint} />
+        </>
+      );
+    }
+  }
+};
+
+const ExamReport: React.FC<ExamReportProps> = ({ exam }) => {
+  const summary = summarizeExam(exam.questions);
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <p className="text-slate-400">模擬試験 {exam.difficulty}</p>
+        <p className="text-6xl font-bold text-white my-2">{summary.score}<span className="text-2xl text-slate-400">/100</span></p>
+        <p className="text-slate-300">{summary.correct} / {summary.total} 正解</p>
+        <p className="text-sm text-slate-400 mt-1">
+          所要時間 {formatCountdown(exam.timeUsedSeconds)} / {formatCountdown(exam.timeLimitSeconds)}
+          {exam.timedOut && <span className="ml-2 px-2 py-0.5 rounded border border-red-500/40 bg-red-500/20 text-red-300">時間切れ (Time's up)</span>}
+        </p>
+      </div>
+
+      <div className="space-y-3" aria-label="Sections">
+        {summary.sections.map(section => {
+          const percent = Math.round((section.correct / section.total) * 100);
+          return (
+            <div key={section.gameMode}>
+              <div className="flex justify-between text-sm text-slate-300 mb-1">
+                <span>{examSectionLabel(section.gameMode)}</span>
+                <span>{section.correct} / {section.total}</span>
+              </div>
+              <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+                <div className="h-full bg-gradient-to-r from-blue-500 to-teal-400" style={{ width: `${percent}%` }} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <ol className="space-y-3">
+        {exam.questions.map((question, index) => (
+          <li key={index} className="p-4 bg-slate-900/40 border border-slate-700 rounded-lg space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-slate-400">問題 {index + 1} · {examSectionLabel(question.gameMode)}</span>
+              {question.isCorrect
+                ? <CheckCircleIcon className="w-6 h-6 text-green-400" aria-label="Correct" />
+                : <XCircleIcon className="w-6 h-6 text-red-400" aria-label="Incorrect" />
+              }
+            </div>
+            <QuestionReview question={question} />
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default ExamReport;
@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ClozeTask, Difficulty, ExamQuestion, GameMode, MultipleChoiceTask, ReorderTask } from '../types';
+import { ClockIcon } from './icons/ClockIcon';
+import { examSectionLabel, formatCountdown, isExamQuestionAnswered } from '../services/examService';
+import { shuffleChunks } from '../services/reorderService';
+
+interface ExamScreenProps {
+  questions: ExamQuestion[];
+  difficulty: Difficulty;
+  timeLimitSeconds: number;
+  // Called once, with the answers as given (not yet graded).
+  onFinish: (questions: ExamQuestion[], timeUsedSeconds: number, timedOut: boolean) => void;
+}
+
+const optionClass = (isSelected: boolean) =>
+  `w-full flex items-center gap-3 p-4 rounded-lg border-2 text-left text-lg transition-colors ${isSelected ? 'bg-blue-800/50 border-blue-400 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-600/50 hover:border-blue-500'}`;
+
+const McqExamQuestion: React.FC<{ task: MultipleChoiceTask; choice: number; onChoose: (index: number) => void }> = ({ task, choice, onChoose }) => (
+  <div className="space-y-4">
+    <p className="text-slate-400 text-center">Choose the most natural translation:</p>
+    <div className="p-4 bg-slate-900/50 rounded-lg text-center">
+      <h3 className="text-2xl font-bold text-white tracking-wider">{task.chineseSentence}</h3>
+    </div>
+    <div className="space-y-3" role="radiogroup" aria-label="Options">
+      {task.options.map((option, index) => (
+        <button key={index} role="radio" aria-checked={choice === index} onClick={() => onChoose(index)} className={optionClass(choice === index)} lang="ja">
+          <span className="text-slate-400 font-mono">{index + 1}</span>
+          <span>{option}</span>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const ClozeExamQuestion: React.FC<{ task: ClozeTask; answer: string; onAnswer: (answer: string) => void }> = ({ task, answer, onAnswer }) => (
+  <div className="space-y-4">
+    <p className="text-slate-400 text-center">Fill in the blank:</p>
+    <div className="p-4 bg-slate-900/50 rounded-lg text-center">
+      <p className="text-2xl font-bold text-white leading-relaxed" lang="ja">
+        {task.before}
+        <span className="inline-block min-w-[4rem] mx-1 border-b-2 border-teal-400" aria-label="blank">&nbsp;</span>
+        {task.after}
+      </p>
+      <p className="text-slate-400 mt-2">{task.chineseTranslation}</p>
+    </div>
+    <input
+      type="text"
+      value={answer}
+      onChange={(e) => onAnswer(e.target.value)}
+      placeholder="空欄に入る表現を入力してください..."
+      aria-label="Cloze answer"
+      className="w-full p-4 bg-slate-900 border-2 border-slate-600 rounded-lg text-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-colors"
+    />
+  </div>
+);
+
+const ReorderExamQuestion: React.FC<{ task: ReorderTask; order: number[]; choice: number; onChoose: (index: number) => void }> = ({ task, order, choice, onChoose }) => (
+  <div className="space-y-4">
+    <p className="text-slate-400 text-center">★に入るものはどれですか。</p>
+    <div className="p-4 bg-slate-900/50 rounded-lg text-center">
+      <p className="text-2xl text-white leading-loose" lang="ja">
+        {task.before}
+        {task.chunks.map((_, slot) => (
+          <span key={slot} className={`inline-block min-w-[3.5rem] mx-1 border-b-2 ${slot === task.starIndex ? 'border-amber-300 text-amber-300' : 'border-slate-500'}`}>
+            {slot === task.starIndex ? '★' : ' '}
+          </span>
+        ))}
+        {task.after}
+      </p>
+      <p className="text-slate-400 mt-2">{task.chineseTranslation}</p>
+    </div>
+    <div className="grid grid-cols-2 gap-3" role="radiogroup" aria-label="Options">
+      {order.map((chunkIndex, position) => (
+        <button key={chunkIndex} role="radio" aria-checked={choice === chunkIndex} onClick={() => onChoose(chunkIndex)} className={optionClass(choice === chunkIndex)} lang="ja">
+          <span className="text-slate-400 font-mono">{position + 1}</span>
+          <span>{task.chunks[chunkIndex]}</span>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const ExamScreen: React.FC<ExamScreenProps> = ({ questions: initialQuestions, difficulty, timeLimitSeconds, onFinish }) => {
+  const [questions, setQuestions] = useState<ExamQuestion[]>(initialQuestions);
+  const [current, setCurrent] = useState(0);
+  // Reorder options are shuffled once, so they don't jump around when revisiting a question.
+  const [chunkOrders] = useState(() => initialQuestions.map(question =>
+    question.gameMode === GameMode.Reorder ? shuffleChunks(question.task.chunks) : []
+  ));
+  const [startedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(startedAt);
+  const finishedRef = useRef(false);
+
+  const remainingSeconds = timeLimitSeconds - (now - startedAt) / 1000;
+
+  const finish = useCallback((timedOut: boolean) => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    const timeUsedSeconds = Math.min(timeLimitSeconds, Math.round((Date.now() - startedAt) / 1000));
+    onFinish(questions, timeUsedSeconds, timedOut);
+  }, [questions, startedAt, timeLimitSeconds, onFinish]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Time's up: hand in whatever has been answered.
+  useEffect(() => {
+    if (remainingSeconds <= 0) finish(true);
+  }, [remainingSeconds, finish]);
+
+  const updateQuestion = (update: (question: ExamQuestion) => ExamQuestion) => {
+    setQuestions(prev => prev.map((question, i) => (i === current ? update(question) : question)));
+  };
+
+  const chooseOption = (index: number) => {
+    updateQuestion(question => (question.gameMode === GameMode.Cloze ? question : { ...question, userChoiceIndex: index }));
+  };
+
+  const handleSubmit = () => {
+    const unanswered = questions.filter(question => !isExamQuestionAnswered(question)).length;
+    if (unanswered > 0 && !window.confirm(`未回答の問題が${unanswered}問あります。提出しますか？\n${unanswered} question(s) unanswered. Submit anyway?`)) {
+      return;
+    }
+    finish(false);
+  };
+
+  const question = questions[current];
+  const isLast = current === questions.length - 1;
+
+  return (
+    <div className="w-full p-6 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm text-slate-400">模擬試験 {difficulty}</p>
+          <p className="font-semibold text-teal-300">{examSectionLabel(question.gameMode)}</p>
+        </div>
+        <div
+          role="timer"
+          aria-label="Time remaining"
+          className={`flex items-center gap-2 px-3 py-1.5 rounded-full border font-mono text-lg ${remainingSeconds <= 60 ? 'border-red-500/60 text-red-300 animate-pulse' : 'border-slate-600 text-slate-200'}`}
+        >
+          <ClockIcon className="w-5 h-5" />
+          {formatCountdown(remainingSeconds)}
+        </div>
+      </div>
+
+      <nav className="flex flex-wrap justify-center gap-2" aria-label="Questions">
+        {questions.map((q, i) => (
+          <button
+            key={i}
+            onClick={() => setCurrent(i)}
+            aria-label={`Question ${i + 1}`}
+            aria-current={i === current ? 'step' : undefined}
+            className={`w-9 h-9 rounded-full border-2 text-sm font-semibold transition-colors ${i === current ? 'border-teal-400 text-white' : 'border-slate-600 text-slate-400 hover:border-slate-400'} ${isExamQuestionAnswered(q) ? 'bg-slate-600' : 'bg-slate-800'}`}
+          >
+            {i + 1}
+          </button>
+        ))}
+      </nav>
+
+      <div>
+        <p className="text-sm text-slate-500 mb-3">問題 {current + 1} / {questions.length}</p>
+        {question.gameMode === GameMode.MultipleChoice && (
+          <McqExamQuestion task={question.task} choice={question.userChoiceIndex} onChoose={chooseOption} />
+        )}
+        {question.gameMode === GameMode.Cloze && (
+          <ClozeExamQuestion
+            task={question.task}
+            answer={question.userAnswer}
+            onAnswer={(answer) => updateQuestion(q => (q.gameMode === GameMode.Cloze ? { ...q, userAnswer: answer } : q))}
+          />
+        )}
+        {question.gameMode === GameMode.Reorder && (
+          <ReorderExamQuestion task={question.task} order={chunkOrders[current]} choice={question.userChoiceIndex} onChoose={chooseOption} />
+        )}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => setCurrent(i => i - 1)}
+          disabled={current === 0}
+          className="flex-1 px-6 py-3 rounded-full border-2 border-slate-600 text-slate-300 font-semibold hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          前へ (Previous)
+        </button>
+        <button
+          onClick={() => setCurrent(i => i + 1)}
+          disabled={isLast}
+          className="flex-1 px-6 py-3 rounded-full border-2 border-slate-600 text-slate-300 font-semibold hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          次へ (Next)
+        </button>
+      </div>
+      <button
+        onClick={handleSubmit}
+        className="w-full px-8 py-3 bg-gradient-to-r from-blue-500 to-teal-400 text-white font-bold rounded-full hover:scale-105 transform transition-transform duration-300 focus:outline-none focus:ring-4 focus:ring-teal-300/50 shadow-lg"
+      >
+        提出する (Submit Exam)
+      </button>
+    </div>
+  );
+};
+
+export default ExamScreen;
@@ -1,16 +1,33 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { SentenceTask, Feedback } from '../types';
+import { SentenceTask, ReverseTranslationTask, Feedback, FeedbackHeader, FeedbackParseWarning, FollowUpMessage } from '../types';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { LightBulbIcon } from './icons/LightBulbIcon';
 import MarkdownRenderer from './MarkdownRenderer';
-import { evaluateSentenceStream, evaluateJapaneseSentenceStream, generateSpeech, decode, decodeAudioData } from '../services/geminiService';
+import { evaluateSentenceStream, evaluateJapaneseSentenceStream, evaluateReverseTranslationStream, evaluateParagraph, generateSpeech, decodeAudioData } from '../services/geminiService';
+import { decode } from '../services/base64';
 import { SpeakerWaveIcon } from './icons/SpeakerWaveIcon';
+import RubricBreakdown from './RubricBreakdown';
+import SentenceDiff from './SentenceDiff';
+import NuanceBadge from './NuanceBadge';
+import ParagraphBreakdown from './ParagraphBreakdown';
+import FollowUpPanel from './FollowUpPanel';
+import AlternativeTranslations from './AlternativeTranslations';
+import { NO_CORRECTION_PLACEHOLDER } from '../services/feedbackStreamParser';
+import { applyHintPenalty, hintPenalty } from '../services/hintService';
 
 interface FeedbackDisplayProps {
   task?: SentenceTask;
+  // Japanese → Chinese: the answer is Chinese and the audio reads the Japanese source.
+  reverseTask?: ReverseTranslationTask;
   userSentence: string;
+  // Check the answer sentence by sentence, with an overall coherence comment.
+  paragraph?: boolean;
+  // Hint stages revealed before answering; the shown score has their penalty taken off.
+  hintsUsed?: number;
   onNext: () => void;
   onComplete: (feedback: Feedback, audioBase64: string | null) => void;
+  // Offers follow-up questions once the feedback is saved, and reports the thread after each answer.
+  onFollowUp?: (thread: FollowUpMessage[]) => void;
   onNextLabel?: string;
 }
 
@@ -21,12 +38,27 @@ const getScoreColors = (score: number) => {
 };
 
 
-const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, onNext, onComplete, onNextLabel }) => {
+export const parseWarningMessages: Record<FeedbackParseWarning, string> = {
+    [FeedbackParseWarning.MissingScore]: 'AI 没有给出分数。',
+    [FeedbackParseWarning.MissingEvaluation]: 'AI 没有给出评价。',
+    [FeedbackParseWarning.MissingCorrection]: 'AI 没有给出修正句。',
+    [FeedbackParseWarning.MissingRubric]: 'AI 没有给出分项评分。',
+    [FeedbackParseWarning.MissingNuance]: 'AI 没有判断语法语感是否理解。',
+    [FeedbackParseWarning.MissingReply]: '对方没有回应，可以继续说下去。',
+    [FeedbackParseWarning.MissingAlternatives]: 'AI 没有给出其他说法。',
+    [FeedbackParseWarning.MissingSeparator]: 'AI 回复格式不完整，讲解可能不准确。',
+    [FeedbackParseWarning.Unparseable]: '无法解析 AI 的回复，以下为原始内容。',
+};
+
+const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, reverseTask, userSentence, paragraph = false, hintsUsed = 0, onNext, onComplete, onFollowUp, onNextLabel }) => {
   const [feedback, setFeedback] = useState<Partial<Feedback>>({ explanation: '', score: undefined, evaluation: '' });
   const [isStreaming, setIsStreaming] = useState(true);
   const [isAudioLoading, setIsAudioLoading] = useState(false);
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [cachedAudio, setCachedAudio] = useState<string | null>(null);
+  const [parseWarnings, setParseWarnings] = useState<FeedbackParseWarning[]>([]);
+  const [isComplete, setIsComplete] = useState(false);
+  const [followUps, setFollowUps] = useState<FollowUpMessage[]>([]);
 
   // Use a ref to hold the final data to avoid race conditions with state updates
   const feedbackRef = useRef<Partial<Feedback>>({ explanation: '', score: undefined, evaluation: '' });
@@ -43,7 +75,7 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, o
   }, []);
 
   useEffect(() => {
-    if (!userSentence && !task) return;
+    if (!userSentence && !task && !reverseTask) return;
 
     feedbackRef.current = { explanation: '', score: undefined, evaluation: '' }; // Reset ref
 
@@ -51,15 +83,19 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, o
       setIsStreaming(true);
       setFeedback({ explanation: '', score: undefined, evaluation: '' }); 
       setCachedAudio(null);
+      setParseWarnings([]);
+      setIsComplete(false);
+      setFollowUps([]);
 
        const handleStreamEnd = async () => {
         setIsStreaming(false);
 
         let audio: string | null = null;
-        if (feedbackRef.current.correctedSentence) {
+        const spokenSentence = reverseTask ? reverseTask.japaneseSentence : feedbackRef.current.correctedSentence;
+        if (spokenSentence) {
             setIsAudioLoading(true);
             try {
-              audio = await generateSpeech(feedbackRef.current.correctedSentence);
+              audio = await generateSpeech(spokenSentence);
             } catch (e) {
               console.error("Audio generation failed:", e);
               audio = null;
@@ -69,16 +105,27 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, o
         }
 
         onComplete({
-            score: feedbackRef.current.score ?? 0,
+            score: feedbackRef.current.score ?? null,
             evaluation: feedbackRef.current.evaluation ?? '评价未提供',
-            correctedSentence: feedbackRef.current.correctedSentence ?? '(AI did not provide a correction.)',
-            explanation: feedbackRef.current.explanation ?? ''
+            correctedSentence: feedbackRef.current.correctedSentence ?? NO_CORRECTION_PLACEHOLDER,
+            explanation: feedbackRef.current.explanation ?? '',
+            rubric: feedbackRef.current.rubric,
+            fixes: feedbackRef.current.fixes,
+            nuance: feedbackRef.current.nuance,
+            sentences: feedbackRef.current.sentences,
+            alternatives: feedbackRef.current.alternatives,
+            matchedRegister: feedbackRef.current.matchedRegister,
         }, audio);
+        setIsComplete(true);
+      };
+
+      const handleHeader = (header: FeedbackHeader) => {
+        setFeedback(prev => ({ ...prev, ...header }));
+        Object.assign(feedbackRef.current, header);
       };
 
-      const handleStructuredData = (structuredData: { score: number; evaluation: string; correctedSentence: string; }) => {
-        setFeedback(prev => ({ ...prev, ...structuredData }));
-        Object.assign(feedbackRef.current, structuredData);
+      const handleParseWarning = (warning: FeedbackParseWarning) => {
+        setParseWarnings(prev => [...prev, warning]);
       };
       
       const handleExplanationChunk = (explanationChunk: string) => {
@@ -90,22 +137,25 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, o
       };
 
 
+      const handlers = {
+        onHeader: handleHeader,
+        onExplanationChunk: handleExplanationChunk,
+        onParseWarning: handleParseWarning,
+        onStreamEnd: handleStreamEnd,
+      };
+
       try {
-        if (task) {
-           await evaluateSentenceStream(
-            task,
-            userSentence,
-            handleStructuredData,
-            handleExplanationChunk,
-            handleStreamEnd
-          );
+        if (reverseTask) {
+           await evaluateReverseTranslationStream(reverseTask, userSentence, handlers);
+        } else if (paragraph) {
+           const { explanation, ...header } = await evaluateParagraph(userSentence, task);
+           handleHeader(header);
+           handleExplanationChunk(explanation);
+           await handleStreamEnd();
+        } else if (task) {
+           await evaluateSentenceStream(task, userSentence, handlers);
         } else {
-           await evaluateJapaneseSentenceStream(
-            userSentence,
-            handleStructuredData,
-            handleExplanationChunk,
-            handleStreamEnd
-          );
+           await evaluateJapaneseSentenceStream(userSentence, handlers);
         }
       } catch (error) {
         console.error("Failed to stream feedback:", error);
@@ -116,7 +166,7 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, o
         setIsStreaming(false);
         // Call onComplete even on error, but with null audio
         onComplete({
-            score: 0,
+            score: null,
             evaluation: 'Error',
             correctedSentence: '(Error)',
             explanation: '抱歉，分析时出现错误，请重试。'
@@ -126,7 +176,7 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, o
 
     streamEvaluation();
     
-  }, [task, userSentence, onComplete]);
+  }, [task, reverseTask, userSentence, paragraph, onComplete]);
 
   const handlePlayAudio = async () => {
     if (isAudioLoading || !audioContext || !cachedAudio) return;
@@ -146,24 +196,58 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, o
     }
   };
 
-  const scoreColors = feedback.score !== undefined ? getScoreColors(feedback.score) : getScoreColors(0);
+  const playButton = (
+    <button
+      onClick={handlePlayAudio}
+      disabled={isAudioLoading || !cachedAudio}
+      className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait"
+      aria-label={reverseTask ? 'Play Japanese sentence audio' : 'Play corrected sentence audio'}
+    >
+      {isAudioLoading
+        ? <div className="w-5 h-5 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div>
+        : <SpeakerWaveIcon className="w-5 h-5" />
+      }
+    </button>
+  );
+
+  const shownScore = feedback.score === undefined ? undefined : applyHintPenalty(feedback.score, hintsUsed);
+  const scoreColors = typeof shownScore === 'number' ? getScoreColors(shownScore) : { ring: 'ring-slate-500', text: 'text-slate-400' };
 
   return (
     <div className="w-full p-6 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in space-y-6">
        <div className="flex flex-col items-center justify-center gap-2">
-            {feedback.score !== undefined ? (
+            {shownScore !== undefined ? (
                 <>
                     <div className={`relative w-32 h-32 rounded-full flex items-center justify-center bg-slate-900/50 ring-4 ${scoreColors.ring}`}>
-                        <span className={`text-5xl font-bold ${scoreColors.text}`}>{feedback.score}</span>
+                        <span className={`text-5xl font-bold ${scoreColors.text}`}>{shownScore ?? '—'}</span>
                         <span className="absolute bottom-4 text-slate-400 text-sm">/ 100</span>
                     </div>
+                    {hintsUsed > 0 && typeof feedback.score === 'number' && (
+                        <p className="text-sm text-amber-300">
+                            提示 ×{hintsUsed}：{feedback.score} − {hintPenalty(hintsUsed)}
+                        </p>
+                    )}
                 </>
             ) : (
                 <div className="flex flex-col items-center gap-2">
                     <div className="w-32 h-32 bg-slate-700 rounded-full animate-pulse"></div>
                 </div>
             )}
+            {feedback.nuance && <NuanceBadge nuance={feedback.nuance} />}
+        </div>
+
+      {feedback.rubric && (
+        <div className="p-4 rounded-lg bg-slate-900/30 border border-slate-700 animate-fade-in">
+          <h3 className="text-sm font-semibold text-slate-400 mb-3">分项评分 (Score Breakdown)</h3>
+          <RubricBreakdown rubric={feedback.rubric} />
+        </div>
+      )}
+
+      {parseWarnings.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-900/30 border border-yellow-500/40 text-yellow-200 text-sm space-y-1" role="status">
+          {parseWarnings.map(warning => <p key={warning}>{parseWarningMessages[warning]}</p>)}
         </div>
+      )}
       
       {task && (
         <div>
@@ -172,31 +256,35 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, o
         </div>
       )}
 
+      {reverseTask && (
+        <div>
+          <div className="flex justify-between items-center gap-2 mb-2">
+            <h3 className="text-lg font-semibold text-slate-300">元の文 (日本語):</h3>
+            {playButton}
+          </div>
+          <p className="p-3 bg-slate-900/50 rounded-lg text-slate-200" lang="ja">{reverseTask.japaneseSentence}</p>
+          {reverseTask.grammarPoint && (
+            <p className="text-sm text-slate-400 mt-2">
+              <span className="text-purple-300 font-semibold">{reverseTask.grammarPoint.grammar_point}</span>
+              {' '}— {reverseTask.grammarPoint.meaning_cn}
+            </p>
+          )}
+        </div>
+      )}
+
 
       <div>
-        <h3 className="text-lg font-semibold text-slate-300 mb-2">{task ? 'あなたの翻訳:' : 'Your Sentence:'}</h3>
-        <p className="p-3 bg-slate-900/50 rounded-lg text-slate-200">{userSentence || '(未回答)'}</p>
+        <h3 className="text-lg font-semibold text-slate-300 mb-2">{reverseTask ? 'あなたの翻訳 (中国語):' : task ? 'あなたの翻訳:' : 'Your Sentence:'}</h3>
+        <p className="p-3 bg-slate-900/50 rounded-lg text-slate-200 whitespace-pre-line">{userSentence || '(未回答)'}</p>
       </div>
 
       <div className={`p-4 rounded-lg bg-slate-900/30 border border-slate-600`}>
         <div className="flex justify-between items-center gap-2">
             <h3 className="text-lg font-semibold text-white flex items-center gap-2">
                 <CheckCircleIcon className="w-6 h-6 text-green-400" />
-                修正・自然な翻訳:
+                {reverseTask ? '参考译文 (Reference Translation):' : '修正・自然な翻訳:'}
             </h3>
-            {feedback.correctedSentence && (
-                 <button
-                    onClick={handlePlayAudio}
-                    disabled={isAudioLoading || !cachedAudio}
-                    className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait"
-                    aria-label="Play corrected sentence audio"
-                >
-                    {isAudioLoading 
-                        ? <div className="w-5 h-5 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div> 
-                        : <SpeakerWaveIcon className="w-5 h-5" />
-                    }
-                </button>
-            )}
+            {!reverseTask && feedback.correctedSentence && playButton}
         </div>
         {feedback.correctedSentence ? (
             <p className="text-lg text-white mt-1">{feedback.correctedSentence}</p>
@@ -205,10 +293,31 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, o
         )}
       </div>
 
+      {!reverseTask && !feedback.sentences && userSentence && feedback.correctedSentence && feedback.correctedSentence !== NO_CORRECTION_PLACEHOLDER && (
+        <div className="p-4 rounded-lg bg-slate-900/30 border border-slate-600 animate-fade-in">
+          <h3 className="text-lg font-semibold text-slate-300 mb-2">差分 (Changes):</h3>
+          <SentenceDiff userSentence={userSentence} correctedSentence={feedback.correctedSentence} fixes={feedback.fixes} />
+        </div>
+      )}
+
+      {feedback.alternatives && (
+        <div className="p-4 rounded-lg bg-slate-900/30 border border-slate-600 animate-fade-in">
+          <h3 className="text-lg font-semibold text-slate-300 mb-2">其他自然说法 (Other Natural Phrasings):</h3>
+          <AlternativeTranslations alternatives={feedback.alternatives} matchedRegister={feedback.matchedRegister} />
+        </div>
+      )}
+
+      {feedback.sentences && (
+        <div className="animate-fade-in">
+          <h3 className="text-lg font-semibold text-slate-300 mb-2">逐句点评 (Sentence by Sentence):</h3>
+          <ParagraphBreakdown sentences={feedback.sentences} />
+        </div>
+      )}
+
        <div className="p-4 rounded-lg bg-blue-900/50 border border-blue-500/50 min-h-[100px]">
         <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
             <LightBulbIcon className="w-6 h-6 text-yellow-300" />
-            讲解 (Explanation)
+            {paragraph ? '整体点评 (Coherence)' : '讲解 (Explanation)'}
         </h3>
         <div className="text-slate-200 mt-3">
             <MarkdownRenderer markdown={feedback.explanation || ''} />
@@ -217,6 +326,25 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ task, userSentence, o
         </div>
       </div>
 
+      {onFollowUp && isComplete && (
+        <div className="p-4 rounded-lg bg-slate-900/30 border border-slate-600 animate-fade-in">
+          <h3 className="text-lg font-semibold text-slate-300 mb-3">追问 (Ask a Follow-up)</h3>
+          <FollowUpPanel
+            context={{
+              source: reverseTask?.japaneseSentence ?? task?.chineseSentence,
+              userSentence,
+              correctedSentence: feedback.correctedSentence ?? '',
+              explanation: feedback.explanation ?? '',
+            }}
+            thread={followUps}
+            onThreadChange={(thread) => {
+              setFollowUps(thread);
+              onFollowUp(thread);
+            }}
+          />
+        </div>
+      )}
+
       <button
         onClick={onNext}
         disabled={isStreaming}
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { FollowUpMessage } from '../types';
+import { askFollowUpStream, FollowUpContext } from '../services/geminiService';
+import MarkdownRenderer from './MarkdownRenderer';
+
+interface FollowUpPanelProps {
+  context: FollowUpContext;
+  thread: FollowUpMessage[];
+  // Called with the whole thread once an answer has finished streaming.
+  onThreadChange: (thread: FollowUpMessage[]) => void;
+}
+
+const Exchange: React.FC<{ question: string; answer: string; isStreaming?: boolean }> = ({ question, answer, isStreaming = false }) => (
+  <li className="space-y-2">
+    <p className="ml-auto w-fit max-w-[85%] px-4 py-2 rounded-2xl rounded-br-sm bg-blue-600/40 border border-blue-500/40 text-white">{question}</p>
+    <div className="max-w-[95%] px-4 py-2 rounded-2xl rounded-bl-sm bg-slate-700/70 border border-slate-600 text-slate-200">
+      <MarkdownRenderer markdown={answer} />
+      {isStreaming && <span className="blinking-cursor"></span>}
+    </div>
+  </li>
+);
+
+const FollowUpPanel: React.FC<FollowUpPanelProps> = ({ context, thread, onThreadChange }) => {
+  const [question, setQuestion] = useState('');
+  const [pending, setPending] = useState<FollowUpMessage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const asked = question.trim();
+    if (!asked || pending) return;
+
+    let answer = '';
+    setQuestion('');
+    setError(null);
+    setPending({ question: asked, answer: '' });
+    try {
+      await askFollowUpStream(context, thread, asked, chunk => {
+        answer += chunk;
+        setPending({ question: asked, answer });
+      });
+    } catch (err) {
+      // A failed exchange is not kept; the question goes back into the input to ask again.
+      setPending(null);
+      setQuestion(asked);
+      setError(err instanceof Error ? err.message : 'Failed to get an answer from the AI.');
+      return;
+    }
+    setPending(null);
+    onThreadChange([...thread, { question: asked, answer }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {(thread.length > 0 || pending) && (
+        <ul className="space-y-4" aria-label="Follow-up questions" aria-live="polite">
+          {thread.map((message, index) => <Exchange key={index} question={message.question} answer={message.answer} />)}
+          {pending && <Exchange question={pending.question} answer={pending.answer} isStreaming />}
+        </ul>
+      )}
+      {error && <p className="text-sm text-red-300" role="alert">{error}</p>}
+      <form onSubmit={handleAsk} className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="例如：这里为什么不用「に」？"
+          aria-label="Follow-up question"
+          disabled={!!pending}
+          className="flex-1 p-3 bg-slate-900 border-2 border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-colors disabled:opacity-60"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || !!pending}
+          className="px-5 py-3 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-500 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          提问 (Ask)
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default FollowUpPanel;
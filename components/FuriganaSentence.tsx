@@ -0,0 +1,22 @@
+import React from 'react';
+import { DictationSegment } from '../types';
+
+interface FuriganaSentenceProps {
+  segments: DictationSegment[];
+  className?: string;
+}
+
+const KANJI = /[一-鿿々]/;
+
+// Shows readings above the segments that contain kanji.
+const FuriganaSentence: React.FC<FuriganaSentenceProps> = ({ segments, className }) => (
+  <p className={className}>
+    {segments.map((segment, index) =>
+      segment.reading && KANJI.test(segment.text)
+        ? <ruby key={index}>{segment.text}<rt className="text-xs text-slate-400">{segment.reading}</rt></ruby>
+        : <span key={index}>{segment.text}</span>
+    )}
+  </p>
+);
+
+export default FuriganaSentence;
@@ -1,59 +1,144 @@
 import React, { useState, useMemo } from 'react';
-import { GrammarPoint, Difficulty } from '../types';
+import { GrammarPoint, Difficulty, GameMode, SentenceLength } from '../types';
+import { grammarPointKey } from '../services/srsService';
+import { buildAnkiNotes, buildAnkiPackage } from '../services/ankiExportService';
+import { downloadFile } from '../services/downloadService';
 import { SearchIcon } from './icons/SearchIcon';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { ExportIcon } from './icons/ExportIcon';
 
 const difficultyLevels = [Difficulty.N5, Difficulty.N4, Difficulty.N3, Difficulty.N2, Difficulty.N1];
+const sentenceLengths = [SentenceLength.Short, SentenceLength.Medium, SentenceLength.Long];
 
-const GrammarCard: React.FC<{ point: GrammarPoint }> = ({ point }) => {
+interface GrammarCardProps {
+    point: GrammarPoint;
+    selectionMode: boolean;
+    isSelected: boolean;
+    onToggleSelect: (point: GrammarPoint) => void;
+    onPractice: (mode: GameMode) => void;
+}
+
+const GrammarCard: React.FC<GrammarCardProps> = ({ point, selectionMode, isSelected, onToggleSelect, onPractice }) => {
     const [isOpen, setIsOpen] = useState(false);
 
     return (
-        <div className="border border-slate-700 bg-slate-800/50 rounded-lg transition-all duration-300">
-            <button
-                onClick={() => setIsOpen(!isOpen)}
-                className="w-full flex justify-between items-center p-4 text-left"
-                aria-expanded={isOpen}
-            >
-                <div className="flex-1 pr-4">
-                    <h3 className="font-bold text-lg text-teal-300">{point.grammar_point}</h3>
-                    <p className="text-slate-300">{point.meaning_cn}</p>
+        <div className={`flex border rounded-lg transition-all duration-300 ${isSelected ? 'bg-slate-700/50 border-purple-500' : 'border-slate-700 bg-slate-800/50'}`}>
+            {selectionMode && (
+                <div className="pl-4 pt-5">
+                    <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => onToggleSelect(point)}
+                        className="h-5 w-5 rounded bg-slate-700 border-slate-500 text-purple-500 focus:ring-purple-500 cursor-pointer"
+                        aria-label={`Select ${point.grammar_point}`}
+                    />
                 </div>
-                <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform duration-300 shrink-0 ${isOpen ? 'rotate-180' : ''}`} />
-            </button>
-            {isOpen && (
-                <div className="p-4 border-t border-slate-700 bg-slate-900/30 animate-fade-in">
-                    <div className="space-y-4 text-slate-200">
-                        <div>
-                            <strong className="text-blue-400">用法:</strong>
-                            <p className="mt-1 font-mono bg-slate-800 p-2 rounded text-sm whitespace-pre-wrap">{point.usage}</p>
-                        </div>
-                        <div>
-                            <strong className="text-blue-400">例文 (JA):</strong>
-                            <p className="mt-1">{point.example_ja}</p>
-                        </div>
-                         <div>
-                            <strong className="text-blue-400">例文 (CN):</strong>
-                            <p className="mt-1 text-slate-400">{point.example_cn}</p>
-                        </div>
-                        <div>
-                            <strong className="text-blue-400">ノート:</strong>
-                            <p className="mt-1 text-slate-400 whitespace-pre-wrap">{point.note}</p>
+            )}
+            <div className="flex-1 min-w-0">
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="w-full flex justify-between items-center p-4 text-left"
+                    aria-expanded={isOpen}
+                >
+                    <div className="flex-1 pr-4">
+                        <h3 className="font-bold text-lg text-teal-300">{point.grammar_point}</h3>
+                        <p className="text-slate-300">{point.meaning_cn}</p>
+                    </div>
+                    <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform duration-300 shrink-0 ${isOpen ? 'rotate-180' : ''}`} />
+                </button>
+                {isOpen && (
+                    <div className="p-4 border-t border-slate-700 bg-slate-900/30 animate-fade-in">
+                        <div className="space-y-4 text-slate-200">
+                            <div>
+                                <strong className="text-blue-400">用法:</strong>
+                                <p className="mt-1 font-mono bg-slate-800 p-2 rounded text-sm whitespace-pre-wrap">{point.usage}</p>
+                            </div>
+                            <div>
+                                <strong className="text-blue-400">例文 (JA):</strong>
+                                <p className="mt-1">{point.example_ja}</p>
+                            </div>
+                             <div>
+                                <strong className="text-blue-400">例文 (CN):</strong>
+                                <p className="mt-1 text-slate-400">{point.example_cn}</p>
+                            </div>
+                            <div>
+                                <strong className="text-blue-400">ノート:</strong>
+                                <p className="mt-1 text-slate-400 whitespace-pre-wrap">{point.note}</p>
+                            </div>
+                            <div className="flex items-center gap-2 flex-wrap pt-2 border-t border-slate-700">
+                                <span className="text-sm text-slate-400 mr-1">この文法で練習:</span>
+                                <button
+                                    onClick={() => onPractice(GameMode.Translation)}
+                                    className="px-3 py-1.5 text-sm bg-blue-600/80 hover:bg-blue-500 text-white font-semibold rounded-lg transition-colors"
+                                >
+                                    翻译练习
+                                </button>
+                                <button
+                                    onClick={() => onPractice(GameMode.MultipleChoice)}
+                                    className="px-3 py-1.5 text-sm bg-teal-600/80 hover:bg-teal-500 text-white font-semibold rounded-lg transition-colors"
+                                >
+                                    选择题测验
+                                </button>
+                                <button
+                                    onClick={() => onPractice(GameMode.Cloze)}
+                                    className="px-3 py-1.5 text-sm bg-orange-600/80 hover:bg-orange-500 text-white font-semibold rounded-lg transition-colors"
+                                >
+                                    填空练习
+                                </button>
+                                <button
+                                    onClick={() => onPractice(GameMode.Reorder)}
+                                    className="px-3 py-1.5 text-sm bg-cyan-600/80 hover:bg-cyan-500 text-white font-semibold rounded-lg transition-colors"
+                                >
+                                    排序题
+                                </button>
+                            </div>
                         </div>
                     </div>
-                </div>
-            )}
+                )}
+            </div>
         </div>
     );
 };
 
 interface GrammarLibraryProps {
   points: GrammarPoint[];
+  onPractice: (points: GrammarPoint[], length: SentenceLength, mode: GameMode) => void;
 }
 
-const GrammarLibrary: React.FC<GrammarLibraryProps> = ({ points }) => {
+const GrammarLibrary: React.FC<GrammarLibraryProps> = ({ points, onPractice }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [selectedLevel, setSelectedLevel] = useState<Difficulty | 'ALL'>('ALL');
+    const [practiceLength, setPracticeLength] = useState<SentenceLength>(SentenceLength.Medium);
+    const [selectionMode, setSelectionMode] = useState(false);
+    // Keyed by level + grammar point so the selection survives search and level filtering.
+    const [selectedPoints, setSelectedPoints] = useState<Map<string, GrammarPoint>>(new Map());
+
+    const handleToggleSelectionMode = () => {
+        setSelectionMode(prev => !prev);
+        setSelectedPoints(new Map());
+    };
+
+    const handleExportAnki = () => {
+        try {
+            const notes = buildAnkiNotes([], Array.from(selectedPoints.values()));
+            const date = new Date().toISOString().split('T')[0];
+            downloadFile(buildAnkiPackage(notes), `japanese_grammar_anki_${date}.zip`, 'application/zip');
+        } catch (error) {
+            console.error("Failed to export Anki deck:", error);
+            alert("An error occurred while exporting the Anki deck.");
+        }
+    };
+
+    const handleToggleSelect = (point: GrammarPoint) => {
+        const next = new Map(selectedPoints);
+        const key = grammarPointKey(point);
+        if (next.has(key)) {
+            next.delete(key);
+        } else {
+            next.set(key, point);
+        }
+        setSelectedPoints(next);
+    };
 
     const filteredPoints = useMemo(() => {
         return points
@@ -109,14 +194,86 @@ const GrammarLibrary: React.FC<GrammarLibraryProps> = ({ points }) => {
                         </button>
                     ))}
                  </div>
+                 <div className="flex justify-between items-center gap-2 flex-wrap mt-4">
+                    <div className="flex items-center gap-2">
+                        <span className="text-sm text-slate-400">練習の文の長さ:</span>
+                        {sentenceLengths.map(length => (
+                            <button
+                                key={length}
+                                onClick={() => setPracticeLength(length)}
+                                className={`w-10 py-1 text-sm font-semibold rounded-full transition-all duration-200 border-2 ${practiceLength === length ? 'bg-blue-400 border-blue-400 text-gray-900' : 'bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-600/50 hover:border-slate-500'}`}
+                            >
+                                {length}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={handleToggleSelectionMode}
+                        className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors shadow-md"
+                    >
+                        {selectionMode ? 'Cancel' : 'Select'}
+                    </button>
+                 </div>
             </header>
             <div className="flex-1 overflow-y-auto pr-2 space-y-3">
                  {filteredPoints.length > 0 ? (
-                    filteredPoints.map((point, index) => <GrammarCard key={`${point.grammar_point}-${index}`} point={point} />)
+                    filteredPoints.map((point, index) => (
+                        <GrammarCard
+                            key={`${point.grammar_point}-${index}`}
+                            point={point}
+                            selectionMode={selectionMode}
+                            isSelected={selectedPoints.has(grammarPointKey(point))}
+                            onToggleSelect={handleToggleSelect}
+                            onPractice={mode => onPractice([point], practiceLength, mode)}
+                        />
+                    ))
                 ) : (
                     <p className="text-center text-slate-400 mt-8">検索条件に一致する文法項目は見つかりませんでした。</p>
                 )}
             </div>
+            {selectionMode && (
+                <div className="mt-4 pt-4 border-t border-slate-700 flex justify-between items-center gap-2 flex-wrap">
+                    <span className="text-slate-400 font-medium">{selectedPoints.size} selected</span>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => onPractice(Array.from(selectedPoints.values()), practiceLength, GameMode.Translation)}
+                            disabled={selectedPoints.size === 0}
+                            className="px-4 py-2 bg-blue-600/80 hover:bg-blue-500 text-white font-semibold rounded-lg transition-colors shadow-md disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                        >
+                            翻译练习
+                        </button>
+                        <button
+                            onClick={() => onPractice(Array.from(selectedPoints.values()), practiceLength, GameMode.MultipleChoice)}
+                            disabled={selectedPoints.size === 0}
+                            className="px-4 py-2 bg-teal-600/80 hover:bg-teal-500 text-white font-semibold rounded-lg transition-colors shadow-md disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                        >
+                            选择题测验
+                        </button>
+                        <button
+                            onClick={() => onPractice(Array.from(selectedPoints.values()), practiceLength, GameMode.Cloze)}
+                            disabled={selectedPoints.size === 0}
+                            className="px-4 py-2 bg-orange-600/80 hover:bg-orange-500 text-white font-semibold rounded-lg transition-colors shadow-md disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                        >
+                            填空练习
+                        </button>
+                        <button
+                            onClick={() => onPractice(Array.from(selectedPoints.values()), practiceLength, GameMode.Reorder)}
+                            disabled={selectedPoints.size === 0}
+                            className="px-4 py-2 bg-cyan-600/80 hover:bg-cyan-500 text-white font-semibold rounded-lg transition-colors shadow-md disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                        >
+                            排序题
+                        </button>
+                        <button
+                            onClick={handleExportAnki}
+                            disabled={selectedPoints.size === 0}
+                            className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors shadow-md flex items-center disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                        >
+                            <ExportIcon className="w-5 h-5 mr-2" />
+                            Anki
+                        </button>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -1,46 +1,75 @@
-import React, { useState, useEffect } from 'react';
-import { HistoryItem, GameMode, TranslationHistoryItem, MultipleChoiceHistoryItem, SentenceCheckHistoryItem } from '../types';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { HistoryItem, GameMode, Difficulty, SentenceLength, GrammarPoint, TranslationHistoryItem, MultipleChoiceHistoryItem, SentenceCheckHistoryItem, DictationHistoryItem, ReverseTranslationHistoryItem, ClozeHistoryItem, ReorderHistoryItem, ReorderVariant, ExamHistoryItem, ConversationHistoryItem, ConversationSpeaker } from '../types';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { XCircleIcon } from './icons/XCircleIcon';
 import MarkdownRenderer from './MarkdownRenderer';
 import { SpeakerWaveIcon } from './icons/SpeakerWaveIcon';
-import { generateSpeech, decode, decodeAudioData } from '../services/geminiService';
+import { generateSpeech } from '../services/geminiService';
+import { playAudio, stopAudio } from '../services/audioPlaybackService';
+import { getHistoryAudio, exportHistory, exportHistoryItems, previewHistoryImport, ImportPreview } from '../services/historyService';
 import { ImportIcon } from './icons/ImportIcon';
 import { ExportIcon } from './icons/ExportIcon';
+import { ChartBarIcon } from './icons/ChartBarIcon';
 import { TrashIcon } from './icons/TrashIcon';
+import { LightBulbIcon } from './icons/LightBulbIcon';
+import { ArrowPathIcon } from './icons/ArrowPathIcon';
+import { SearchIcon } from './icons/SearchIcon';
+import RubricBreakdown from './RubricBreakdown';
+import ParagraphBreakdown from './ParagraphBreakdown';
+import FollowUpPanel from './FollowUpPanel';
+import AlternativeTranslations from './AlternativeTranslations';
+import SentenceDiff from './SentenceDiff';
+import FuriganaSentence from './FuriganaSentence';
+import NuanceBadge from './NuanceBadge';
+import ExamReport from './ExamReport';
+import AttemptProgression from './AttemptProgression';
+import ImportPreviewDialog from './ImportPreviewDialog';
+import VirtualList from './VirtualList';
+import ConversationTranscript, { spokenText } from './ConversationTranscript';
+import { gradeDictation } from '../services/dictationService';
+import { clozeSentence } from '../services/clozeService';
+import { gradeReorder, reorderSentence } from '../services/reorderService';
+import { summarizeExam } from '../services/examService';
+import { NO_CORRECTION_PLACEHOLDER } from '../services/feedbackStreamParser';
+import { aggregateRubricScores, dayKey } from '../services/statsService';
+import { RetryableHistoryItem, groupAttempts, rootAttemptId } from '../services/retryService';
+import { buildAnkiNotes, buildAnkiPackage } from '../services/ankiExportService';
+import { downloadFile } from '../services/downloadService';
+import { conversationScenarioLabels, historyToCsv, modeLabels, studyReportHtml, studyReportMarkdown, ReportRange } from '../services/reportService';
+import { DEFAULT_HISTORY_FILTERS, HistoryFilters, HistorySortOrder, McqOutcome, filterHistory, historyGrammarPoints, isFiltering } from '../services/historyFilterService';
+import { grammarPointKey } from '../services/srsService';
 
-const getScoreColorClasses = (score: number) => {
+const getScoreColorClasses = (score: number | null) => {
+    if (score === null) return 'bg-slate-500/20 text-slate-300 border-slate-500/30';
     if (score >= 80) return 'bg-green-500/20 text-green-300 border-green-500/30';
     if (score >= 50) return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
     return 'bg-red-500/20 text-red-300 border-red-500/30';
 };
 
+const RetryButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+    <button onClick={onClick} className="flex items-center gap-1 text-sm text-teal-300 hover:text-teal-200 transition-colors p-1 rounded-md hover:bg-teal-500/10">
+        <ArrowPathIcon className="w-4 h-4" />
+        再挑战 (Retry)
+    </button>
+);
+
 interface TranslationHistoryCardProps {
     item: TranslationHistoryItem;
     onUpdate: (item: TranslationHistoryItem) => void;
     onDelete: (id: string) => void;
+    // All attempts of the question, oldest first, and a way to practise it once more.
+    attempts: RetryableHistoryItem[];
+    onRetry: (item: RetryableHistoryItem) => void;
     selectionMode: boolean;
     isSelected: boolean;
     onToggleSelect: (id: string) => void;
+    isOpen: boolean;
+    onToggleOpen: (id: string) => void;
 }
 
-const TranslationHistoryCard: React.FC<TranslationHistoryCardProps> = ({ item, onUpdate, onDelete, selectionMode, isSelected, onToggleSelect }) => {
-    const [isOpen, setIsOpen] = useState(false);
+const TranslationHistoryCard: React.FC<TranslationHistoryCardProps> = ({ item, onUpdate, onDelete, attempts, onRetry, selectionMode, isSelected, onToggleSelect, isOpen, onToggleOpen }) => {
     const [isAudioLoading, setIsAudioLoading] = useState(false);
-    const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
-
-    useEffect(() => {
-        const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-        if (AudioContext) {
-            const ctx = new AudioContext({ sampleRate: 24000 });
-            setAudioContext(ctx);
-
-            return () => {
-                ctx.close().catch(console.error);
-            };
-        }
-    }, []);
 
     const handleDelete = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -53,16 +82,17 @@ const TranslationHistoryCard: React.FC<TranslationHistoryCardProps> = ({ item, o
         if (selectionMode) {
             onToggleSelect(item.id);
         } else {
-            setIsOpen(prev => !prev);
+            onToggleOpen(item.id);
         }
     };
 
     const handlePlayAudio = async () => {
-        if (isAudioLoading || !audioContext) return;
+        if (isAudioLoading) return;
         setIsAudioLoading(true);
 
         try {
-            let audioToPlay = item.audioBase64;
+            // Audio saved earlier is kept out of the history list and loaded on first play.
+            let audioToPlay = item.audioBase64 ?? (await getHistoryAudio(item.id))[0];
             
             if (!audioToPlay) {
                 const newAudioBase64 = await generateSpeech(item.correctedSentence);
@@ -75,19 +105,10 @@ const TranslationHistoryCard: React.FC<TranslationHistoryCardProps> = ({ item, o
                 }
             }
             
-            if (audioToPlay) {
-                const audioData = decode(audioToPlay);
-                const audioBuffer = await decodeAudioData(audioData, audioContext, 24000, 1);
-                const source = audioContext.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(audioContext.destination);
-                source.start();
-                source.onended = () => setIsAudioLoading(false);
-            } else {
-                 setIsAudioLoading(false);
-            }
+            await playAudio(audioToPlay);
         } catch (error) {
             console.error("Failed to generate or play audio from history:", error);
+        } finally {
             setIsAudioLoading(false);
         }
     };
@@ -109,8 +130,13 @@ const TranslationHistoryCard: React.FC<TranslationHistoryCardProps> = ({ item, o
                     <p className="font-semibold text-lg text-slate-200 mt-1 truncate">{item.chineseSentence}</p>
                 </div>
                 <div className="flex items-center gap-2 shrink-0">
+                    {item.hintsUsed ? (
+                        <span className="flex items-center gap-0.5 text-xs text-amber-300" title={`${item.hintsUsed} hints used`}>
+                            <LightBulbIcon className="w-4 h-4" />×{item.hintsUsed}
+                        </span>
+                    ) : null}
                     <div className={`w-12 h-7 flex items-center justify-center rounded-md border ${colorClasses}`}>
-                        <span className="font-bold">{item.score}</span>
+                        <span className="font-bold">{item.score ?? '—'}</span>
                     </div>
                     {!selectionMode && <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />}
                 </div>
@@ -135,14 +161,23 @@ const TranslationHistoryCard: React.FC<TranslationHistoryCardProps> = ({ item, o
                         </div>
                         <p className="p-2 bg-slate-800 rounded">{item.correctedSentence}</p>
                     </div>
-                    <div><strong className="text-slate-400">Explanation:</strong> <div className="p-2 bg-slate-800 rounded mt-1"><MarkdownRenderer markdown={item.feedbackExplanation} /></div></div>
+                    {!item.sentences && item.userSentence && item.correctedSentence !== NO_CORRECTION_PLACEHOLDER && <div><strong className="text-slate-400">Changes:</strong> <div className="p-2 bg-slate-800 rounded mt-1"><SentenceDiff userSentence={item.userSentence} correctedSentence={item.correctedSentence} fixes={item.fixes} /></div></div>}
+                    {item.sentences && <div><strong className="text-slate-400">Sentence by Sentence:</strong> <div className="mt-1"><ParagraphBreakdown sentences={item.sentences} /></div></div>}
+                    {item.alternatives && <div><strong className="text-slate-400">Other Natural Phrasings:</strong> <div className="mt-1"><AlternativeTranslations alternatives={item.alternatives} matchedRegister={item.matchedRegister} /></div></div>}
+                    {item.rubric && <div><strong className="text-slate-400">Score Breakdown:</strong> <div className="p-2 bg-slate-800 rounded mt-1"><RubricBreakdown rubric={item.rubric} /></div></div>}
+                    <div><strong className="text-slate-400">{item.sentences ? 'Coherence:' : 'Explanation:'}</strong> <div className="p-2 bg-slate-800 rounded mt-1"><MarkdownRenderer markdown={item.feedbackExplanation} /></div></div>
+                    <div><strong className="text-slate-400">Follow-up Questions:</strong> <div className="mt-2"><FollowUpPanel context={{ source: item.chineseSentence, userSentence: item.userSentence, correctedSentence: item.correctedSentence, explanation: item.feedbackExplanation }} thread={item.followUps ?? []} onThreadChange={followUps => onUpdate({ ...item, followUps })} /></div></div>
                     {item.grammarPoint && <p className="text-sm text-purple-30_0"><strong>Grammar Focus:</strong> {item.grammarPoint.grammar_point}</p>}
+                    {attempts.length > 1 && <div><strong className="text-slate-400">Attempts:</strong> <div className="mt-1"><AttemptProgression attempts={attempts} currentId={item.id} /></div></div>}
                     <div className="flex justify-between items-center pt-2 border-t border-slate-700/50">
                         <p className="text-xs text-slate-500">{item.difficulty} | {item.sentenceLength} | Translation</p>
-                        <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
-                            <TrashIcon className="w-4 h-4" />
-                            Delete
-                        </button>
+                        <div className="flex items-center gap-2">
+                            <RetryButton onClick={() => onRetry(item)} />
+                            <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
+                                <TrashIcon className="w-4 h-4" />
+                                Delete
+                            </button>
+                        </div>
                     </div>
                 </div>
             )}
@@ -154,25 +189,19 @@ interface MultipleChoiceHistoryCardProps {
     item: MultipleChoiceHistoryItem;
     onUpdate: (item: MultipleChoiceHistoryItem) => void;
     onDelete: (id: string) => void;
+    // All attempts of the question, oldest first, and a way to practise it once more.
+    attempts: RetryableHistoryItem[];
+    onRetry: (item: RetryableHistoryItem) => void;
     selectionMode: boolean;
     isSelected: boolean;
     onToggleSelect: (id: string) => void;
+    isOpen: boolean;
+    onToggleOpen: (id: string) => void;
 }
 
-const MultipleChoiceHistoryCard: React.FC<MultipleChoiceHistoryCardProps> = ({ item, onUpdate, onDelete, selectionMode, isSelected, onToggleSelect }) => {
-    const [isOpen, setIsOpen] = useState(false);
+const MultipleChoiceHistoryCard: React.FC<MultipleChoiceHistoryCardProps> = ({ item, onUpdate, onDelete, attempts, onRetry, selectionMode, isSelected, onToggleSelect, isOpen, onToggleOpen }) => {
     const isCorrect = item.userChoiceIndex === item.correctOptionIndex;
     const [audioLoading, setAudioLoading] = useState<Record<number, boolean>>({});
-    const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
-    
-    useEffect(() => {
-        const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-        if (AudioContext) {
-            const ctx = new AudioContext({ sampleRate: 24000 });
-            setAudioContext(ctx);
-            return () => { ctx.close().catch(console.error); };
-        }
-    }, []);
     
     const handleDelete = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -185,24 +214,20 @@ const MultipleChoiceHistoryCard: React.FC<MultipleChoiceHistoryCardProps> = ({ i
         if (selectionMode) {
             onToggleSelect(item.id);
         } else {
-            setIsOpen(prev => !prev);
+            onToggleOpen(item.id);
         }
     };
 
 
     const handlePlayAudio = async (index: number, text: string) => {
-        if (audioLoading[index] || !audioContext) return;
+        if (audioLoading[index]) return;
 
-        const currentAudios = item.audiosBase64 || new Array(item.options.length).fill(null);
+        const storedAudios = item.audiosBase64 ?? await getHistoryAudio(item.id);
+        const currentAudios = item.options.map((_, i) => storedAudios[i] ?? null);
 
         if (currentAudios[index]) {
              try {
-                const audioData = decode(currentAudios[index] as string);
-                const audioBuffer = await decodeAudioData(audioData, audioContext, 24000, 1);
-                const source = audioContext.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(audioContext.destination);
-                source.start();
+                await playAudio(currentAudios[index] as string);
             } catch (error) {
                 console.error("Failed to play cached audio from history:", error);
             }
@@ -213,18 +238,12 @@ const MultipleChoiceHistoryCard: React.FC<MultipleChoiceHistoryCardProps> = ({ i
         try {
             const base64Audio = await generateSpeech(text);
             if (base64Audio) {
-                const audioData = decode(base64Audio);
-                const audioBuffer = await decodeAudioData(audioData, audioContext, 24000, 1);
-                const source = audioContext.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(audioContext.destination);
-                source.start();
-
                 const newAudios = [...currentAudios];
                 newAudios[index] = base64Audio;
 
                 const updatedItem = { ...item, audiosBase64: newAudios };
                 onUpdate(updatedItem);
+                await playAudio(base64Audio);
             }
         } catch (error) {
             console.error("Failed to generate or play audio:", error);
@@ -287,12 +306,16 @@ const MultipleChoiceHistoryCard: React.FC<MultipleChoiceHistoryCardProps> = ({ i
                     </div>
                     <div><strong className="text-slate-400">Explanation:</strong> <div className="p-2 bg-slate-800 rounded mt-1"><MarkdownRenderer markdown={item.mcqExplanation} /></div></div>
                     {item.grammarPoint && <p className="text-sm text-purple-300"><strong>Grammar Focus:</strong> {item.grammarPoint.grammar_point}</p>}
+                    {attempts.length > 1 && <div><strong className="text-slate-400">Attempts:</strong> <div className="mt-1"><AttemptProgression attempts={attempts} currentId={item.id} /></div></div>}
                     <div className="flex justify-between items-center pt-2 border-t border-slate-700/50">
                       <p className="text-xs text-slate-500">{item.difficulty} | {item.sentenceLength} | Multiple Choice</p>
-                      <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
-                          <TrashIcon className="w-4 h-4" />
-                          Delete
-                      </button>
+                      <div className="flex items-center gap-2">
+                        <RetryButton onClick={() => onRetry(item)} />
+                        <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
+                            <TrashIcon className="w-4 h-4" />
+                            Delete
+                        </button>
+                      </div>
                     </div>
                 </div>
             )}
@@ -307,19 +330,10 @@ const SentenceCheckHistoryCard: React.FC<{
     selectionMode: boolean;
     isSelected: boolean;
     onToggleSelect: (id: string) => void;
-}> = ({ item, onUpdate, onDelete, selectionMode, isSelected, onToggleSelect }) => {
-    const [isOpen, setIsOpen] = useState(false);
+    isOpen: boolean;
+    onToggleOpen: (id: string) => void;
+}> = ({ item, onUpdate, onDelete, selectionMode, isSelected, onToggleSelect, isOpen, onToggleOpen }) => {
     const [isAudioLoading, setIsAudioLoading] = useState(false);
-    const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
-
-    useEffect(() => {
-        const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-        if (AudioContext) {
-            const ctx = new AudioContext({ sampleRate: 24000 });
-            setAudioContext(ctx);
-            return () => { ctx.close().catch(console.error); };
-        }
-    }, []);
 
     const handleDelete = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -332,16 +346,17 @@ const SentenceCheckHistoryCard: React.FC<{
         if (selectionMode) {
             onToggleSelect(item.id);
         } else {
-            setIsOpen(prev => !prev);
+            onToggleOpen(item.id);
         }
     };
 
     const handlePlayAudio = async () => {
-        if (isAudioLoading || !audioContext) return;
+        if (isAudioLoading) return;
         setIsAudioLoading(true);
 
         try {
-            let audioToPlay = item.audioBase64;
+            // Audio saved earlier is kept out of the history list and loaded on first play.
+            let audioToPlay = item.audioBase64 ?? (await getHistoryAudio(item.id))[0];
             
             if (!audioToPlay) {
                 const newAudioBase64 = await generateSpeech(item.correctedSentence);
@@ -353,19 +368,10 @@ const SentenceCheckHistoryCard: React.FC<{
                 }
             }
             
-            if (audioToPlay) {
-                const audioData = decode(audioToPlay);
-                const audioBuffer = await decodeAudioData(audioData, audioContext, 24000, 1);
-                const source = audioContext.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(audioContext.destination);
-                source.start();
-                source.onended = () => setIsAudioLoading(false);
-            } else {
-                 setIsAudioLoading(false);
-            }
+            await playAudio(audioToPlay);
         } catch (error) {
             console.error("Failed to generate or play audio from history:", error);
+        } finally {
             setIsAudioLoading(false);
         }
     };
@@ -388,7 +394,7 @@ const SentenceCheckHistoryCard: React.FC<{
                 </div>
                 <div className="flex items-center gap-2 shrink-0">
                     <div className={`w-12 h-7 flex items-center justify-center rounded-md border ${colorClasses}`}>
-                        <span className="font-bold">{item.score}</span>
+                        <span className="font-bold">{item.score ?? '—'}</span>
                     </div>
                     {!selectionMode && <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />}
                 </div>
@@ -412,7 +418,11 @@ const SentenceCheckHistoryCard: React.FC<{
                         </div>
                         <p className="p-2 bg-slate-800 rounded">{item.correctedSentence}</p>
                     </div>
-                    <div><strong className="text-slate-400">Explanation:</strong> <div className="p-2 bg-slate-800 rounded mt-1"><MarkdownRenderer markdown={item.feedbackExplanation} /></div></div>
+                    {!item.sentences && item.userSentence && item.correctedSentence !== NO_CORRECTION_PLACEHOLDER && <div><strong className="text-slate-400">Changes:</strong> <div className="p-2 bg-slate-800 rounded mt-1"><SentenceDiff userSentence={item.userSentence} correctedSentence={item.correctedSentence} fixes={item.fixes} /></div></div>}
+                    {item.sentences && <div><strong className="text-slate-400">Sentence by Sentence:</strong> <div className="mt-1"><ParagraphBreakdown sentences={item.sentences} /></div></div>}
+                    {item.rubric && <div><strong className="text-slate-400">Score Breakdown:</strong> <div className="p-2 bg-slate-800 rounded mt-1"><RubricBreakdown rubric={item.rubric} /></div></div>}
+                    <div><strong className="text-slate-400">{item.sentences ? 'Coherence:' : 'Explanation:'}</strong> <div className="p-2 bg-slate-800 rounded mt-1"><MarkdownRenderer markdown={item.feedbackExplanation} /></div></div>
+                    <div><strong className="text-slate-400">Follow-up Questions:</strong> <div className="mt-2"><FollowUpPanel context={{ userSentence: item.userSentence, correctedSentence: item.correctedSentence, explanation: item.feedbackExplanation }} thread={item.followUps ?? []} onThreadChange={followUps => onUpdate({ ...item, followUps })} /></div></div>
                     <div className="flex justify-between items-center pt-2 border-t border-slate-700/50">
                         <p className="text-xs text-slate-500">Sentence Check</p>
                         <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
@@ -427,191 +437,1145 @@ const SentenceCheckHistoryCard: React.FC<{
 };
 
 
-interface HistoryScreenProps {
-  history: HistoryItem[];
-  onUpdateHistoryItem: (item: HistoryItem) => void;
-  onImportHistory: (data: HistoryItem[]) => void;
-  onDeleteItem: (id: string) => void;
-  onDeleteMultipleItems: (ids: string[]) => void;
+interface DictationHistoryCardProps {
+    item: DictationHistoryItem;
+    onUpdate: (item: DictationHistoryItem) => void;
+    onDelete: (id: string) => void;
+    selectionMode: boolean;
+    isSelected: boolean;
+    onToggleSelect: (id: string) => void;
+    isOpen: boolean;
+    onToggleOpen: (id: string) => void;
 }
 
-const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onUpdateHistoryItem, onImportHistory, onDeleteItem, onDeleteMultipleItems }) => {
-    const [selectionMode, setSelectionMode] = useState(false);
-    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+const DictationHistoryCard: React.FC<DictationHistoryCardProps> = ({ item, onUpdate, onDelete, selectionMode, isSelected, onToggleSelect, isOpen, onToggleOpen }) => {
+    const [isAudioLoading, setIsAudioLoading] = useState(false);
+    const grade = useMemo(() => gradeDictation(item.segments, item.userTranscript), [item.segments, item.userTranscript]);
 
-    const handleToggleSelectionMode = () => {
-        setSelectionMode(prev => !prev);
-        setSelectedIds(new Set()); // Reset selection when toggling mode
-    };
-    
-    const handleToggleItemSelection = (id: string) => {
-        const newSelectedIds = new Set(selectedIds);
-        if (newSelectedIds.has(id)) {
-            newSelectedIds.delete(id);
-        } else {
-            newSelectedIds.add(id);
+    const handleDelete = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (window.confirm('Are you sure you want to delete this record? This action cannot be undone.')) {
+            onDelete(item.id);
         }
-        setSelectedIds(newSelectedIds);
     };
 
-    const handleSelectAll = () => {
-        if (selectedIds.size === history.length) {
-            setSelectedIds(new Set()); // Deselect all
+    const handleMainAction = () => {
+        if (selectionMode) {
+            onToggleSelect(item.id);
         } else {
-            setSelectedIds(new Set(history.map(item => item.id))); // Select all
-        }
-    };
-    
-    const handleDeleteSelected = () => {
-        if (selectedIds.size === 0) return;
-        if (window.confirm(`Are you sure you want to delete ${selectedIds.size} selected records? This action cannot be undone.`)) {
-            onDeleteMultipleItems(Array.from(selectedIds));
-            setSelectionMode(false);
-            setSelectedIds(new Set());
+            onToggleOpen(item.id);
         }
     };
 
-    const handleExport = () => {
-        if (history.length === 0) {
-            alert("No history to export.");
-            return;
-        };
+    const handlePlayAudio = async () => {
+        if (isAudioLoading) return;
+        setIsAudioLoading(true);
+
         try {
-            const jsonString = `data:text/json;charset=utf-8,${encodeURIComponent(
-                JSON.stringify(history, null, 2)
-            )}`;
-            const link = document.createElement("a");
-            link.href = jsonString;
-            const date = new Date().toISOString().split('T')[0];
-            link.download = `japanese_practice_history_${date}.json`;
+            let audioToPlay = item.audioBase64 ?? (await getHistoryAudio(item.id))[0];
 
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+            if (!audioToPlay) {
+                const newAudioBase64 = await generateSpeech(item.japaneseSentence);
+                if (newAudioBase64) {
+                    audioToPlay = newAudioBase64;
+                    onUpdate({ ...item, audioBase64: newAudioBase64 });
+                } else {
+                    throw new Error("Audio generation returned null.");
+                }
+            }
+
+            await playAudio(audioToPlay);
         } catch (error) {
-            console.error("Failed to export history:", error);
-            alert("An error occurred while exporting the history.");
+            console.error("Failed to generate or play audio from history:", error);
+        } finally {
+            setIsAudioLoading(false);
         }
     };
 
-    const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
+    const colorClasses = getScoreColorClasses(item.accuracy);
 
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            try {
-                const text = e.target?.result;
-                if (typeof text !== 'string') {
-                    throw new Error("Failed to read file content.");
-                }
-                const data = JSON.parse(text);
-                
-                if (Array.isArray(data)) {
-                    onImportHistory(data as HistoryItem[]);
-                    alert(`Import complete. New and existing history has been merged.`);
+    return (
+        <div className={`border rounded-lg transition-all duration-200 ${isSelected ? 'border-blue-500 bg-slate-700/60' : 'border-slate-700 bg-slate-800/50'}`}>
+            <div role="button" onClick={handleMainAction} className={`w-full flex items-center p-4 text-left ${selectionMode ? 'cursor-pointer' : ''}`} aria-expanded={!selectionMode && isOpen}>
+                {selectionMode && (
+                    <div className="mr-4 flex-shrink-0">
+                         <div className={`w-6 h-6 border-2 rounded-full flex items-center justify-center ${isSelected ? 'bg-blue-500 border-blue-400' : 'border-slate-500 bg-slate-700'}`}>
+                            {isSelected && <CheckCircleIcon className="w-4 h-4 text-white" />}
+                        </div>
+                    </div>
+                )}
+                <div className="flex-1 pr-4 min-w-0">
+                    <p className="text-sm text-slate-400">{new Date(item.timestamp).toLocaleString()}</p>
+                    <p className="font-semibold text-lg text-slate-200 mt-1 truncate">{item.japaneseSentence}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    <div className={`w-12 h-7 flex items-center justify-center rounded-md border ${colorClasses}`}>
+                        <span className="font-bold">{item.accuracy}</span>
+                    </div>
+                    {!selectionMode && <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />}
+                </div>
+            </div>
+            {!selectionMode && isOpen && (
+                <div className="p-4 border-t border-slate-700 bg-slate-900/30 space-y-4 text-slate-300 animate-fade-in">
+                    <div><strong className="text-slate-400">You Heard:</strong> <p className="p-2 bg-slate-800 rounded mt-1">{item.userTranscript || '(No answer provided)'}</p></div>
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <strong className="text-slate-400">Sentence:</strong>
+                             <button
+                                onClick={handlePlayAudio}
+                                disabled={isAudioLoading}
+                                className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait"
+                                aria-label="Play dictation audio"
+                            >
+                                {isAudioLoading
+                                    ? <div className="w-5 h-5 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div>
+                                    : <SpeakerWaveIcon className="w-5 h-5" />
+                                }
+                            </button>
+                        </div>
+                        <div className="p-2 bg-slate-800 rounded">
+                            <FuriganaSentence segments={item.segments} className="text-lg leading-loose" />
+                            <p className="text-slate-400 text-sm">{item.chineseTranslation}</p>
+                        </div>
+                    </div>
+                    <div><strong className="text-slate-400">Changes:</strong> <div className="p-2 bg-slate-800 rounded mt-1"><SentenceDiff spans={grade.spans} /></div></div>
+                    {item.grammarPoint && <p className="text-sm text-purple-300"><strong>Grammar Focus:</strong> {item.grammarPoint.grammar_point}</p>}
+                    <div className="flex justify-between items-center pt-2 border-t border-slate-700/50">
+                        <p className="text-xs text-slate-500">{item.difficulty} | {item.sentenceLength} | Dictation</p>
+                        <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
+                            <TrashIcon className="w-4 h-4" />
+                            Delete
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface ReverseTranslationHistoryCardProps {
+    item: ReverseTranslationHistoryItem;
+    onUpdate: (item: ReverseTranslationHistoryItem) => void;
+    onDelete: (id: string) => void;
+    selectionMode: boolean;
+    isSelected: boolean;
+    onToggleSelect: (id: string) => void;
+    isOpen: boolean;
+    onToggleOpen: (id: string) => void;
+}
+
+const ReverseTranslationHistoryCard: React.FC<ReverseTranslationHistoryCardProps> = ({ item, onUpdate, onDelete, selectionMode, isSelected, onToggleSelect, isOpen, onToggleOpen }) => {
+    const [isAudioLoading, setIsAudioLoading] = useState(false);
+
+    const handleDelete = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (window.confirm('Are you sure you want to delete this record? This action cannot be undone.')) {
+            onDelete(item.id);
+        }
+    };
+
+    const handleMainAction = () => {
+        if (selectionMode) {
+            onToggleSelect(item.id);
+        } else {
+            onToggleOpen(item.id);
+        }
+    };
+
+    // The audio is the Japanese source sentence, not the Chinese reference translation.
+    const handlePlayAudio = async () => {
+        if (isAudioLoading) return;
+        setIsAudioLoading(true);
+
+        try {
+            let audioToPlay = item.audioBase64 ?? (await getHistoryAudio(item.id))[0];
+
+            if (!audioToPlay) {
+                const newAudioBase64 = await generateSpeech(item.japaneseSentence);
+                if (newAudioBase64) {
+                    audioToPlay = newAudioBase64;
+                    onUpdate({ ...item, audioBase64: newAudioBase64 });
                 } else {
-                    throw new Error("Invalid history file format. The file should contain an array of history items.");
+                    throw new Error("Audio generation returned null.");
                 }
-            } catch (error) {
-                console.error("Failed to import history:", error);
-                alert(`Failed to import history: ${error instanceof Error ? error.message : 'Unknown error'}`);
             }
-        };
-        reader.onerror = () => {
-             alert('Failed to read the file.');
-        };
-        reader.readAsText(file);
-        event.target.value = ''; // Reset file input to allow importing the same file again
+
+            await playAudio(audioToPlay);
+        } catch (error) {
+            console.error("Failed to generate or play audio from history:", error);
+        } finally {
+            setIsAudioLoading(false);
+        }
     };
 
-  return (
-    <div className="w-full h-full flex flex-col p-4 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in">
-      <header className="mb-4 flex justify-between items-center flex-wrap gap-2">
-        <div className="flex items-center gap-4">
-            <h2 className="text-3xl font-bold text-white">練習履歴</h2>
-            {selectionMode && <span className="text-slate-400 font-medium">{selectedIds.size} selected</span>}
-        </div>
-        <div className="flex items-center gap-2 flex-wrap">
-            {selectionMode ? (
-                <>
-                    <button 
-                        onClick={handleSelectAll} 
-                        className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors shadow-md"
-                    >
-                        {selectedIds.size === history.length && history.length > 0 ? 'Deselect All' : 'Select All'}
-                    </button>
-                    <button 
-                        onClick={handleDeleteSelected} 
-                        disabled={selectedIds.size === 0}
-                        aria-label="Delete selected items"
-                        className="p-2 bg-red-600/80 hover:bg-red-500 text-white font-semibold rounded-lg transition-colors shadow-md disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
-                    >
-                        <TrashIcon className="w-5 h-5" />
-                    </button>
-                    <button 
-                        onClick={handleToggleSelectionMode} 
-                        className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors shadow-md"
-                    >
-                        Cancel
-                    </button>
-                </>
-            ) : (
-                <>
-                    <label className="cursor-pointer px-4 py-2 bg-sky-600/80 hover:bg-sky-500 text-white font-semibold rounded-lg transition-colors shadow-md flex items-center">
-                        <ImportIcon className="w-5 h-5 mr-2" />
-                        <span>Import</span>
-                        <input type="file" className="hidden" accept=".json" onChange={handleFileImport} />
-                    </label>
-                    <button 
-                        onClick={handleExport}
-                        disabled={history.length === 0}
-                        className="px-4 py-2 bg-teal-600/80 hover:bg-teal-500 text-white font-semibold rounded-lg transition-colors shadow-md flex items-center disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
-                    >
-                        <ExportIcon className="w-5 h-5 mr-2" />
-                        <span>Export</span>
-                    </button>
-                    {history.length > 0 && (
-                        <button 
-                            onClick={handleToggleSelectionMode} 
-                            className="px-4 py-2 bg-blue-600/80 hover:bg-blue-500 text-white font-semibold rounded-lg transition-colors shadow-md"
-                        >
-                            Select
+    const colorClasses = getScoreColorClasses(item.score);
+
+    return (
+        <div className={`border rounded-lg transition-all duration-200 ${isSelected ? 'border-blue-500 bg-slate-700/60' : 'border-slate-700 bg-slate-800/50'}`}>
+            <div role="button" onClick={handleMainAction} className={`w-full flex items-center p-4 text-left ${selectionMode ? 'cursor-pointer' : ''}`} aria-expanded={!selectionMode && isOpen}>
+                {selectionMode && (
+                    <div className="mr-4 flex-shrink-0">
+                         <div className={`w-6 h-6 border-2 rounded-full flex items-center justify-center ${isSelected ? 'bg-blue-500 border-blue-400' : 'border-slate-500 bg-slate-700'}`}>
+                            {isSelected && <CheckCircleIcon className="w-4 h-4 text-white" />}
+                        </div>
+                    </div>
+                )}
+                <div className="flex-1 pr-4 min-w-0">
+                    <p className="text-sm text-slate-400">{new Date(item.timestamp).toLocaleString()}</p>
+                    <p className="font-semibold text-lg text-slate-200 mt-1 truncate">{item.japaneseSentence}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    <div className={`w-12 h-7 flex items-center justify-center rounded-md border ${colorClasses}`}>
+                        <span className="font-bold">{item.score ?? '—'}</span>
+                    </div>
+                    {!selectionMode && <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />}
+                </div>
+            </div>
+            {!selectionMode && isOpen && (
+                <div className="p-4 border-t border-slate-700 bg-slate-900/30 space-y-4 text-slate-300 animate-fade-in">
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <strong className="text-slate-400">Japanese Sentence:</strong>
+                             <button
+                                onClick={handlePlayAudio}
+                                disabled={isAudioLoading}
+                                className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait"
+                                aria-label="Play Japanese sentence audio"
+                            >
+                                {isAudioLoading
+                                    ? <div className="w-5 h-5 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div>
+                                    : <SpeakerWaveIcon className="w-5 h-5" />
+                                }
+                            </button>
+                        </div>
+                        <p className="p-2 bg-slate-800 rounded" lang="ja">{item.japaneseSentence}</p>
+                    </div>
+                    <div><strong className="text-slate-400">Your Translation:</strong> <p className="p-2 bg-slate-800 rounded mt-1">{item.userSentence || '(No answer provided)'}</p></div>
+                    <div><strong className="text-slate-400">Reference Translation:</strong> <p className="p-2 bg-slate-800 rounded mt-1">{item.correctedSentence}</p></div>
+                    {item.nuance && <NuanceBadge nuance={item.nuance} />}
+                    <div><strong className="text-slate-400">Explanation:</strong> <div className="p-2 bg-slate-800 rounded mt-1"><MarkdownRenderer markdown={item.feedbackExplanation} /></div></div>
+                    <div><strong className="text-slate-400">Follow-up Questions:</strong> <div className="mt-2"><FollowUpPanel context={{ source: item.japaneseSentence, userSentence: item.userSentence, correctedSentence: item.correctedSentence, explanation: item.feedbackExplanation }} thread={item.followUps ?? []} onThreadChange={followUps => onUpdate({ ...item, followUps })} /></div></div>
+                    {item.grammarPoint && <p className="text-sm text-purple-300"><strong>Grammar Focus:</strong> {item.grammarPoint.grammar_point}</p>}
+                    <div className="flex justify-between items-center pt-2 border-t border-slate-700/50">
+                        <p className="text-xs text-slate-500">{item.difficulty} | {item.sentenceLength} | Reverse Translation</p>
+                        <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
+                            <TrashIcon className="w-4 h-4" />
+                            Delete
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface ClozeHistoryCardProps {
+    item: ClozeHistoryItem;
+    onUpdate: (item: ClozeHistoryItem) => void;
+    onDelete: (id: string) => void;
+    selectionMode: boolean;
+    isSelected: boolean;
+    onToggleSelect: (id: string) => void;
+    isOpen: boolean;
+    onToggleOpen: (id: string) => void;
+}
+
+const ClozeHistoryCard: React.FC<ClozeHistoryCardProps> = ({ item, onUpdate, onDelete, selectionMode, isSelected, onToggleSelect, isOpen, onToggleOpen }) => {
+    const [isAudioLoading, setIsAudioLoading] = useState(false);
+
+    const handleDelete = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (window.confirm('Are you sure you want to delete this record? This action cannot be undone.')) {
+            onDelete(item.id);
+        }
+    };
+
+    const handleMainAction = () => {
+        if (selectionMode) {
+            onToggleSelect(item.id);
+        } else {
+            onToggleOpen(item.id);
+        }
+    };
+
+    const handlePlayAudio = async () => {
+        if (isAudioLoading) return;
+        setIsAudioLoading(true);
+
+        try {
+            let audioToPlay = item.audioBase64 ?? (await getHistoryAudio(item.id))[0];
+
+            if (!audioToPlay) {
+                const newAudioBase64 = await generateSpeech(clozeSentence(item));
+                if (newAudioBase64) {
+                    audioToPlay = newAudioBase64;
+                    onUpdate({ ...item, audioBase64: newAudioBase64 });
+                } else {
+                    throw new Error("Audio generation returned null.");
+                }
+            }
+
+            await playAudio(audioToPlay);
+        } catch (error) {
+            console.error("Failed to generate or play audio from history:", error);
+        } finally {
+            setIsAudioLoading(false);
+        }
+    };
+
+    const spellings = [...new Set([item.answer, item.reading, ...item.alternatives].filter(Boolean))];
+
+    return (
+        <div className={`border rounded-lg transition-all duration-200 ${isSelected ? 'border-blue-500 bg-slate-700/60' : 'border-slate-700 bg-slate-800/50'}`}>
+            <div role="button" onClick={handleMainAction} className={`w-full flex items-center p-4 text-left ${selectionMode ? 'cursor-pointer' : ''}`} aria-expanded={!selectionMode && isOpen}>
+                {selectionMode && (
+                    <div className="mr-4 flex-shrink-0">
+                         <div className={`w-6 h-6 border-2 rounded-full flex items-center justify-center ${isSelected ? 'bg-blue-500 border-blue-400' : 'border-slate-500 bg-slate-700'}`}>
+                            {isSelected && <CheckCircleIcon className="w-4 h-4 text-white" />}
+                        </div>
+                    </div>
+                )}
+                <div className="flex-1 pr-4 min-w-0">
+                    <p className="text-sm text-slate-400">{new Date(item.timestamp).toLocaleString()}</p>
+                    <p className="font-semibold text-lg text-slate-200 mt-1 truncate">{item.before}＿＿{item.after}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    {item.isCorrect
+                        ? <CheckCircleIcon className="w-7 h-7 text-green-400" />
+                        : <XCircleIcon className="w-7 h-7 text-red-400" />
+                    }
+                    {!selectionMode && <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />}
+                </div>
+            </div>
+            {!selectionMode && isOpen && (
+                <div className="p-4 border-t border-slate-700 bg-slate-900/30 space-y-4 text-slate-300 animate-fade-in">
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <strong className="text-slate-400">Sentence:</strong>
+                             <button
+                                onClick={handlePlayAudio}
+                                disabled={isAudioLoading}
+                                className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait"
+                                aria-label="Play sentence audio"
+                            >
+                                {isAudioLoading
+                                    ? <div className="w-5 h-5 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div>
+                                    : <SpeakerWaveIcon className="w-5 h-5" />
+                                }
+                            </button>
+                        </div>
+                        <div className="p-2 bg-slate-800 rounded">
+                            <p className="text-lg" lang="ja">{item.before}<span className="mx-0.5 px-1 rounded bg-teal-500/20 text-teal-300">{item.answer}</span>{item.after}</p>
+                            <p className="text-slate-400 text-sm">{item.chineseTranslation}</p>
+                        </div>
+                    </div>
+                    <div><strong className="text-slate-400">Your Answer:</strong> <p className={`p-2 bg-slate-800 rounded mt-1 ${item.isCorrect ? 'text-green-300' : 'text-red-300'}`}>{item.userAnswer || '(No answer provided)'}</p></div>
+                    <div><strong className="text-slate-400">Accepted Answers:</strong> <p className="p-2 bg-slate-800 rounded mt-1">{spellings.join(' / ')}</p></div>
+                    {item.grammarPoint && <p className="text-sm text-purple-300"><strong>Grammar Focus:</strong> {item.grammarPoint.grammar_point}</p>}
+                    <div className="flex justify-between items-center pt-2 border-t border-slate-700/50">
+                        <p className="text-xs text-slate-500">{item.difficulty} | {item.sentenceLength} | Cloze</p>
+                        <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
+                            <TrashIcon className="w-4 h-4" />
+                            Delete
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface ReorderHistoryCardProps {
+    item: ReorderHistoryItem;
+    onUpdate: (item: ReorderHistoryItem) => void;
+    onDelete: (id: string) => void;
+    selectionMode: boolean;
+    isSelected: boolean;
+    onToggleSelect: (id: string) => void;
+    isOpen: boolean;
+    onToggleOpen: (id: string) => void;
+}
+
+const ReorderHistoryCard: React.FC<ReorderHistoryCardProps> = ({ item, onUpdate, onDelete, selectionMode, isSelected, onToggleSelect, isOpen, onToggleOpen }) => {
+    const [isAudioLoading, setIsAudioLoading] = useState(false);
+    const grade = useMemo(() => gradeReorder(item, item.userOrder, item.variant), [item]);
+
+    const handleDelete = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (window.confirm('Are you sure you want to delete this record? This action cannot be undone.')) {
+            onDelete(item.id);
+        }
+    };
+
+    const handleMainAction = () => {
+        if (selectionMode) {
+            onToggleSelect(item.id);
+        } else {
+            onToggleOpen(item.id);
+        }
+    };
+
+    const handlePlayAudio = async () => {
+        if (isAudioLoading) return;
+        setIsAudioLoading(true);
+
+        try {
+            let audioToPlay = item.audioBase64 ?? (await getHistoryAudio(item.id))[0];
+
+            if (!audioToPlay) {
+                const newAudioBase64 = await generateSpeech(reorderSentence(item));
+                if (newAudioBase64) {
+                    audioToPlay = newAudioBase64;
+                    onUpdate({ ...item, audioBase64: newAudioBase64 });
+                } else {
+                    throw new Error("Audio generation returned null.");
+                }
+            }
+
+            await playAudio(audioToPlay);
+        } catch (error) {
+            console.error("Failed to generate or play audio from history:", error);
+        } finally {
+            setIsAudioLoading(false);
+        }
+    };
+
+    const isStar = item.variant === ReorderVariant.Star;
+
+    return (
+        <div className={`border rounded-lg transition-all duration-200 ${isSelected ? 'border-blue-500 bg-slate-700/60' : 'border-slate-700 bg-slate-800/50'}`}>
+            <div role="button" onClick={handleMainAction} className={`w-full flex items-center p-4 text-left ${selectionMode ? 'cursor-pointer' : ''}`} aria-expanded={!selectionMode && isOpen}>
+                {selectionMode && (
+                    <div className="mr-4 flex-shrink-0">
+                         <div className={`w-6 h-6 border-2 rounded-full flex items-center justify-center ${isSelected ? 'bg-blue-500 border-blue-400' : 'border-slate-500 bg-slate-700'}`}>
+                            {isSelected && <CheckCircleIcon className="w-4 h-4 text-white" />}
+                        </div>
+                    </div>
+                )}
+                <div className="flex-1 pr-4 min-w-0">
+                    <p className="text-sm text-slate-400">{new Date(item.timestamp).toLocaleString()}</p>
+                    <p className="font-semibold text-lg text-slate-200 mt-1 truncate">{reorderSentence(item)}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    {item.isCorrect
+                        ? <CheckCircleIcon className="w-7 h-7 text-green-400" />
+                        : <XCircleIcon className="w-7 h-7 text-red-400" />
+                    }
+                    {!selectionMode && <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />}
+                </div>
+            </div>
+            {!selectionMode && isOpen && (
+                <div className="p-4 border-t border-slate-700 bg-slate-900/30 space-y-4 text-slate-300 animate-fade-in">
+                    <div>
+                        <strong className="text-slate-400">Your Order:</strong>
+                        {item.userOrder.length > 0 ? (
+                            <div className="flex flex-wrap gap-2 p-2 bg-slate-800 rounded mt-1" lang="ja">
+                                {item.userOrder.map((chunkIndex, slot) => {
+                                    const graded = !isStar || slot === item.starIndex;
+                                    const colors = !graded ? 'border-slate-600' : grade.correctSlots[slot] ? 'border-green-500/60 text-green-300' : 'border-red-500/60 text-red-300';
+                                    return <span key={slot} className={`px-2 py-0.5 rounded border ${colors}`}>{slot === item.starIndex && '★ '}{item.chunks[chunkIndex]}</span>;
+                                })}
+                            </div>
+                        ) : (
+                            <p className="p-2 bg-slate-800 rounded mt-1">(No answer provided)</p>
+                        )}
+                    </div>
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <strong className="text-slate-400">Correct Sentence:</strong>
+                             <button
+                                onClick={handlePlayAudio}
+                                disabled={isAudioLoading}
+                                className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait"
+                                aria-label="Play sentence audio"
+                            >
+                                {isAudioLoading
+                                    ? <div className="w-5 h-5 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div>
+                                    : <SpeakerWaveIcon className="w-5 h-5" />
+                                }
+                            </button>
+                        </div>
+                        <div className="p-2 bg-slate-800 rounded">
+                            <p className="text-lg" lang="ja">
+                                {item.before}
+                                {item.chunks.map((chunk, slot) => (
+                                    <span key={slot} className={slot === item.starIndex ? 'text-amber-300 underline underline-offset-4' : ''}>{chunk}</span>
+                                ))}
+                                {item.after}
+                            </p>
+                            <p className="text-slate-400 text-sm">{item.chineseTranslation}</p>
+                        </div>
+                    </div>
+                    {item.grammarPoint && <p className="text-sm text-purple-300"><strong>Grammar Focus:</strong> {item.grammarPoint.grammar_point}</p>}
+                    <div className="flex justify-between items-center pt-2 border-t border-slate-700/50">
+                        <p className="text-xs text-slate-500">{item.difficulty} | {item.sentenceLength} | Sentence Order ({isStar ? '★' : 'full'})</p>
+                        <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
+                            <TrashIcon className="w-4 h-4" />
+                            Delete
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface ExamHistoryCardProps {
+    item: ExamHistoryItem;
+    onDelete: (id: string) => void;
+    selectionMode: boolean;
+    isSelected: boolean;
+    onToggleSelect: (id: string) => void;
+    isOpen: boolean;
+    onToggleOpen: (id: string) => void;
+}
+
+const ExamHistoryCard: React.FC<ExamHistoryCardProps> = ({ item, onDelete, selectionMode, isSelected, onToggleSelect, isOpen, onToggleOpen }) => {
+    const summary = useMemo(() => summarizeExam(item.questions), [item.questions]);
+
+    const handleDelete = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (window.confirm('Are you sure you want to delete this record? This action cannot be undone.')) {
+            onDelete(item.id);
+        }
+    };
+
+    const handleMainAction = () => {
+        if (selectionMode) {
+            onToggleSelect(item.id);
+        } else {
+            onToggleOpen(item.id);
+        }
+    };
+
+    return (
+        <div className={`border rounded-lg transition-all duration-200 ${isSelected ? 'border-blue-500 bg-slate-700/60' : 'border-slate-700 bg-slate-800/50'}`}>
+            <div role="button" onClick={handleMainAction} className={`w-full flex items-center p-4 text-left ${selectionMode ? 'cursor-pointer' : ''}`} aria-expanded={!selectionMode && isOpen}>
+                {selectionMode && (
+                    <div className="mr-4 flex-shrink-0">
+                         <div className={`w-6 h-6 border-2 rounded-full flex items-center justify-center ${isSelected ? 'bg-blue-500 border-blue-400' : 'border-slate-500 bg-slate-700'}`}>
+                            {isSelected && <CheckCircleIcon className="w-4 h-4 text-white" />}
+                        </div>
+                    </div>
+                )}
+                <div className="flex-1 pr-4 min-w-0">
+                    <p className="text-sm text-slate-400">{new Date(item.timestamp).toLocaleString()}</p>
+                    <p className="font-semibold text-lg text-slate-200 mt-1 truncate">模擬試験 {item.difficulty} — {summary.correct} / {summary.total} 正解</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    <div className={`w-12 h-7 flex items-center justify-center rounded-md border ${getScoreColorClasses(summary.score)}`}>
+                        <span className="font-bold">{summary.score}</span>
+                    </div>
+                    {!selectionMode && <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />}
+                </div>
+            </div>
+            {!selectionMode && isOpen && (
+                <div className="p-4 border-t border-slate-700 bg-slate-900/30 space-y-4 text-slate-300 animate-fade-in">
+                    <ExamReport exam={item} />
+                    <div className="flex justify-between items-center pt-2 border-t border-slate-700/50">
+                        <p className="text-xs text-slate-500">{item.difficulty} | {item.sentenceLength} | Mock Exam</p>
+                        <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
+                            <TrashIcon className="w-4 h-4" />
+                            Delete
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface ConversationHistoryCardProps {
+    item: ConversationHistoryItem;
+    onUpdate: (item: ConversationHistoryItem) => void;
+    onDelete: (id: string) => void;
+    selectionMode: boolean;
+    isSelected: boolean;
+    onToggleSelect: (id: string) => void;
+    isOpen: boolean;
+    onToggleOpen: (id: string) => void;
+}
+
+const ConversationHistoryCard: React.FC<ConversationHistoryCardProps> = ({ item, onUpdate, onDelete, selectionMode, isSelected, onToggleSelect, isOpen, onToggleOpen }) => {
+    const [loadingIndex, setLoadingIndex] = useState<number | null>(null);
+    const scenarioLabel = conversationScenarioLabels[item.scenario];
+    const scores = item.turns.flatMap(turn => turn.speaker === ConversationSpeaker.Learner && typeof turn.feedback.score === 'number' ? [turn.feedback.score] : []);
+    const averageScore = scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null;
+
+    const handleDelete = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (window.confirm('Are you sure you want to delete this record? This action cannot be undone.')) {
+            onDelete(item.id);
+        }
+    };
+
+    const handleMainAction = () => {
+        if (selectionMode) {
+            onToggleSelect(item.id);
+        } else {
+            onToggleOpen(item.id);
+        }
+    };
+
+    const handlePlay = async (index: number) => {
+        const text = spokenText(item.turns[index]);
+        if (loadingIndex !== null || !text) return;
+        setLoadingIndex(index);
+
+        try {
+            const storedAudios = item.audiosBase64 ?? await getHistoryAudio(item.id);
+            let audioToPlay = storedAudios[index];
+            if (!audioToPlay) {
+                audioToPlay = await generateSpeech(text);
+                if (!audioToPlay) throw new Error("Audio generation returned null.");
+                const audiosBase64 = item.turns.map((_, i) => storedAudios[i] ?? null);
+                audiosBase64[index] = audioToPlay;
+                onUpdate({ ...item, audiosBase64 });
+            }
+
+            await playAudio(audioToPlay);
+        } catch (error) {
+            console.error("Failed to generate or play audio from history:", error);
+        } finally {
+            setLoadingIndex(null);
+        }
+    };
+
+    return (
+        <div className={`border rounded-lg transition-all duration-200 ${isSelected ? 'border-blue-500 bg-slate-700/60' : 'border-slate-700 bg-slate-800/50'}`}>
+            <div role="button" onClick={handleMainAction} className={`w-full flex items-center p-4 text-left ${selectionMode ? 'cursor-pointer' : ''}`} aria-expanded={!selectionMode && isOpen}>
+                {selectionMode && (
+                    <div className="mr-4 flex-shrink-0">
+                         <div className={`w-6 h-6 border-2 rounded-full flex items-center justify-center ${isSelected ? 'bg-blue-500 border-blue-400' : 'border-slate-500 bg-slate-700'}`}>
+                            {isSelected && <CheckCircleIcon className="w-4 h-4 text-white" />}
+                        </div>
+                    </div>
+                )}
+                <div className="flex-1 pr-4 min-w-0">
+                    <p className="text-sm text-slate-400">{new Date(item.timestamp).toLocaleString()}</p>
+                    <p className="font-semibold text-lg text-slate-200 mt-1 truncate">{scenarioLabel.title} — {scores.length} turns</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    <div className={`w-12 h-7 flex items-center justify-center rounded-md border ${getScoreColorClasses(averageScore)}`}>
+                        <span className="font-bold">{averageScore ?? '—'}</span>
+                    </div>
+                    {!selectionMode && <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />}
+                </div>
+            </div>
+            {!selectionMode && isOpen && (
+                <div className="p-4 border-t border-slate-700 bg-slate-900/30 space-y-4 text-slate-300 animate-fade-in">
+                    <ConversationTranscript turns={item.turns} onPlay={handlePlay} loadingIndex={loadingIndex} />
+                    <div className="flex justify-between items-center pt-2 border-t border-slate-700/50">
+                        <p className="text-xs text-slate-500">{item.difficulty} | {scenarioLabel.subtitle} | Conversation</p>
+                        <button onClick={handleDelete} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors p-1 rounded-md hover:bg-red-500/10">
+                            <TrashIcon className="w-4 h-4" />
+                            Delete
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// The study report covers whole local days, the last 30 by default.
+const StudyReportPanel: React.FC<{ history: HistoryItem[] }> = ({ history }) => {
+    const [from, setFrom] = useState(() => dayKey(Date.now() - 29 * 24 * 60 * 60 * 1000));
+    const [to, setTo] = useState(() => dayKey(Date.now()));
+
+    const range: ReportRange = {
+        from: new Date(`${from}T00:00:00`).getTime(),
+        to: new Date(`${to}T23:59:59.999`).getTime(),
+    };
+    const count = history.filter(item => item.timestamp >= range.from && item.timestamp <= range.to).length;
+
+    const handleDownload = (format: 'md' | 'html') => {
+        try {
+            if (format === 'md') {
+                downloadFile(studyReportMarkdown(history, range), `japanese_study_report_${from}_${to}.md`, 'text/markdown;charset=utf-8');
+            } else {
+                downloadFile(studyReportHtml(history, range), `japanese_study_report_${from}_${to}.html`, 'text/html;charset=utf-8');
+            }
+        } catch (error) {
+            console.error("Failed to export study report:", error);
+            alert("An error occurred while exporting the study report.");
+        }
+    };
+
+    return (
+        <div className="mb-4 p-3 border border-slate-700 rounded-lg bg-slate-900/30 flex items-center gap-3 flex-wrap text-sm">
+            <span className="text-slate-300 font-semibold">学習レポート (Study Report)</span>
+            <label className="flex items-center gap-2 text-slate-400">
+                From
+                <input type="date" value={from} max={to} onChange={e => setFrom(e.target.value)} className="p-1 bg-slate-900 border border-slate-600 rounded text-white" />
+            </label>
+            <label className="flex items-center gap-2 text-slate-400">
+                To
+                <input type="date" value={to} min={from} onChange={e => setTo(e.target.value)} className="p-1 bg-slate-900 border border-slate-600 rounded text-white" />
+            </label>
+            <span className="text-slate-500">{count} attempts</span>
+            <div className="flex items-center gap-2 ml-auto">
+                <button onClick={() => handleDownload('md')} disabled={count === 0} className="px-3 py-1.5 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed">
+                    Markdown
+                </button>
+                <button onClick={() => handleDownload('html')} disabled={count === 0} className="px-3 py-1.5 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed">
+                    HTML (印刷用)
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const filterControlClasses = "p-1.5 bg-slate-900 border border-slate-600 rounded text-white text-sm";
+
+const sortLabels: Record<HistorySortOrder, string> = {
+    newest: 'Newest first',
+    oldest: 'Oldest first',
+    highest: 'Highest score',
+    lowest: 'Lowest score',
+};
+
+interface HistoryFilterBarProps {
+    filters: HistoryFilters;
+    onChange: (filters: HistoryFilters) => void;
+    grammarPoints: GrammarPoint[];
+    shown: number;
+    total: number;
+}
+
+const HistoryFilterBar: React.FC<HistoryFilterBarProps> = ({ filters, onChange, grammarPoints, shown, total }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const update = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => onChange({ ...filters, [key]: value });
+    const scoreValue = (text: string, fallback: number) => (text === '' ? fallback : Math.min(100, Math.max(0, Number(text))));
+
+    return (
+        <div className="mb-4 space-y-2">
+            <div className="flex items-center gap-2">
+                <div className="relative flex-1">
+                    <input
+                        type="search"
+                        placeholder="Search history (prompt, answer, correction, explanation...)"
+                        aria-label="Search history"
+                        value={filters.query}
+                        onChange={e => update('query', e.target.value)}
+                        className="w-full p-2 pl-10 bg-slate-900 border-2 border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400 transition-colors"
+                    />
+                    <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+                </div>
+                <select value={filters.sort} onChange={e => update('sort', e.target.value as HistorySortOrder)} aria-label="Sort" className={filterControlClasses}>
+                    {(Object.keys(sortLabels) as HistorySortOrder[]).map(sort => <option key={sort} value={sort}>{sortLabels[sort]}</option>)}
+                </select>
+                <button
+                    onClick={() => setIsOpen(prev => !prev)}
+                    aria-expanded={isOpen}
+                    className="px-3 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors text-sm flex items-center gap-1"
+                >
+                    絞り込み (Filters)
+                    <ChevronDownIcon className={`w-4 h-4 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+                </button>
+            </div>
+            {isOpen && (
+                <div className="p-3 border border-slate-700 rounded-lg bg-slate-900/30 flex items-center gap-3 flex-wrap text-sm text-slate-400 animate-fade-in">
+                    <label className="flex items-center gap-2">
+                        Mode
+                        <select value={filters.mode} onChange={e => update('mode', e.target.value as HistoryFilters['mode'])} className={filterControlClasses}>
+                            <option value="ALL">All</option>
+                            {Object.values(GameMode).map(mode => <option key={mode} value={mode}>{modeLabels[mode]}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Level
+                        <select value={filters.level} onChange={e => update('level', e.target.value as HistoryFilters['level'])} className={filterControlClasses}>
+                            <option value="ALL">All</option>
+                            {Object.values(Difficulty).map(level => <option key={level} value={level}>{level}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Length
+                        <select value={filters.length} onChange={e => update('length', e.target.value as HistoryFilters['length'])} className={filterControlClasses}>
+                            <option value="ALL">All</option>
+                            {Object.values(SentenceLength).map(length => <option key={length} value={length}>{length}</option>)}
+                        </select>
+                    </label>
+                    <span className="flex items-center gap-2">
+                        Score
+                        <input type="number" min={0} max={filters.maxScore} value={filters.minScore} aria-label="Minimum score" onChange={e => update('minScore', scoreValue(e.target.value, 0))} className={`${filterControlClasses} w-16`} />
+                        –
+                        <input type="number" min={filters.minScore} max={100} value={filters.maxScore} aria-label="Maximum score" onChange={e => update('maxScore', scoreValue(e.target.value, 100))} className={`${filterControlClasses} w-16`} />
+                    </span>
+                    <label className="flex items-center gap-2">
+                        選択問題 (MCQ)
+                        <select value={filters.outcome} onChange={e => update('outcome', e.target.value as McqOutcome)} className={filterControlClasses}>
+                            <option value="ALL">All</option>
+                            <option value="correct">Correct</option>
+                            <option value="incorrect">Incorrect</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        文法 (Grammar)
+                        <select value={filters.grammarPoint} onChange={e => update('grammarPoint', e.target.value)} disabled={grammarPoints.length === 0} className={`${filterControlClasses} max-w-[14rem]`}>
+                            <option value="">All</option>
+                            {grammarPoints.map(point => (
+                                <option key={grammarPointKey(point)} value={grammarPointKey(point)}>{point.level} {point.grammar_point}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        From
+                        <input type="date" value={filters.from} max={filters.to || undefined} onChange={e => update('from', e.target.value)} className={filterControlClasses} />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        To
+                        <input type="date" value={filters.to} min={filters.from || undefined} onChange={e => update('to', e.target.value)} className={filterControlClasses} />
+                    </label>
+                </div>
+            )}
+            {isFiltering(filters) && (
+                <div className="flex items-center gap-3 text-sm">
+                    <span className="text-slate-400">{shown} / {total} records</span>
+                    <button onClick={() => onChange({ ...DEFAULT_HISTORY_FILTERS, sort: filters.sort })} className="text-purple-300 hover:text-purple-200 transition-colors">
+                        Clear filters
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const historyItemKey = (item: HistoryItem) => item.id;
+
+interface HistoryScreenProps {
+  history: HistoryItem[];
+  onUpdateHistoryItem: (item: HistoryItem) => void;
+  onImportHistory: (data: HistoryItem[]) => void;
+  onDeleteItem: (id: string) => void;
+  onDeleteMultipleItems: (ids: string[]) => void;
+  onViewStats: () => void;
+  onRetry: (item: RetryableHistoryItem) => void;
+}
+
+const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onUpdateHistoryItem, onImportHistory, onDeleteItem, onDeleteMultipleItems, onViewStats, onRetry }) => {
+    const [selectionMode, setSelectionMode] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [isRubricOpen, setIsRubricOpen] = useState(false);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [importPreview, setImportPreview] = useState<{ fileName: string; preview: ImportPreview } | null>(null);
+    const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_HISTORY_FILTERS);
+    // Kept here rather than in the cards, which unmount as they scroll out of view.
+    const [openIds, setOpenIds] = useState<Set<string>>(new Set());
+
+    const rubricAggregate = useMemo(() => aggregateRubricScores(history), [history]);
+    const attemptGroups = useMemo(() => groupAttempts(history), [history]);
+    const grammarPoints = useMemo(() => historyGrammarPoints(history), [history]);
+    const visibleHistory = useMemo(() => filterHistory(history, filters), [history, filters]);
+    // Selection actions only ever touch records the filters currently show.
+    const selectedVisible = useMemo(() => visibleHistory.filter(item => selectedIds.has(item.id)), [visibleHistory, selectedIds]);
+    const allVisibleSelected = visibleHistory.length > 0 && selectedVisible.length === visibleHistory.length;
+
+    // Cards share one audio player; leaving the screen silences it.
+    useEffect(() => stopAudio, []);
+
+    const handleToggleOpen = useCallback((id: string) => {
+        setOpenIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    }, []);
+
+    const handleToggleSelectionMode = () => {
+        setSelectionMode(prev => !prev);
+        setSelectedIds(new Set()); // Reset selection when toggling mode
+    };
+    
+    const handleToggleItemSelection = (id: string) => {
+        const newSelectedIds = new Set(selectedIds);
+        if (newSelectedIds.has(id)) {
+            newSelectedIds.delete(id);
+        } else {
+            newSelectedIds.add(id);
+        }
+        setSelectedIds(newSelectedIds);
+    };
+
+    const handleSelectAll = () => {
+        if (allVisibleSelected) {
+            setSelectedIds(new Set()); // Deselect all
+        } else {
+            setSelectedIds(new Set(visibleHistory.map(item => item.id))); // Select all shown
+        }
+    };
+    
+    const handleDeleteSelected = () => {
+        if (selectedVisible.length === 0) return;
+        if (window.confirm(`Are you sure you want to delete ${selectedVisible.length} selected records? This action cannot be undone.`)) {
+            onDeleteMultipleItems(selectedVisible.map(item => item.id));
+            setSelectionMode(false);
+            setSelectedIds(new Set());
+        }
+    };
+
+    // Translation and multiple choice items become notes, plus a note per grammar point they practised.
+    const handleExportAnki = async () => {
+        try {
+            const notes = buildAnkiNotes(await exportHistoryItems(selectedVisible));
+            if (notes.length === 0) {
+                alert("Only translation and multiple choice records can be exported to Anki.");
+                return;
+            }
+            const date = new Date().toISOString().split('T')[0];
+            downloadFile(buildAnkiPackage(notes), `japanese_practice_anki_${date}.zip`, 'application/zip');
+        } catch (error) {
+            console.error("Failed to export Anki deck:", error);
+            alert("An error occurred while exporting the Anki deck.");
+        }
+    };
+
+    const handleConfirmImport = () => {
+        if (!importPreview) return;
+        onImportHistory(importPreview.preview.newItems);
+        setImportPreview(null);
+    };
+
+    const handleExportCsv = () => {
+        try {
+            const date = new Date().toISOString().split('T')[0];
+            downloadFile(historyToCsv(history), `japanese_practice_history_${date}.csv`, 'text/csv;charset=utf-8');
+        } catch (error) {
+            console.error("Failed to export CSV:", error);
+            alert("An error occurred while exporting the CSV.");
+        }
+    };
+
+    const handleExport = async () => {
+        if (history.length === 0) {
+            alert("No history to export.");
+            return;
+        };
+        try {
+            // Re-attach the separately stored audio so the backup is self-contained.
+            const fullHistory = await exportHistory();
+            const jsonString = `data:text/json;charset=utf-8,${encodeURIComponent(
+                JSON.stringify(fullHistory, null, 2)
+            )}`;
+            const link = document.createElement("a");
+            link.href = jsonString;
+            const date = new Date().toISOString().split('T')[0];
+            link.download = `japanese_practice_history_${date}.json`;
+
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+        } catch (error) {
+            console.error("Failed to export history:", error);
+            alert("An error occurred while exporting the history.");
+        }
+    };
+
+    const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = async (e) => {
+            try {
+                const text = e.target?.result;
+                if (typeof text !== 'string') {
+                    throw new Error("Failed to read file content.");
+                }
+                // Nothing is written until the preview is confirmed.
+                setImportPreview({ fileName: file.name, preview: await previewHistoryImport(JSON.parse(text)) });
+            } catch (error) {
+                console.error("Failed to import history:", error);
+                alert(`Failed to import history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        };
+        reader.onerror = () => {
+             alert('Failed to read the file.');
+        };
+        reader.readAsText(file);
+        event.target.value = ''; // Reset file input to allow importing the same file again
+    };
+
+  return (
+    <div className="w-full h-full flex flex-col p-4 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in">
+      <header className="mb-4 flex justify-between items-center flex-wrap gap-2">
+        <div className="flex items-center gap-4">
+            <h2 className="text-3xl font-bold text-white">練習履歴</h2>
+            {selectionMode && <span className="text-slate-400 font-medium">{selectedVisible.length} selected</span>}
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+            {selectionMode ? (
+                <>
+                    <button 
+                        onClick={handleSelectAll} 
+                        className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors shadow-md"
+                    >
+                        {allVisibleSelected ? 'Deselect All' : 'Select All'}
+                    </button>
+                    <button
+                        onClick={handleExportAnki}
+                        disabled={selectedVisible.length === 0}
+                        className="px-4 py-2 bg-teal-600/80 hover:bg-teal-500 text-white font-semibold rounded-lg transition-colors shadow-md flex items-center disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                    >
+                        <ExportIcon className="w-5 h-5 mr-2" />
+                        <span>Anki</span>
+                    </button>
+                    <button 
+                        onClick={handleDeleteSelected} 
+                        disabled={selectedVisible.length === 0}
+                        aria-label="Delete selected items"
+                        className="p-2 bg-red-600/80 hover:bg-red-500 text-white font-semibold rounded-lg transition-colors shadow-md disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                    >
+                        <TrashIcon className="w-5 h-5" />
+                    </button>
+                    <button 
+                        onClick={handleToggleSelectionMode} 
+                        className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors shadow-md"
+                    >
+                        Cancel
+                    </button>
+                </>
+            ) : (
+                <>
+                    <button
+                        onClick={onViewStats}
+                        disabled={history.length === 0}
+                        className="px-4 py-2 bg-purple-600/80 hover:bg-purple-500 text-white font-semibold rounded-lg transition-colors shadow-md flex items-center disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                    >
+                        <ChartBarIcon className="w-5 h-5 mr-2" />
+                        <span>Stats</span>
+                    </button>
+                    <label className="cursor-pointer px-4 py-2 bg-sky-600/80 hover:bg-sky-500 text-white font-semibold rounded-lg transition-colors shadow-md flex items-center">
+                        <ImportIcon className="w-5 h-5 mr-2" />
+                        <span>Import</span>
+                        <input type="file" className="hidden" accept=".json" onChange={handleFileImport} />
+                    </label>
+                    <button 
+                        onClick={handleExport}
+                        disabled={history.length === 0}
+                        className="px-4 py-2 bg-teal-600/80 hover:bg-teal-500 text-white font-semibold rounded-lg transition-colors shadow-md flex items-center disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                    >
+                        <ExportIcon className="w-5 h-5 mr-2" />
+                        <span>Export</span>
+                    </button>
+                    <button
+                        onClick={handleExportCsv}
+                        disabled={history.length === 0}
+                        className="px-4 py-2 bg-teal-600/80 hover:bg-teal-500 text-white font-semibold rounded-lg transition-colors shadow-md disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                    >
+                        CSV
+                    </button>
+                    <button
+                        onClick={() => setIsReportOpen(prev => !prev)}
+                        disabled={history.length === 0}
+                        aria-expanded={isReportOpen}
+                        className="px-4 py-2 bg-teal-600/80 hover:bg-teal-500 text-white font-semibold rounded-lg transition-colors shadow-md disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                    >
+                        Report
+                    </button>
+                    {history.length > 0 && (
+                        <button 
+                            onClick={handleToggleSelectionMode} 
+                            className="px-4 py-2 bg-blue-600/80 hover:bg-blue-500 text-white font-semibold rounded-lg transition-colors shadow-md"
+                        >
+                            Select
                         </button>
                     )}
                 </>
             )}
         </div>
       </header>
-      <div className="flex-1 overflow-y-auto pr-2 space-y-3">
-        {history.length > 0 ? (
-          history.map(item => {
+      {importPreview && (
+        <ImportPreviewDialog
+          fileName={importPreview.fileName}
+          preview={importPreview.preview}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setImportPreview(null)}
+        />
+      )}
+      {isReportOpen && !selectionMode && <StudyReportPanel history={history} />}
+      {history.length > 0 && (
+        <HistoryFilterBar filters={filters} onChange={setFilters} grammarPoints={grammarPoints} shown={visibleHistory.length} total={history.length} />
+      )}
+      {rubricAggregate.weakest && (
+        <div className="mb-4 border border-slate-700 rounded-lg bg-slate-900/30">
+            <button
+                onClick={() => setIsRubricOpen(prev => !prev)}
+                className="w-full flex justify-between items-center p-3 text-left"
+                aria-expanded={isRubricOpen}
+            >
+                <span className="text-slate-300">
+                    最弱项 (Weakest): <strong className="text-red-300">{rubricAggregate.weakest}</strong>
+                    <span className="text-slate-500 text-sm ml-2">avg {Math.round(rubricAggregate.averages[rubricAggregate.weakest] as number)}</span>
+                </span>
+                <ChevronDownIcon className={`w-5 h-5 text-slate-400 transition-transform duration-300 ${isRubricOpen ? 'rotate-180' : ''}`} />
+            </button>
+            {isRubricOpen && (
+                <div className="p-3 border-t border-slate-700 animate-fade-in">
+                    <RubricBreakdown rubric={rubricAggregate.averages} counts={rubricAggregate.counts} highlight={rubricAggregate.weakest} />
+                </div>
+            )}
+        </div>
+      )}
+      {visibleHistory.length > 0 ? (
+        <VirtualList
+          items={visibleHistory}
+          getKey={historyItemKey}
+          className="flex-1 pr-2"
+          rowClassName="pb-3"
+          renderItem={item => {
             const cardProps = {
-                key: item.id,
                 selectionMode,
                 isSelected: selectedIds.has(item.id),
                 onToggleSelect: handleToggleItemSelection,
+                isOpen: openIds.has(item.id),
+                onToggleOpen: handleToggleOpen,
                 onUpdate: onUpdateHistoryItem,
                 onDelete: onDeleteItem,
             };
             if (item.gameMode === GameMode.Translation) {
-              return <TranslationHistoryCard item={item as TranslationHistoryItem} {...cardProps} />;
+              return <TranslationHistoryCard item={item as TranslationHistoryItem} attempts={attemptGroups.get(rootAttemptId(item)) ?? [item]} onRetry={onRetry} {...cardProps} />;
             }
             if (item.gameMode === GameMode.SentenceCheck) {
               return <SentenceCheckHistoryCard item={item as SentenceCheckHistoryItem} {...cardProps} />;
             }
-            return <MultipleChoiceHistoryCard item={item as MultipleChoiceHistoryItem} {...cardProps} />;
-          })
-        ) : (
-          <div className="flex items-center justify-center h-full">
-            <p className="text-center text-slate-400 text-lg">
-                練習履歴はありません。
-                <br />
-                Start a new practice session to see your history here.
-            </p>
-          </div>
-        )}
-      </div>
+            if (item.gameMode === GameMode.Dictation) {
+              return <DictationHistoryCard item={item as DictationHistoryItem} {...cardProps} />;
+            }
+            if (item.gameMode === GameMode.ReverseTranslation) {
+              return <ReverseTranslationHistoryCard item={item as ReverseTranslationHistoryItem} {...cardProps} />;
+            }
+            if (item.gameMode === GameMode.Cloze) {
+              return <ClozeHistoryCard item={item as ClozeHistoryItem} {...cardProps} />;
+            }
+            if (item.gameMode === GameMode.Reorder) {
+              return <ReorderHistoryCard item={item as ReorderHistoryItem} {...cardProps} />;
+            }
+            if (item.gameMode === GameMode.Exam) {
+              return <ExamHistoryCard item={item as ExamHistoryItem} {...cardProps} />;
+            }
+            if (item.gameMode === GameMode.Conversation) {
+              return <ConversationHistoryCard item={item as ConversationHistoryItem} {...cardProps} />;
+            }
+            return <MultipleChoiceHistoryCard item={item as MultipleChoiceHistoryItem} attempts={attemptGroups.get(rootAttemptId(item as MultipleChoiceHistoryItem)) ?? [item as MultipleChoiceHistoryItem]} onRetry={onRetry} {...cardProps} />;
+          }}
+        />
+      ) : history.length > 0 ? (
+        <p className="flex-1 text-center text-slate-400 mt-8">条件に一致する履歴はありません。</p>
+      ) : (
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-center text-slate-400 text-lg">
+              練習履歴はありません。
+              <br />
+              Start a new practice session to see your history here.
+          </p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import React from 'react';
+import { ImportPreview, MAX_IMPORT_ITEMS } from '../services/historyService';
+
+interface ImportPreviewDialogProps {
+  fileName: string;
+  preview: ImportPreview;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Invalid entries listed in full; the rest are only counted.
+const MAX_LISTED_INVALID = 20;
+
+const Count: React.FC<{ label: string; value: number; className: string }> = ({ label, value, className }) => (
+  <div className="p-3 rounded-lg bg-slate-900/40 border border-slate-700 text-center">
+    <p className={`text-2xl font-bold ${className}`}>{value}</p>
+    <p className="text-xs text-slate-400">{label}</p>
+  </div>
+);
+
+const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({ fileName, preview, onConfirm, onCancel }) => {
+  const { newItems, duplicates, invalid, dropped } = preview;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-preview-title"
+        className="w-full max-w-lg max-h-[85vh] flex flex-col gap-4 p-6 bg-slate-800 border border-slate-700 rounded-2xl shadow-xl animate-fade-in"
+      >
+        <div>
+          <h3 id="import-preview-title" className="text-xl font-bold text-white">インポートの確認 (Import Preview)</h3>
+          <p className="text-sm text-slate-400 truncate">{fileName}</p>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          <Count label="New" value={newItems.length} className="text-green-300" />
+          <Count label="Duplicates" value={duplicates} className="text-slate-300" />
+          <Count label="Invalid" value={invalid.length} className="text-red-300" />
+          <Count label="Over the cap" value={dropped} className="text-yellow-300" />
+        </div>
+        {dropped > 0 && (
+          <p className="text-sm text-yellow-200">
+            一度にインポートできるのは {MAX_IMPORT_ITEMS} 件までです。古い {dropped} 件は追加されません。
+          </p>
+        )}
+        {invalid.length > 0 && (
+          <div className="flex-1 overflow-y-auto min-h-0">
+            <p className="text-sm text-slate-300 mb-2">以下の項目は形式が正しくないため、スキップされます:</p>
+            <ul className="space-y-2 text-sm" aria-label="Invalid items">
+              {invalid.slice(0, MAX_LISTED_INVALID).map(({ index, id, reasons }) => (
+                <li key={index} className="p-2 rounded bg-red-900/20 border border-red-500/30">
+                  <p className="text-red-200 font-semibold">#{index + 1}{id ? ` (${id})` : ''}</p>
+                  <ul className="list-disc list-inside text-slate-300">
+                    {reasons.slice(0, 3).map(reason => <li key={reason}>{reason}</li>)}
+                    {reasons.length > 3 && <li className="text-slate-500">…and {reasons.length - 3} more</li>}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+            {invalid.length > MAX_LISTED_INVALID && (
+              <p className="text-xs text-slate-500 mt-2">…and {invalid.length - MAX_LISTED_INVALID} more invalid items</p>
+            )}
+          </div>
+        )}
+        <div className="flex justify-end gap-2 pt-2 border-t border-slate-700">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={newItems.length === 0}
+            className="px-4 py-2 bg-sky-600 hover:bg-sky-500 text-white font-semibold rounded-lg transition-colors disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+          >
+            インポート (Import {newItems.length})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewDialog;
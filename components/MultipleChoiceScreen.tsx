@@ -6,7 +6,8 @@ import { XCircleIcon } from './icons/XCircleIcon';
 import MarkdownRenderer from './MarkdownRenderer';
 import { InformationCircleIcon } from './icons/InformationCircleIcon';
 import { SpeakerWaveIcon } from './icons/SpeakerWaveIcon';
-import { generateSpeech, decode, decodeAudioData } from '../services/geminiService';
+import { generateSpeech, decodeAudioData } from '../services/geminiService';
+import { decode } from '../services/base64';
 
 interface MultipleChoiceScreenProps {
   task: MultipleChoiceTask;
@@ -0,0 +1,19 @@
+import React from 'react';
+import { NuanceVerdict } from '../types';
+
+interface NuanceBadgeProps {
+  nuance: NuanceVerdict;
+}
+
+const nuanceStyles: Record<NuanceVerdict, { label: string; classes: string }> = {
+  [NuanceVerdict.Understood]: { label: '语感已理解 (Nuance understood)', classes: 'bg-green-500/20 text-green-300 border-green-500/30' },
+  [NuanceVerdict.Partial]: { label: '部分理解 (Partly understood)', classes: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30' },
+  [NuanceVerdict.Missed]: { label: '未能理解 (Nuance missed)', classes: 'bg-red-500/20 text-red-300 border-red-500/30' },
+};
+
+const NuanceBadge: React.FC<NuanceBadgeProps> = ({ nuance }) => {
+  const { label, classes } = nuanceStyles[nuance];
+  return <span className={`inline-block px-3 py-1 rounded-md border text-sm font-semibold ${classes}`}>{label}</span>;
+};
+
+export default NuanceBadge;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { SentenceFeedback, SpeechStyle } from '../types';
+import MarkdownRenderer from './MarkdownRenderer';
+import SentenceDiff from './SentenceDiff';
+import { hasMixedStyles } from '../services/paragraphService';
+
+interface ParagraphBreakdownProps {
+  sentences: SentenceFeedback[];
+}
+
+const styleLabels: Record<SpeechStyle, string> = {
+  [SpeechStyle.Polite]: 'です・ます体',
+  [SpeechStyle.Plain]: '普通体',
+};
+
+const getScoreClasses = (score: number | null) => {
+  if (score === null) return 'bg-slate-500/20 text-slate-300 border-slate-500/30';
+  if (score >= 80) return 'bg-green-500/20 text-green-300 border-green-500/30';
+  if (score >= 50) return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
+  return 'bg-red-500/20 text-red-300 border-red-500/30';
+};
+
+const ParagraphBreakdown: React.FC<ParagraphBreakdownProps> = ({ sentences }) => (
+  <div className="space-y-3">
+    {hasMixedStyles(sentences) && (
+      <p className="p-3 rounded-lg bg-yellow-900/30 border border-yellow-500/40 text-yellow-200 text-sm" role="note">
+        です・ます体と普通体が混在しています。(Polite and plain forms are mixed.)
+      </p>
+    )}
+    <ol className="space-y-3" aria-label="Sentence breakdown">
+      {sentences.map((sentence, index) => (
+        <li key={index} className="p-3 rounded-lg bg-slate-900/40 border border-slate-700 space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-slate-400">第 {index + 1} 文</span>
+            <span className={`px-2 rounded border font-bold ${getScoreClasses(sentence.score)}`}>{sentence.score ?? '—'}</span>
+            <span className="text-slate-300">{sentence.evaluation}</span>
+            {sentence.style && <span className="ml-auto px-2 rounded-full border border-slate-600 text-xs text-slate-400">{styleLabels[sentence.style]}</span>}
+          </div>
+          <p className="text-slate-400" lang="ja">{sentence.sentence}</p>
+          {sentence.correctedSentence !== sentence.sentence && (
+            <div className="p-2 bg-slate-800 rounded">
+              <SentenceDiff userSentence={sentence.sentence} correctedSentence={sentence.correctedSentence} fixes={sentence.fixes} />
+            </div>
+          )}
+          {sentence.explanation && (
+            <div className="text-slate-200 text-sm">
+              <MarkdownRenderer markdown={sentence.explanation} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default ParagraphBreakdown;
@@ -1,20 +1,63 @@
 import React, { useState } from 'react';
-import { SentenceTask } from '../types';
+import { Difficulty, SentenceTask, TranslationHints } from '../types';
+import { generateTranslationHints } from '../services/geminiService';
+import { HintStage, MAX_HINTS, hintPenalty, hintStageLabels } from '../services/hintService';
 import { InformationCircleIcon } from './icons/InformationCircleIcon';
+import { LightBulbIcon } from './icons/LightBulbIcon';
 
 interface PracticeScreenProps {
   task: SentenceTask;
-  onCheck: (sentence: string) => void;
+  difficulty: Difficulty;
+  onCheck: (sentence: string, hintsUsed: number) => void;
 }
 
-const PracticeScreen: React.FC<PracticeScreenProps> = ({ task, onCheck }) => {
+const HintContent: React.FC<{ stage: HintStage; hints: TranslationHints }> = ({ stage, hints }) => {
+  if (stage === HintStage.Vocabulary) {
+    return (
+      <ul className="flex flex-wrap gap-2">
+        {hints.vocabulary.map(entry => (
+          <li key={entry.word} className="px-3 py-1 rounded-lg bg-slate-800 border border-slate-600">
+            <ruby lang="ja" className="text-white">{entry.word}<rt className="text-xs text-slate-400">{entry.reading}</rt></ruby>
+            <span className="ml-2 text-sm text-slate-400">{entry.meaning}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  return <p className="text-lg text-white tracking-wide" lang="ja">{stage === HintStage.Skeleton ? hints.skeleton : hints.firstChunk}</p>;
+};
+
+const PracticeScreen: React.FC<PracticeScreenProps> = ({ task, difficulty, onCheck }) => {
   const [sentence, setSentence] = useState('');
+  const [hints, setHints] = useState<TranslationHints | null>(null);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [isHintLoading, setIsHintLoading] = useState(false);
+  const [hintError, setHintError] = useState<string | null>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (sentence.trim()) {
-      onCheck(sentence.trim());
+      onCheck(sentence.trim(), hintsUsed);
+    }
+  };
+
+  // Hints are generated on the first request; later requests only reveal the next stage.
+  const handleHint = async () => {
+    if (hintsUsed >= MAX_HINTS || isHintLoading) return;
+    if (!hints) {
+      setIsHintLoading(true);
+      setHintError(null);
+      try {
+        setHints(await generateTranslationHints(task, difficulty));
+      } catch (err) {
+        console.error("Failed to generate hints:", err);
+        setHintError('提示生成失败，请稍后再试。');
+        return;
+      } finally {
+        setIsHintLoading(false);
+      }
     }
+    setHintsUsed(prev => prev + 1);
   };
 
   return (
@@ -38,6 +81,16 @@ const PracticeScreen: React.FC<PracticeScreenProps> = ({ task, onCheck }) => {
             <h3 className="text-3xl font-bold text-white tracking-wider">{task.chineseSentence}</h3>
           </div>
         </div>
+        {hints && hintsUsed > 0 && (
+          <ol className="mb-4 space-y-3" aria-label="Hints">
+            {Array.from({ length: hintsUsed }, (_, index) => (index + 1) as HintStage).map(stage => (
+              <li key={stage} className="p-3 rounded-lg bg-amber-900/20 border border-amber-500/30 space-y-2 animate-fade-in">
+                <p className="text-sm text-amber-300 font-semibold">{hintStageLabels[stage]}</p>
+                <HintContent stage={stage} hints={hints} />
+              </li>
+            ))}
+          </ol>
+        )}
         <form onSubmit={handleSubmit}>
           <textarea
             value={sentence}
@@ -46,15 +99,26 @@ const PracticeScreen: React.FC<PracticeScreenProps> = ({ task, onCheck }) => {
             rows={4}
             className="w-full p-4 bg-slate-900 border-2 border-slate-600 rounded-lg text-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-colors"
           />
-          <div className="text-center mt-2">
+          <div className="flex items-center justify-center gap-4 mt-2">
+            <button
+              type="button"
+              onClick={handleHint}
+              disabled={hintsUsed >= MAX_HINTS || isHintLoading}
+              className="flex items-center gap-1 text-sm text-amber-300 hover:text-amber-200 transition-colors py-1 disabled:text-slate-500 disabled:cursor-not-allowed"
+            >
+              <LightBulbIcon className="w-4 h-4" />
+              {isHintLoading ? '生成中...' : `提示 (Hint) ${hintsUsed}/${MAX_HINTS}`}
+            </button>
+            {hintsUsed > 0 && <span className="text-xs text-slate-500">−{hintPenalty(hintsUsed)} 分</span>}
             <button
               type="button"
-              onClick={() => onCheck('')}
+              onClick={() => onCheck('', hintsUsed)}
               className="text-sm text-slate-400 hover:text-teal-300 transition-colors py-1"
             >
               不确定？点击查看答案
             </button>
           </div>
+          {hintError && <p className="text-center text-sm text-red-300">{hintError}</p>}
           <button
             type="submit"
             disabled={!sentence.trim()}
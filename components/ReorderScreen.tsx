@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ReorderTask, ReorderVariant } from '../types';
+import { InformationCircleIcon } from './icons/InformationCircleIcon';
+import { SpeakerWaveIcon } from './icons/SpeakerWaveIcon';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
+import { XCircleIcon } from './icons/XCircleIcon';
+import { generateSpeech } from '../services/geminiService';
+import { playAudio, stopAudio } from '../services/audioPlaybackService';
+import { gradeReorder, reorderSentence, shuffleChunks, ReorderGrade } from '../services/reorderService';
+
+interface ReorderScreenProps {
+  task: ReorderTask;
+  variant: ReorderVariant;
+  onVariantChange: (variant: ReorderVariant) => void;
+  onNext: () => void;
+  onComplete: (userOrder: number[], grade: ReorderGrade, audioBase64: string | null) => void;
+}
+
+const DRAG_TYPE = 'application/x-reorder-chunk';
+
+const chunkButtonClass = "px-3 py-2 rounded-lg border-2 text-lg font-semibold transition-colors cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-teal-300";
+
+const ReorderScreen: React.FC<ReorderScreenProps> = ({ task, variant, onVariantChange, onNext, onComplete }) => {
+  const shuffled = useMemo(() => shuffleChunks(task.chunks), [task.chunks]);
+  const [slots, setSlots] = useState<(number | null)[]>(() => task.chunks.map(() => null));
+  const [grade, setGrade] = useState<ReorderGrade | null>(null);
+  const [audioBase64, setAudioBase64] = useState<string | null>(null);
+  const [isAudioLoading, setIsAudioLoading] = useState(false);
+  const slotRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  // Slot to focus after a keyboard move, once the buttons have re-rendered.
+  const [focusSlot, setFocusSlot] = useState<number | null>(null);
+
+  useEffect(() => stopAudio, []);
+
+  useEffect(() => {
+    if (focusSlot !== null) {
+      slotRefs.current[focusSlot]?.focus();
+      setFocusSlot(null);
+    }
+  }, [focusSlot, slots]);
+
+  const pool = shuffled.filter(chunkIndex => !slots.includes(chunkIndex));
+  const isComplete = slots.every(slot => slot !== null);
+
+  // Puts a chunk into a slot (the first empty one by default), swapping with whatever is there.
+  const placeChunk = (chunkIndex: number, targetSlot?: number) => {
+    setSlots(prev => {
+      const next = [...prev];
+      const target = targetSlot ?? next.indexOf(null);
+      if (target === -1) return prev;
+      const currentSlot = next.indexOf(chunkIndex);
+      if (currentSlot !== -1) next[currentSlot] = next[target];
+      next[target] = chunkIndex;
+      return next;
+    });
+  };
+
+  const removeChunk = (slot: number) => {
+    setSlots(prev => prev.map((chunkIndex, i) => (i === slot ? null : chunkIndex)));
+  };
+
+  const moveChunk = (slot: number, delta: number) => {
+    const target = slot + delta;
+    if (target < 0 || target >= slots.length) return;
+    setSlots(prev => {
+      const next = [...prev];
+      [next[slot], next[target]] = [next[target], next[slot]];
+      return next;
+    });
+    setFocusSlot(target);
+  };
+
+  const handleSlotKeyDown = (e: React.KeyboardEvent, slot: number) => {
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      moveChunk(slot, e.key === 'ArrowLeft' ? -1 : 1);
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      removeChunk(slot);
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, chunkIndex: number) => {
+    e.dataTransfer.setData(DRAG_TYPE, String(chunkIndex));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const readDraggedChunk = (e: React.DragEvent): number | null => {
+    const data = e.dataTransfer.getData(DRAG_TYPE);
+    return data === '' ? null : Number(data);
+  };
+
+  const handleDropOnSlot = (e: React.DragEvent, slot: number) => {
+    e.preventDefault();
+    const chunkIndex = readDraggedChunk(e);
+    if (chunkIndex !== null) placeChunk(chunkIndex, slot);
+  };
+
+  const handleDropOnPool = (e: React.DragEvent) => {
+    e.preventDefault();
+    const chunkIndex = readDraggedChunk(e);
+    const slot = chunkIndex === null ? -1 : slots.indexOf(chunkIndex);
+    if (slot !== -1) removeChunk(slot);
+  };
+
+  const handleCheck = async (userOrder: number[]) => {
+    const result = gradeReorder(task, userOrder, variant);
+    setGrade(result);
+
+    setIsAudioLoading(true);
+    let audio: string | null = null;
+    try {
+      audio = await generateSpeech(reorderSentence(task));
+    } catch (error) {
+      console.error("Audio generation failed:", error);
+    }
+    setAudioBase64(audio);
+    setIsAudioLoading(false);
+    onComplete(userOrder, result, audio);
+  };
+
+  const handlePlayAudio = async () => {
+    if (isAudioLoading || !audioBase64) return;
+    setIsAudioLoading(true);
+    try {
+      await playAudio(audioBase64);
+    } catch (error) {
+      console.error("Failed to play reorder audio:", error);
+    } finally {
+      setIsAudioLoading(false);
+    }
+  };
+
+  const getSlotClasses = (slot: number) => {
+    if (grade) {
+      const graded = variant === ReorderVariant.FullOrder || slot === task.starIndex;
+      if (!graded) return 'bg-slate-700/50 border-slate-600 text-slate-300';
+      return grade.correctSlots[slot] ? 'bg-green-500/20 border-green-500/60 text-green-200' : 'bg-red-500/20 border-red-500/60 text-red-200';
+    }
+    return 'bg-slate-700 border-slate-500 text-white hover:border-teal-400';
+  };
+
+  return (
+    <div className="w-full p-6 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in flex flex-col gap-6">
+      <div className="flex justify-center gap-2" role="group" aria-label="Question type">
+        {[
+          { value: ReorderVariant.Star, label: '★ 問題 (JLPT)' },
+          { value: ReorderVariant.FullOrder, label: '全部並べる (Full order)' },
+        ].map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onVariantChange(value)}
+            disabled={grade !== null}
+            aria-pressed={variant === value}
+            className={`px-4 py-1.5 text-sm font-semibold rounded-full border-2 transition-colors disabled:cursor-not-allowed ${variant === value ? 'bg-teal-400 border-teal-400 text-gray-900' : 'bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-600/50 disabled:opacity-50'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-center">
+        <p className="text-lg text-slate-400">
+          {variant === ReorderVariant.Star ? '★に入るものはどれですか。語句を並べて答えてください。' : '語句を正しい順番に並べてください。'}
+        </p>
+        <p className="text-slate-500 mt-1">{task.chineseTranslation}</p>
+      </div>
+
+      <div className="p-4 bg-slate-900/50 rounded-lg flex flex-wrap items-center justify-center gap-2 text-xl text-white" lang="ja" role="group" aria-label="Answer slots">
+        {task.before && <span>{task.before}</span>}
+        {slots.map((chunkIndex, slot) => (
+          <div
+            key={slot}
+            onDragOver={(e) => { if (!grade) e.preventDefault(); }}
+            onDrop={(e) => !grade && handleDropOnSlot(e, slot)}
+            className="relative min-w-[4.5rem] min-h-[3rem] flex items-center justify-center border-b-2 border-slate-500"
+          >
+            {slot === task.starIndex && (
+              <span className="absolute -top-3 left-1/2 -translate-x-1/2 text-amber-300 text-sm" aria-label="star slot">★</span>
+            )}
+            {chunkIndex !== null ? (
+              <button
+                ref={(el) => { slotRefs.current[slot] = el; }}
+                draggable={!grade}
+                onDragStart={(e) => handleDragStart(e, chunkIndex)}
+                onClick={() => removeChunk(slot)}
+                onKeyDown={(e) => handleSlotKeyDown(e, slot)}
+                disabled={grade !== null}
+                aria-label={`${task.chunks[chunkIndex]} (slot ${slot + 1})`}
+                className={`${chunkButtonClass} ${getSlotClasses(slot)} disabled:cursor-default`}
+              >
+                {task.chunks[chunkIndex]}
+              </button>
+            ) : (
+              <span className="text-slate-600">＿＿</span>
+            )}
+          </div>
+        ))}
+        {task.after && <span>{task.after}</span>}
+      </div>
+
+      {grade === null ? (
+        <>
+          <div
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDropOnPool}
+            className="min-h-[4rem] p-3 border-2 border-dashed border-slate-600 rounded-lg flex flex-wrap items-center justify-center gap-2"
+            aria-label="Chunks"
+          >
+            {pool.length > 0 ? pool.map(chunkIndex => (
+              <button
+                key={chunkIndex}
+                draggable
+                onDragStart={(e) => handleDragStart(e, chunkIndex)}
+                onClick={() => placeChunk(chunkIndex)}
+                lang="ja"
+                className={`${chunkButtonClass} bg-slate-800 border-slate-600 text-slate-100 hover:border-teal-400`}
+              >
+                {task.chunks[chunkIndex]}
+              </button>
+            )) : (
+              <span className="text-sm text-slate-500">すべて並べました。</span>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 text-center -mt-4">
+            クリック・Enter で空欄に入れる／ドラッグで好きな位置へ。並べた語句は ← → で移動、Delete またはクリックで戻せます。
+          </p>
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => handleCheck([])}
+              className="text-sm text-slate-400 hover:text-teal-300 transition-colors py-1"
+            >
+              不确定？点击查看答案
+            </button>
+          </div>
+          <button
+            onClick={() => handleCheck(slots as number[])}
+            disabled={!isComplete}
+            className="w-full px-8 py-3 bg-gradient-to-r from-blue-500 to-teal-400 text-white font-bold rounded-full hover:scale-105 transform transition-transform duration-300 focus:outline-none focus:ring-4 focus:ring-teal-300/50 shadow-lg disabled:bg-gray-600 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:scale-100"
+          >
+            Check Order
+          </button>
+        </>
+      ) : (
+        <>
+          <div className="p-4 bg-slate-900/40 border border-slate-700 rounded-lg animate-fade-in space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className={`text-lg font-semibold flex items-center gap-2 ${grade.isCorrect ? 'text-green-300' : 'text-red-300'}`}>
+                {grade.isCorrect ? <CheckCircleIcon className="w-6 h-6" /> : <XCircleIcon className="w-6 h-6" />}
+                {grade.isCorrect ? '正解！ (Correct)' : '不正解 (Incorrect)'}
+              </h3>
+              <button
+                onClick={handlePlayAudio}
+                disabled={isAudioLoading || !audioBase64}
+                className="p-1.5 rounded-full text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait"
+                aria-label="Play sentence audio"
+              >
+                {isAudioLoading
+                  ? <div className="w-5 h-5 border-2 border-t-2 border-gray-400 border-t-white rounded-full animate-spin"></div>
+                  : <SpeakerWaveIcon className="w-5 h-5" />
+                }
+              </button>
+            </div>
+            <div>
+              <p className="text-sm text-slate-400 mb-1">正しい文 (Correct sentence):</p>
+              <p className="text-xl text-white" lang="ja">
+                {task.before}
+                {task.chunks.map((chunk, slot) => (
+                  <span key={slot} className={slot === task.starIndex ? 'text-amber-300 underline underline-offset-4' : ''}>{chunk}</span>
+                ))}
+                {task.after}
+              </p>
+              <p className="text-sm text-slate-400 mt-1">★ = {task.chunks[task.starIndex]}</p>
+            </div>
+          </div>
+          {task.grammarPoint && (
+            <div className="p-4 bg-slate-900/40 border border-slate-700 rounded-lg animate-fade-in">
+              <div className="flex items-start gap-3">
+                <InformationCircleIcon className="w-6 h-6 text-purple-400 mt-0.5 shrink-0" />
+                <div>
+                  <p className="text-sm text-purple-300 font-semibold">文法フォーカス (Grammar Focus)</p>
+                  <p className="text-lg font-bold text-white mt-1">{task.grammarPoint.grammar_point}</p>
+                  <p className="text-slate-400 text-sm">{task.grammarPoint.meaning_cn}</p>
+                </div>
+              </div>
+            </div>
+          )}
+          <button
+            onClick={onNext}
+            disabled={isAudioLoading && !audioBase64}
+            className="w-full px-8 py-3 bg-gradient-to-r from-blue-500 to-teal-400 text-white font-bold rounded-full hover:scale-105 transform transition-transform duration-300 focus:outline-none focus:ring-4 focus:ring-teal-300/50 shadow-lg disabled:bg-gray-600 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:scale-100"
+          >
+            次の問題 (Next Question)
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReorderScreen;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { RubricDimension, RubricScores } from '../types';
+
+interface RubricBreakdownProps {
+  rubric: RubricScores;
+  // Number of graded attempts behind each value, shown when the rubric is an aggregate.
+  counts?: Partial<Record<RubricDimension, number>>;
+  highlight?: RubricDimension | null;
+}
+
+const getBarColor = (score: number) => {
+  if (score >= 80) return 'bg-green-400';
+  if (score >= 50) return 'bg-yellow-400';
+  return 'bg-red-400';
+};
+
+const RubricBreakdown: React.FC<RubricBreakdownProps> = ({ rubric, counts, highlight }) => {
+  const dimensions = Object.values(RubricDimension).filter(dimension => rubric[dimension] !== undefined);
+
+  if (dimensions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-2" aria-label="Score breakdown">
+      {dimensions.map(dimension => {
+        const score = rubric[dimension] as number;
+        return (
+          <li key={dimension} className={`grid grid-cols-[6rem_1fr_2.5rem] items-center gap-3 text-sm ${highlight === dimension ? 'text-red-300 font-semibold' : 'text-slate-300'}`}>
+            <span className="truncate">{dimension}</span>
+            <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+              <div className={`h-full rounded-full ${getBarColor(score)}`} style={{ width: `${score}%` }} />
+            </div>
+            <span className="text-right tabular-nums" title={counts?.[dimension] !== undefined ? `${counts[dimension]} graded attempts` : undefined}>
+              {Math.round(score)}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default RubricBreakdown;
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { splitSentences } from '../services/paragraphService';
 
 interface SentenceCheckScreenProps {
   onCheck: (sentence: string) => void;
@@ -6,6 +7,7 @@ interface SentenceCheckScreenProps {
 
 const SentenceCheckScreen: React.FC<SentenceCheckScreenProps> = ({ onCheck }) => {
   const [sentence, setSentence] = useState('');
+  const sentenceCount = splitSentences(sentence).length;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -18,7 +20,7 @@ const SentenceCheckScreen: React.FC<SentenceCheckScreenProps> = ({ onCheck }) =>
     <div className="w-full p-6 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in flex flex-col gap-6">
       <div>
         <div className="text-center">
-          <p className="text-lg text-slate-400">Enter a Japanese sentence to check:</p>
+          <p className="text-lg text-slate-400">Enter a Japanese sentence or paragraph to check:</p>
           <div className="my-4">
             <h3 className="text-2xl font-bold text-white tracking-wider">文章表現チェック</h3>
           </div>
@@ -32,6 +34,9 @@ const SentenceCheckScreen: React.FC<SentenceCheckScreenProps> = ({ onCheck }) =>
             className="w-full p-4 bg-slate-900 border-2 border-slate-600 rounded-lg text-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-colors"
             aria-label="Japanese sentence input"
           />
+          {sentenceCount > 1 && (
+            <p className="text-sm text-slate-400 mt-2">{sentenceCount} 文 — 一文ずつ添削し、段落全体の流れも評価します。(Checked sentence by sentence, plus overall coherence)</p>
+          )}
           <button
             type="submit"
             disabled={!sentence.trim()}
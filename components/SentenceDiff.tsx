@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { CorrectionNote } from '../types';
+import { diffJapanese, attachCorrectionNotes, DiffSpan } from '../services/japaneseDiff';
+
+interface SentenceDiffProps {
+  userSentence?: string;
+  correctedSentence?: string;
+  fixes?: CorrectionNote[];
+  // Already graded spans (e.g. a dictation result) to show instead of diffing the two sentences.
+  spans?: DiffSpan[];
+}
+
+const SentenceDiff: React.FC<SentenceDiffProps> = ({ userSentence = '', correctedSentence = '', fixes, spans: gradedSpans }) => {
+  const spans = useMemo(
+    () => gradedSpans ?? attachCorrectionNotes(diffJapanese(userSentence, correctedSentence), fixes ?? []),
+    [gradedSpans, userSentence, correctedSentence, fixes]
+  );
+
+  const hasChanges = spans.some(span => span.op !== 'equal');
+
+  return (
+    <div>
+      <p className="text-lg leading-relaxed text-slate-200" aria-label="Differences between your sentence and the correction">
+        {spans.map((span, index) => {
+          if (span.op === 'equal') {
+            return <span key={index}>{span.after}</span>;
+          }
+          return (
+            <span
+              key={index}
+              title={span.reason || undefined}
+              className={span.reason ? 'cursor-help underline decoration-dotted decoration-slate-400 underline-offset-4' : undefined}
+            >
+              {span.before && <del className="bg-red-500/20 text-red-300 rounded px-0.5">{span.before}</del>}
+              {span.after && <ins className="no-underline bg-green-500/20 text-green-300 rounded px-0.5">{span.after}</ins>}
+            </span>
+          );
+        })}
+      </p>
+      <p className="text-xs text-slate-500 mt-2">
+        {hasChanges
+          ? <><span className="text-red-300">赤</span>: 削除 · <span className="text-green-300">緑</span>: 追加{fixes?.length ? ' · 下線にカーソルを合わせると理由を表示' : ''}</>
+          : '修正なし (No changes)'}
+      </p>
+    </div>
+  );
+};
+
+export default SentenceDiff;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ProviderConfig, ProviderKind } from '../types';
+import { getDefaultProviderConfig } from '../services/aiProvider';
+
+interface SettingsScreenProps {
+  config: ProviderConfig;
+  onSave: (config: ProviderConfig) => void;
+}
+
+const providerOptions = [
+  { kind: ProviderKind.Gemini, label: 'Gemini', description: 'Google Gemini (GEMINI_API_KEY)' },
+  { kind: ProviderKind.OpenAICompatible, label: 'OpenAI-compatible', description: 'OpenAI, Ollama, llama.cpp, LM Studio...' },
+  { kind: ProviderKind.Mock, label: 'Mock (offline)', description: 'Canned responses for development, no AI needed' },
+];
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ config, onSave }) => {
+  const [draft, setDraft] = useState<ProviderConfig>(config);
+
+  const updateField = (field: keyof Omit<ProviderConfig, 'kind'>) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  const inputClass = "w-full p-3 bg-slate-900 border-2 border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-colors";
+
+  return (
+    <div className="w-full p-6 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in flex flex-col gap-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-white">AI 設定</h2>
+        <p className="text-slate-400">Choose which AI backend generates and evaluates your practice.</p>
+      </div>
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {providerOptions.map(option => (
+            <button
+              key={option.kind}
+              type="button"
+              onClick={() => setDraft(prev => ({ ...prev, kind: option.kind }))}
+              className={`p-4 rounded-lg border-2 text-left transition-all duration-200
+                ${draft.kind === option.kind
+                  ? 'bg-blue-900/40 border-blue-400 text-white'
+                  : 'bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-600/50 hover:border-slate-500'}`}
+            >
+              <span className="font-semibold">{option.label}</span>
+              <p className="text-sm text-slate-400">{option.description}</p>
+            </button>
+          ))}
+        </div>
+
+        {draft.kind === ProviderKind.OpenAICompatible && (
+          <div className="space-y-4 animate-fade-in">
+            <label className="block">
+              <span className="text-slate-300 text-sm">Base URL</span>
+              <input type="url" value={draft.baseUrl} onChange={updateField('baseUrl')} placeholder="http://localhost:11434/v1" className={inputClass} required />
+            </label>
+            <label className="block">
+              <span className="text-slate-300 text-sm">Model</span>
+              <input type="text" value={draft.model} onChange={updateField('model')} placeholder="qwen2.5:7b" className={inputClass} required />
+            </label>
+            <label className="block">
+              <span className="text-slate-300 text-sm">API Key (optional for local servers)</span>
+              <input type="password" value={draft.apiKey} onChange={updateField('apiKey')} className={inputClass} autoComplete="off" />
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="block">
+                <span className="text-slate-300 text-sm">Speech Model</span>
+                <input type="text" value={draft.speechModel} onChange={updateField('speechModel')} placeholder="tts-1" className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="text-slate-300 text-sm">Voice</span>
+                <input type="text" value={draft.voice} onChange={updateField('voice')} placeholder="alloy" className={inputClass} />
+              </label>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <button
+            type="button"
+            onClick={() => setDraft(getDefaultProviderConfig())}
+            className="px-6 py-3 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-full transition-colors shadow-md"
+          >
+            Reset to Defaults
+          </button>
+          <button
+            type="submit"
+            className="flex-1 px-8 py-3 bg-gradient-to-r from-blue-500 to-teal-400 text-white font-bold rounded-full hover:scale-105 transform transition-transform duration-300 focus:outline-none focus:ring-4 focus:ring-teal-300/50 shadow-lg"
+          >
+            Save Settings
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SettingsScreen;
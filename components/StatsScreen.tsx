@@ -0,0 +1,240 @@
+import React, { useMemo } from 'react';
+import { HistoryItem, Difficulty, SentenceLength } from '../types';
+import {
+  translationScoreTrend,
+  mcqAccuracy,
+  practiceStreaks,
+  activityCalendar,
+  weakestGrammarPoints,
+  chinglishDistractorRate,
+  aggregateRubricScores,
+  hintUsage,
+  ScorePoint,
+  AccuracyTally,
+  CalendarDay,
+} from '../services/statsService';
+import RubricBreakdown from './RubricBreakdown';
+
+interface StatsScreenProps {
+  history: HistoryItem[];
+  onBack: () => void;
+}
+
+// Charts are plain SVG/CSS so the dashboard works offline and without a charting library.
+
+const TREND_DAYS = 30;
+const HEATMAP_WEEKS = 18;
+
+const percent = ({ correct, total }: AccuracyTally) => (total > 0 ? Math.round((correct / total) * 100) : 0);
+
+const Panel: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="p-4 border border-slate-700 rounded-lg bg-slate-900/30">
+    <h3 className="text-lg font-semibold text-slate-200 mb-3">{title}</h3>
+    {children}
+  </section>
+);
+
+const ScoreTrendChart: React.FC<{ points: ScorePoint[] }> = ({ points }) => {
+  if (points.length === 0) {
+    return <p className="text-slate-500 text-sm">翻訳の採点結果がまだありません。</p>;
+  }
+  const width = 600;
+  const height = 160;
+  const padding = 8;
+  const x = (i: number) => points.length === 1 ? width / 2 : padding + (i / (points.length - 1)) * (width - padding * 2);
+  const y = (score: number) => height - padding - (score / 100) * (height - padding * 2);
+  const path = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(point.average).toFixed(1)}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40" role="img" aria-label="Average translation score per day">
+        {[50, 80].map(level => (
+          <line key={level} x1={0} x2={width} y1={y(level)} y2={y(level)} className="stroke-slate-700" strokeDasharray="4 4" />
+        ))}
+        <path d={path} fill="none" className="stroke-teal-400" strokeWidth={2} />
+        {points.map((point, i) => (
+          <circle key={point.day} cx={x(i)} cy={y(point.average)} r={3} className="fill-teal-300">
+            <title>{`${point.day}: ${Math.round(point.average)} (${point.count})`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-slate-500 mt-1">
+        <span>{points[0].day}</span>
+        <span>{points[points.length - 1].day}</span>
+      </div>
+    </div>
+  );
+};
+
+const AccuracyBars: React.FC<{ tallies: Record<string, AccuracyTally>; labels: string[] }> = ({ tallies, labels }) => (
+  <ul className="space-y-2">
+    {labels.map(label => {
+      const tally = tallies[label];
+      return (
+        <li key={label} className="grid grid-cols-[2.5rem_1fr_5rem] items-center gap-3 text-sm text-slate-300">
+          <span>{label}</span>
+          <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+            <div className="h-full rounded-full bg-blue-400" style={{ width: `${percent(tally)}%` }} />
+          </div>
+          <span className="text-right tabular-nums text-slate-400">
+            {tally.total > 0 ? `${percent(tally)}% · ${tally.total}` : '—'}
+          </span>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+const getHeatColor = (count: number) => {
+  if (count === 0) return 'bg-slate-700/60';
+  if (count < 3) return 'bg-teal-900';
+  if (count < 6) return 'bg-teal-700';
+  if (count < 10) return 'bg-teal-500';
+  return 'bg-teal-300';
+};
+
+const CalendarHeatmap: React.FC<{ weeks: (CalendarDay | null)[][] }> = ({ weeks }) => (
+  <div className="flex gap-1 overflow-x-auto" role="img" aria-label="Practice calendar">
+    {weeks.map((week, i) => (
+      <div key={i} className="flex flex-col gap-1">
+        {week.map((day, j) => day
+          ? <div key={j} className={`w-3 h-3 rounded-sm ${getHeatColor(day.count)}`} title={`${day.day}: ${day.count}`} />
+          : <div key={j} className="w-3 h-3" />
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ history, onBack }) => {
+  const stats = useMemo(() => {
+    const now = Date.now();
+    return {
+      trend: translationScoreTrend(history).slice(-TREND_DAYS),
+      accuracy: mcqAccuracy(history),
+      streaks: practiceStreaks(history, now),
+      calendar: activityCalendar(history, now, HEATMAP_WEEKS),
+      weakest: weakestGrammarPoints(history, 5),
+      chinglish: chinglishDistractorRate(history),
+      rubric: aggregateRubricScores(history),
+      hints: hintUsage(history),
+    };
+  }, [history]);
+
+  const { trend, accuracy, streaks, calendar, weakest, chinglish, rubric, hints } = stats;
+
+  return (
+    <div className="w-full h-full flex flex-col p-4 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in">
+      <header className="mb-4 flex justify-between items-center flex-wrap gap-2">
+        <h2 className="text-3xl font-bold text-white">学習統計</h2>
+        <button
+          onClick={onBack}
+          className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors shadow-md"
+        >
+          履歴に戻る (Back to History)
+        </button>
+      </header>
+
+      {history.length === 0 ? (
+        <div className="flex items-center justify-center flex-1">
+          <p className="text-center text-slate-400 text-lg">統計を表示するには、まず練習してください。</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto pr-2 space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div className="p-4 border border-slate-700 rounded-lg bg-slate-900/30">
+              <p className="text-3xl font-bold text-teal-300">{streaks.current}</p>
+              <p className="text-sm text-slate-400">連続日数 (Current streak)</p>
+            </div>
+            <div className="p-4 border border-slate-700 rounded-lg bg-slate-900/30">
+              <p className="text-3xl font-bold text-blue-300">{streaks.longest}</p>
+              <p className="text-sm text-slate-400">最長記録 (Longest streak)</p>
+            </div>
+            <div className="p-4 border border-slate-700 rounded-lg bg-slate-900/30">
+              <p className="text-3xl font-bold text-sky-300">{history.length}</p>
+              <p className="text-sm text-slate-400">練習回数 (Attempts)</p>
+            </div>
+          </div>
+
+          <Panel title="練習カレンダー (Activity)">
+            <CalendarHeatmap weeks={calendar} />
+          </Panel>
+
+          <Panel title="翻訳スコアの推移 (Translation score trend)">
+            <ScoreTrendChart points={trend} />
+          </Panel>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Panel title="選択問題の正答率 · レベル別">
+              <AccuracyBars tallies={accuracy.byDifficulty} labels={Object.values(Difficulty)} />
+            </Panel>
+            <Panel title="選択問題の正答率 · 文の長さ別">
+              <AccuracyBars tallies={accuracy.byLength} labels={Object.values(SentenceLength)} />
+            </Panel>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Panel title="苦手な文法 (Weakest grammar points)">
+              {weakest.length > 0 ? (
+                <ol className="space-y-2 text-sm">
+                  {weakest.map(({ grammarPoint, attempts, average }) => (
+                    <li key={`${grammarPoint.level}-${grammarPoint.grammar_point}`} className="flex justify-between gap-3">
+                      <span className="text-slate-200">
+                        <span className="text-purple-300 mr-2">{grammarPoint.level}</span>
+                        {grammarPoint.grammar_point}
+                      </span>
+                      <span className="text-slate-400 tabular-nums whitespace-nowrap">{Math.round(average)} · {attempts}回</span>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-slate-500 text-sm">文法ポイント付きの練習がまだありません。</p>
+              )}
+            </Panel>
+            <Panel title="中式直译陷阱 (Chinglish distractor)">
+              {chinglish.answered > 0 ? (
+                <div className="text-sm text-slate-300 space-y-1">
+                  <p>
+                    <span className="text-2xl font-bold text-red-300">{percent({ correct: chinglish.chosen, total: chinglish.answered })}%</span>
+                    <span className="text-slate-400 ml-2">of {chinglish.answered} answered questions</span>
+                  </p>
+                  {chinglish.wrong > 0 && (
+                    <p className="text-slate-400">
+                      {chinglish.chosen} of {chinglish.wrong} mistakes were the literal translation from Chinese.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-slate-500 text-sm">まだデータがありません。</p>
+              )}
+            </Panel>
+          </div>
+
+          {rubric.weakest && (
+            <Panel title="評価項目の平均 (Rubric averages)">
+              <RubricBreakdown rubric={rubric.averages} counts={rubric.counts} highlight={rubric.weakest} />
+            </Panel>
+          )}
+
+          {hints.attempts > 0 && (
+            <Panel title="ヒントの使用 (Hint usage)">
+              <div className="text-sm text-slate-300 space-y-1">
+                <p>
+                  <span className="text-2xl font-bold text-amber-300">{percent({ correct: hints.hinted, total: hints.attempts })}%</span>
+                  <span className="text-slate-400 ml-2">of {hints.attempts} translations used hints</span>
+                </p>
+                {hints.hinted > 0 && (
+                  <p className="text-slate-400">
+                    {(hints.hints / hints.hinted).toFixed(1)} hints per hinted translation on average.
+                  </p>
+                )}
+              </div>
+            </Panel>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatsScreen;
@@ -0,0 +1,106 @@
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  // Height of a row that has not been rendered yet, gap included.
+  estimatedItemHeight?: number;
+  // Extra pixels rendered above and below the viewport so fast scrolling doesn't show blanks.
+  overscan?: number;
+  className?: string;
+  rowClassName?: string;
+}
+
+// Layout-less environments (tests, a hidden tab) report a zero-height viewport.
+const fallbackViewportHeight = () => (typeof window !== 'undefined' && window.innerHeight) || 800;
+
+// Index of the last row starting at or before `position`.
+const rowAt = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) low = middle;
+    else high = middle - 1;
+  }
+  return Math.max(0, low);
+};
+
+const MeasuredRow: React.FC<{ rowKey: string; onMeasure: (key: string, height: number) => void; className?: string; children: React.ReactNode }> = ({ rowKey, onMeasure, className, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const measure = () => {
+      if (element.offsetHeight > 0) onMeasure(rowKey, element.offsetHeight);
+    };
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [rowKey, onMeasure]);
+
+  return <div ref={ref} className={className}>{children}</div>;
+};
+
+// A scrolling list that only mounts the rows in and near the viewport. Rows can have any
+// height and change it (cards expanding); each is measured once rendered and estimated until then.
+const VirtualList = <T,>({ items, getKey, renderItem, estimatedItemHeight = 96, overscan = 600, className = '', rowClassName }: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => setViewportHeight(container.clientHeight);
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const handleMeasure = useCallback((key: string, height: number) => {
+    if (heights.current.get(key) === height) return;
+    heights.current.set(key, height);
+    setMeasureVersion(version => version + 1);
+  }, []);
+
+  // offsets[i] is where row i starts; the last entry is the full height of the list.
+  // measureVersion stands in for the heights map, which is mutated in place.
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (const item of items) {
+      result.push(result[result.length - 1] + (heights.current.get(getKey(item)) ?? estimatedItemHeight));
+    }
+    return result;
+  }, [items, getKey, estimatedItemHeight, measureVersion]);
+
+  const visibleHeight = viewportHeight || fallbackViewportHeight();
+  const start = items.length > 0 ? rowAt(offsets, Math.max(0, scrollTop - overscan)) : 0;
+  const end = items.length > 0 ? rowAt(offsets, scrollTop + visibleHeight + overscan) + 1 : 0;
+  const totalHeight = offsets[offsets.length - 1];
+
+  return (
+    <div ref={containerRef} className={`overflow-y-auto ${className}`} onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+      <div style={{ paddingTop: offsets[start], paddingBottom: totalHeight - offsets[end] }}>
+        {items.slice(start, end).map(item => {
+          const key = getKey(item);
+          return (
+            <MeasuredRow key={key} rowKey={key} onMeasure={handleMeasure} className={rowClassName}>
+              {renderItem(item)}
+            </MeasuredRow>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
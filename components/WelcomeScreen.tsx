@@ -6,24 +6,46 @@ import { Difficulty, GameMode, SentenceLength } from '../types';
 import { LibraryIcon } from './icons/LibraryIcon';
 import { ClockIcon } from './icons/ClockIcon';
 import { DocumentCheckIcon } from './icons/DocumentCheckIcon';
+import { CogIcon } from './icons/CogIcon';
+import { ArrowPathIcon } from './icons/ArrowPathIcon';
+import { SpeakerWaveIcon } from './icons/SpeakerWaveIcon';
+import { ArrowsRightLeftIcon } from './icons/ArrowsRightLeftIcon';
+import { PencilSquareIcon } from './icons/PencilSquareIcon';
+import { QueueListIcon } from './icons/QueueListIcon';
+import { AcademicCapIcon } from './icons/AcademicCapIcon';
+import { ChatBubbleIcon } from './icons/ChatBubbleIcon';
 
 interface WelcomeScreenProps {
   onStart: (difficulty: Difficulty, length: SentenceLength, mode: GameMode) => void;
+  onStartReview: (difficulty: Difficulty, length: SentenceLength) => void;
+  onStartExam: (difficulty: Difficulty, length: SentenceLength) => void;
+  onStartConversation: (difficulty: Difficulty) => void;
+  dueCounts: Record<Difficulty, number>;
   onViewGrammar: () => void;
   onViewHistory: () => void;
   onStartSentenceCheck: () => void;
+  onOpenSettings: () => void;
 }
 
 const difficultyLevels = [Difficulty.N5, Difficulty.N4, Difficulty.N3, Difficulty.N2, Difficulty.N1];
-const sentenceLengths = [SentenceLength.Short, SentenceLength.Medium, SentenceLength.Long];
+const sentenceLengths = [SentenceLength.Short, SentenceLength.Medium, SentenceLength.Long, SentenceLength.Paragraph];
 
 
-const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onViewGrammar, onViewHistory, onStartSentenceCheck }) => {
+const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onStartReview, onStartExam, onStartConversation, dueCounts, onViewGrammar, onViewHistory, onStartSentenceCheck, onOpenSettings }) => {
   const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty | null>(null);
   const [selectedLength, setSelectedLength] = useState<SentenceLength | null>(null);
+  // Paragraphs are only offered as translation tasks (and translation reviews).
+  const isParagraph = selectedLength === SentenceLength.Paragraph;
 
   return (
-    <div className="text-center p-8 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in">
+    <div className="relative text-center p-8 bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl shadow-lg animate-fade-in">
+      <button
+        onClick={onOpenSettings}
+        className="absolute top-4 right-4 p-2 rounded-full text-slate-400 hover:bg-slate-700 hover:text-white transition-colors"
+        aria-label="AI Settings"
+      >
+        <CogIcon className="w-6 h-6" />
+      </button>
       <SparklesIcon className="w-16 h-16 mx-auto text-teal-300 mb-4" />
       <h2 className="text-4xl font-bold mb-2 text-white">AI Japanese Practice</h2>
       <p className="text-lg text-slate-300 mb-6">Choose your level, sentence length, and practice mode.</p>
@@ -35,12 +57,21 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onViewGrammar, o
             <button
               key={level}
               onClick={() => setSelectedDifficulty(level)}
-              className={`px-4 py-2 font-semibold rounded-full transition-all duration-200 border-2 
+              className={`relative px-4 py-2 font-semibold rounded-full transition-all duration-200 border-2 
                 ${selectedDifficulty === level 
                   ? 'bg-teal-400 border-teal-400 text-gray-900 shadow-lg' 
                   : 'bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-600/50 hover:border-slate-500'}`}
             >
               {level}
+              {dueCounts[level] > 0 && (
+                <span
+                  className="absolute -top-2 -right-2 min-w-[1.25rem] px-1 rounded-full bg-amber-400 text-gray-900 text-xs font-bold"
+                  title={`${dueCounts[level]} grammar points due for review`}
+                  aria-hidden="true"
+                >
+                  {dueCounts[level]}
+                </span>
+              )}
             </button>
           ))}
         </div>
@@ -63,6 +94,7 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onViewGrammar, o
             </button>
           ))}
         </div>
+        {isParagraph && <p className="text-sm text-slate-400 mt-3">段落仅适用于翻译练习和复习 (Paragraphs are for translation only)</p>}
       </div>
 
 
@@ -80,13 +112,79 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onStart, onViewGrammar, o
             </button>
              <button
                 onClick={() => selectedDifficulty && selectedLength && onStart(selectedDifficulty, selectedLength, GameMode.MultipleChoice)}
-                disabled={!selectedDifficulty || !selectedLength}
+                disabled={!selectedDifficulty || !selectedLength || isParagraph}
                 className="group flex flex-col items-center justify-center p-6 bg-slate-700/50 border-2 border-slate-600 rounded-lg text-slate-300 hover:bg-slate-600/50 hover:border-teal-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-600 transition-all duration-200"
             >
                 <QuestionMarkCircleIcon className="w-10 h-10 mb-2 text-teal-400 group-hover:text-teal-300 transition-colors"/>
                 <span className="font-semibold">选择题测验</span>
                  <span className="text-sm text-slate-400">Multiple Choice</span>
             </button>
+            <button
+                onClick={() => selectedDifficulty && selectedLength && onStart(selectedDifficulty, selectedLength, GameMode.Dictation)}
+                disabled={!selectedDifficulty || !selectedLength || isParagraph}
+                className="group flex flex-col items-center justify-center p-6 bg-slate-700/50 border-2 border-slate-600 rounded-lg text-slate-300 hover:bg-slate-600/50 hover:border-rose-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-600 transition-all duration-200"
+            >
+                <SpeakerWaveIcon className="w-10 h-10 mb-2 text-rose-400 group-hover:text-rose-300 transition-colors"/>
+                <span className="font-semibold">听写练习</span>
+                <span className="text-sm text-slate-400">Dictation</span>
+            </button>
+            <button
+                onClick={() => selectedDifficulty && selectedLength && onStart(selectedDifficulty, selectedLength, GameMode.ReverseTranslation)}
+                disabled={!selectedDifficulty || !selectedLength || isParagraph}
+                className="group flex flex-col items-center justify-center p-6 bg-slate-700/50 border-2 border-slate-600 rounded-lg text-slate-300 hover:bg-slate-600/50 hover:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-600 transition-all duration-200"
+            >
+                <ArrowsRightLeftIcon className="w-10 h-10 mb-2 text-indigo-400 group-hover:text-indigo-300 transition-colors"/>
+                <span className="font-semibold">日译中练习</span>
+                <span className="text-sm text-slate-400">Reverse Translation</span>
+            </button>
+            <button
+                onClick={() => selectedDifficulty && selectedLength && onStart(selectedDifficulty, selectedLength, GameMode.Cloze)}
+                disabled={!selectedDifficulty || !selectedLength || isParagraph}
+                className="group flex flex-col items-center justify-center p-6 bg-slate-700/50 border-2 border-slate-600 rounded-lg text-slate-300 hover:bg-slate-600/50 hover:border-orange-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-600 transition-all duration-200"
+            >
+                <PencilSquareIcon className="w-10 h-10 mb-2 text-orange-400 group-hover:text-orange-300 transition-colors"/>
+                <span className="font-semibold">填空练习</span>
+                <span className="text-sm text-slate-400">Cloze</span>
+            </button>
+            <button
+                onClick={() => selectedDifficulty && selectedLength && onStart(selectedDifficulty, selectedLength, GameMode.Reorder)}
+                disabled={!selectedDifficulty || !selectedLength || isParagraph}
+                className="group flex flex-col items-center justify-center p-6 bg-slate-700/50 border-2 border-slate-600 rounded-lg text-slate-300 hover:bg-slate-600/50 hover:border-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-600 transition-all duration-200"
+            >
+                <QueueListIcon className="w-10 h-10 mb-2 text-cyan-400 group-hover:text-cyan-300 transition-colors"/>
+                <span className="font-semibold">排序题</span>
+                <span className="text-sm text-slate-400">Sentence Order (並べ替え)</span>
+            </button>
+            <button
+                onClick={() => selectedDifficulty && selectedLength && onStartExam(selectedDifficulty, selectedLength)}
+                disabled={!selectedDifficulty || !selectedLength || isParagraph}
+                className="group flex flex-col items-center justify-center p-6 bg-slate-700/50 border-2 border-slate-600 rounded-lg text-slate-300 hover:bg-slate-600/50 hover:border-fuchsia-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-600 transition-all duration-200"
+            >
+                <AcademicCapIcon className="w-10 h-10 mb-2 text-fuchsia-400 group-hover:text-fuchsia-300 transition-colors"/>
+                <span className="font-semibold">模拟考试</span>
+                <span className="text-sm text-slate-400">JLPT Mock Exam</span>
+            </button>
+            {/* Role-play replies are not bound to a sentence length, so only the level is needed. */}
+            <button
+                onClick={() => selectedDifficulty && onStartConversation(selectedDifficulty)}
+                disabled={!selectedDifficulty}
+                className="group flex flex-col items-center justify-center p-6 bg-slate-700/50 border-2 border-slate-600 rounded-lg text-slate-300 hover:bg-slate-600/50 hover:border-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-600 transition-all duration-200"
+            >
+                <ChatBubbleIcon className="w-10 h-10 mb-2 text-emerald-400 group-hover:text-emerald-300 transition-colors"/>
+                <span className="font-semibold">角色扮演会话</span>
+                <span className="text-sm text-slate-400">Role-play Conversation</span>
+            </button>
+            <button
+                onClick={() => selectedDifficulty && selectedLength && onStartReview(selectedDifficulty, selectedLength)}
+                disabled={!selectedDifficulty || !selectedLength}
+                className="group md:col-span-2 flex flex-col items-center justify-center p-6 bg-slate-700/50 border-2 border-slate-600 rounded-lg text-slate-300 hover:bg-slate-600/50 hover:border-amber-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-slate-600 transition-all duration-200"
+            >
+                <ArrowPathIcon className="w-10 h-10 mb-2 text-amber-400 group-hover:text-amber-300 transition-colors"/>
+                <span className="font-semibold">到期复习</span>
+                <span className="text-sm text-slate-400">
+                  Review Due{selectedDifficulty ? ` (${dueCounts[selectedDifficulty]})` : ''}
+                </span>
+            </button>
         </div>
       </div>
 
@@ -0,0 +1,105 @@
+import { ProviderConfig, ProviderKind } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+// A minimal, provider-agnostic description of the JSON we expect back.
+// Each adapter translates it into whatever its backend understands.
+export type JsonSchema =
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[] }
+  | { type: 'array'; items: JsonSchema }
+  | { type: 'string' }
+  | { type: 'number' }
+  | { type: 'boolean' };
+
+export interface JsonRequest {
+  prompt: string;
+  schema: JsonSchema;
+  temperature?: number;
+}
+
+export interface AIProvider {
+  readonly label: string;
+  // Returns the raw JSON text; parsing stays with the caller.
+  generateJson: (request: JsonRequest) => Promise<string>;
+  streamText: (prompt: string) => AsyncIterable<string>;
+  // Resolves to base64-encoded 16-bit mono PCM at 24kHz, or null if unavailable.
+  synthesizeSpeech: (text: string) => Promise<string | null>;
+}
+
+const PROVIDER_CONFIG_KEY = 'japanesePracticeProviderConfig';
+
+const isProviderKind = (value: unknown): value is ProviderKind =>
+  Object.values(ProviderKind).includes(value as ProviderKind);
+
+export const getDefaultProviderConfig = (): ProviderConfig => ({
+  kind: isProviderKind(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : ProviderKind.Gemini,
+  baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  apiKey: process.env.OPENAI_API_KEY || '',
+  model: process.env.OPENAI_MODEL || 'qwen2.5:7b',
+  speechModel: process.env.OPENAI_TTS_MODEL || 'tts-1',
+  voice: process.env.OPENAI_TTS_VOICE || 'alloy',
+});
+
+export const getProviderConfig = (): ProviderConfig => {
+  const defaults = getDefaultProviderConfig();
+  try {
+    const configJson = localStorage.getItem(PROVIDER_CONFIG_KEY);
+    if (configJson) {
+      const stored = JSON.parse(configJson) as Partial<ProviderConfig>;
+      return {
+        ...defaults,
+        ...stored,
+        kind: isProviderKind(stored.kind) ? stored.kind : defaults.kind,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load provider config from localStorage:', error);
+  }
+  return defaults;
+};
+
+// Footer/status text that doesn't require instantiating (and possibly failing) the provider.
+export const getProviderLabel = (config: ProviderConfig): string => {
+  switch (config.kind) {
+    case ProviderKind.OpenAICompatible:
+      return config.model;
+    case ProviderKind.Mock:
+      return 'Mock AI (offline)';
+    case ProviderKind.Gemini:
+    default:
+      return 'Gemini AI';
+  }
+};
+
+let cachedProvider: AIProvider | null = null;
+
+export const saveProviderConfig = (config: ProviderConfig): void => {
+  try {
+    localStorage.setItem(PROVIDER_CONFIG_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Failed to save provider config to localStorage:', error);
+  }
+  // Force the next call to pick up the new backend.
+  cachedProvider = null;
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+  const config = getProviderConfig();
+  switch (config.kind) {
+    case ProviderKind.OpenAICompatible:
+      cachedProvider = createOpenAICompatibleProvider(config);
+      break;
+    case ProviderKind.Mock:
+      cachedProvider = createMockProvider();
+      break;
+    case ProviderKind.Gemini:
+    default:
+      cachedProvider = createGeminiProvider();
+      break;
+  }
+  return cachedProvider;
+};
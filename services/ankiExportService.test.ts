@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { ankiTag, buildAnkiNotes, buildAnkiNotesFile, pcmToWav } from './ankiExportService';
+import { Difficulty, GameMode, GrammarPoint, HistoryItem, SentenceLength } from '../types';
+
+const grammar: GrammarPoint = {
+    level: Difficulty.N4, grammar_point: '～てしまう', meaning_cn: '完了；遗憾', usage: '动て形＋しまう', example_ja: '財布を忘れてしまった。', example_cn: '把钱包忘了。', note: '',
+};
+
+const translation: HistoryItem = {
+    id: '1700-0.5',
+    timestamp: 1700,
+    gameMode: GameMode.Translation,
+    difficulty: Difficulty.N4,
+    sentenceLength: SentenceLength.Short,
+    chineseSentence: '我把钱包忘了。',
+    userSentence: '財布を忘れた。',
+    correctedSentence: '財布を忘れてしまった。',
+    score: 70,
+    evaluation: '',
+    feedbackExplanation: '「てしまう」で残念な気持ちを表します。\n<注意>',
+    grammarPoint: grammar,
+    audioBase64: 'AAA=',
+};
+
+describe('buildAnkiNotes', () => {
+    it('puts the Chinese prompt on the front and the correction, explanation and audio on the back', () => {
+        const [note, grammarNote] = buildAnkiNotes([translation]);
+
+        expect(note.front).toBe('我把钱包忘了。');
+        expect(note.back).toContain('財布を忘れてしまった。');
+        expect(note.back).toContain('残念な気持ちを表します。<br>&lt;注意&gt;');
+        expect(note.audio?.filename).toBe('jpp-1700-0.5.wav');
+        expect(note.tags).toEqual(['JLPT::N4', 'grammar::N4::～てしまう', 'type::translation']);
+        expect(grammarNote.back).toContain('～てしまう');
+        expect(grammarNote.tags).toContain('type::grammar');
+    });
+
+    it('adds each grammar point once and skips modes without a Chinese prompt', () => {
+        const check: HistoryItem = {
+            id: '2', timestamp: 2, gameMode: GameMode.SentenceCheck, userSentence: '', correctedSentence: '', score: 50, evaluation: '', feedbackExplanation: '',
+        };
+        const notes = buildAnkiNotes([translation, { ...translation, id: '3' }, check], [grammar]);
+        expect(notes).toHaveLength(3);
+    });
+});
+
+describe('buildAnkiNotesFile', () => {
+    it('writes the import headers and one tab-separated line per note', () => {
+        const lines = buildAnkiNotesFile(buildAnkiNotes([translation])).trimEnd().split('\n');
+        expect(lines.slice(0, 3)).toEqual(['#separator:tab', '#html:true', '#notetype:AI Japanese Practice']);
+        const fields = lines[6].split('\t');
+        expect(fields).toHaveLength(4);
+        expect(fields[2]).toBe('[sound:jpp-1700-0.5.wav]');
+        expect(fields[3]).toBe('JLPT::N4 grammar::N4::～てしまう type::translation');
+    });
+});
+
+describe('helpers', () => {
+    it('joins tag parts and replaces spaces', () => {
+        expect(ankiTag('grammar', 'N3', '～ば ～ほど')).toBe('grammar::N3::～ば_～ほど');
+    });
+
+    it('wraps PCM in a 24 kHz mono WAV header', () => {
+        const wav = pcmToWav(new Uint8Array([1, 0, 2, 0]));
+        const view = new DataView(wav.buffer);
+        expect(new TextDecoder().decode(wav.slice(0, 4))).toBe('RIFF');
+        expect(view.getUint32(24, true)).toBe(24000);
+        expect(view.getUint32(40, true)).toBe(4);
+        expect(wav.length).toBe(48);
+    });
+});
@@ -0,0 +1,188 @@
+import { GameMode, GrammarPoint, HistoryItem } from '../types';
+import { decode } from './base64';
+import { grammarPointKey } from './srsService';
+import { NO_CORRECTION_PLACEHOLDER } from './feedbackStreamParser';
+import { createZip, ZipEntry } from './zipService';
+
+// Anki deck export. Building a real .apkg means writing Anki's SQLite collection, so the
+// export is a zip with a tab-separated notes file (in the header format Anki 2.1.55+ reads),
+// the definition of the note type it expects, and the audio clips as WAV files.
+
+export const ANKI_NOTE_TYPE = 'AI Japanese Practice';
+export const ANKI_DECK = 'AI Japanese Practice';
+export const ANKI_NOTES_FILE = 'ai-japanese-practice.txt';
+export const ANKI_NOTE_TYPE_FILE = 'note-type.txt';
+
+const SAMPLE_RATE = 24000; // TTS clips are 16-bit mono PCM at this rate
+
+export interface AnkiNote {
+  front: string; // HTML
+  back: string; // HTML
+  audio?: { filename: string; base64: string };
+  tags: string[];
+}
+
+// Wraps raw TTS PCM in a WAV header so Anki (and any player) can open it.
+export const pcmToWav = (pcm: Uint8Array, sampleRate: number = SAMPLE_RATE): Uint8Array => {
+  const wav = new Uint8Array(44 + pcm.length);
+  const view = new DataView(wav.buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, pcm.length, true);
+  wav.set(pcm, 44);
+  return wav;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Plain text to an HTML field; line breaks survive, markdown is left as written.
+const toHtml = (text: string) => escapeHtml(text.trim()).replace(/\r?\n/g, '<br>');
+
+const japanese = (text: string) => `<div lang="ja" class="ja">${escapeHtml(text)}</div>`;
+
+// Anki tags are space-separated, so spaces inside one become underscores.
+export const ankiTag = (...parts: string[]) => parts.map(part => part.trim().replace(/\s+/g, '_')).join('::');
+
+const grammarTag = (point: GrammarPoint) => ankiTag('grammar', point.level, point.grammar_point);
+
+const mediaName = (id: string) => `jpp-${id.replace(/[^\w.-]/g, '_')}.wav`;
+
+const grammarNote = (point: GrammarPoint): AnkiNote => ({
+  front: `${toHtml(point.meaning_cn)}${point.example_cn ? `<br><span class="hint">${toHtml(point.example_cn)}</span>` : ''}`,
+  back: [
+    japanese(point.grammar_point),
+    point.usage && `<div>${toHtml(point.usage)}</div>`,
+    point.example_ja && japanese(point.example_ja),
+    point.note && `<div class="note">${toHtml(point.note)}</div>`,
+  ].filter(Boolean).join(''),
+  tags: [ankiTag('JLPT', point.level), grammarTag(point), ankiTag('type', 'grammar')],
+});
+
+const itemTags = (item: { difficulty: string; grammarPoint?: GrammarPoint }, mode: string) => [
+  ankiTag('JLPT', item.difficulty),
+  ...(item.grammarPoint ? [grammarTag(item.grammarPoint)] : []),
+  ankiTag('type', mode),
+];
+
+// A note for a history item, or null for modes without a Chinese prompt and a Japanese answer.
+const historyNote = (item: HistoryItem): AnkiNote | null => {
+  if (item.gameMode === GameMode.Translation) {
+    if (item.correctedSentence === NO_CORRECTION_PLACEHOLDER) return null;
+    return {
+      front: toHtml(item.chineseSentence),
+      back: [
+        japanese(item.correctedSentence),
+        item.userSentence && item.userSentence !== item.correctedSentence && `<div class="mine">✗ <span lang="ja">${escapeHtml(item.userSentence)}</span></div>`,
+        item.feedbackExplanation && `<div class="note">${toHtml(item.feedbackExplanation)}</div>`,
+      ].filter(Boolean).join(''),
+      audio: item.audioBase64 ? { filename: mediaName(item.id), base64: item.audioBase64 } : undefined,
+      tags: itemTags(item, 'translation'),
+    };
+  }
+  if (item.gameMode === GameMode.MultipleChoice) {
+    const clip = item.audiosBase64?.[item.correctOptionIndex];
+    return {
+      front: toHtml(item.chineseSentence),
+      back: [
+        japanese(item.options[item.correctOptionIndex]),
+        item.userChoiceIndex >= 0 && item.userChoiceIndex !== item.correctOptionIndex && `<div class="mine">✗ <span lang="ja">${escapeHtml(item.options[item.userChoiceIndex])}</span></div>`,
+        item.mcqExplanation && `<div class="note">${toHtml(item.mcqExplanation)}</div>`,
+      ].filter(Boolean).join(''),
+      audio: clip ? { filename: mediaName(item.id), base64: clip } : undefined,
+      tags: itemTags(item, 'multiple-choice'),
+    };
+  }
+  return null;
+};
+
+// Notes for the items, then one per grammar point (those given plus those the items practised).
+export const buildAnkiNotes = (items: HistoryItem[], grammarPoints: GrammarPoint[] = []): AnkiNote[] => {
+  const notes: AnkiNote[] = [];
+  const points = new Map<string, GrammarPoint>(grammarPoints.map(point => [grammarPointKey(point), point]));
+  for (const item of items) {
+    const note = historyNote(item);
+    if (!note) continue;
+    notes.push(note);
+    if ('grammarPoint' in item && item.grammarPoint && !points.has(grammarPointKey(item.grammarPoint))) {
+      points.set(grammarPointKey(item.grammarPoint), item.grammarPoint);
+    }
+  }
+  for (const point of points.values()) {
+    notes.push(grammarNote(point));
+  }
+  return notes;
+};
+
+// Fields never contain tabs or line breaks: text goes through toHtml, tags through ankiTag.
+const field = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+
+export const buildAnkiNotesFile = (notes: AnkiNote[]): string => [
+  '#separator:tab',
+  '#html:true',
+  `#notetype:${ANKI_NOTE_TYPE}`,
+  `#deck:${ANKI_DECK}`,
+  '#tags column:4',
+  '#columns:Front\tBack\tAudio\tTags',
+  ...notes.map(note => [
+    field(note.front),
+    field(note.back),
+    note.audio ? `[sound:${note.audio.filename}]` : '',
+    note.tags.join(' '),
+  ].join('\t')),
+].join('\n') + '\n';
+
+const NOTE_TYPE_DEFINITION = `Note type: ${ANKI_NOTE_TYPE}
+
+Create it once in Anki under Tools → Manage Note Types → Add → "Add: Basic", named "${ANKI_NOTE_TYPE}".
+Fields, in this order:
+  1. Front
+  2. Back
+  3. Audio
+
+Front template:
+{{Front}}
+
+Back template:
+{{FrontSide}}
+<hr id="answer">
+{{Back}}
+{{Audio}}
+
+Styling:
+.card { font-family: sans-serif; font-size: 22px; text-align: center; color: #1e293b; background: #f8fafc; }
+.ja { font-size: 28px; margin: 8px 0; }
+.hint { font-size: 16px; color: #64748b; }
+.mine { font-size: 16px; color: #b91c1c; }
+.note { font-size: 16px; text-align: left; margin-top: 12px; }
+
+Importing:
+  1. Copy the files in the "media" folder into your Anki profile's collection.media folder
+     (Tools → Check Media → View Files in Media Folder shows where it is).
+  2. File → Import → ${ANKI_NOTES_FILE}. The note type, deck and tags are read from the file.
+`;
+
+export const buildAnkiPackage = (notes: AnkiNote[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [
+    { name: ANKI_NOTES_FILE, data: encoder.encode(buildAnkiNotesFile(notes)) },
+    { name: ANKI_NOTE_TYPE_FILE, data: encoder.encode(NOTE_TYPE_DEFINITION) },
+  ];
+  for (const note of notes) {
+    if (note.audio) entries.push({ name: `media/${note.audio.filename}`, data: pcmToWav(decode(note.audio.base64)) });
+  }
+  return createZip(entries);
+};
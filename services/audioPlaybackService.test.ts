@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+class FakeSource {
+    buffer: unknown = null;
+    playbackRate = { value: 1 };
+    onended: (() => void) | null = null;
+    connect = vi.fn();
+    start = vi.fn();
+    stop = vi.fn(() => this.onended?.());
+}
+
+class FakeAudioContext {
+    static instances: FakeAudioContext[] = [];
+    state = 'running';
+    destination = {};
+    sources: FakeSource[] = [];
+    constructor() {
+        FakeAudioContext.instances.push(this);
+    }
+    createBuffer(_channels: number, length: number) {
+        return { getChannelData: () => new Float32Array(length) };
+    }
+    createBufferSource() {
+        const source = new FakeSource();
+        this.sources.push(source);
+        return source;
+    }
+}
+
+const loadService = async () => {
+    vi.resetModules();
+    return import('./audioPlaybackService');
+};
+
+const clip = btoa('\x00\x01\x02\x03');
+
+describe('audioPlaybackService', () => {
+    beforeEach(() => {
+        FakeAudioContext.instances = [];
+        vi.stubGlobal('AudioContext', FakeAudioContext);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('plays every clip through one shared context and resolves when the clip ends', async () => {
+        const { playAudio } = await loadService();
+        let finished = false;
+        const playing = playAudio(clip).then(() => { finished = true; });
+        await vi.waitFor(() => expect(FakeAudioContext.instances[0]?.sources).toHaveLength(1));
+        const [context] = FakeAudioContext.instances;
+        expect(context.sources[0].start).toHaveBeenCalled();
+        expect(finished).toBe(false);
+
+        context.sources[0].onended?.();
+        await playing;
+        expect(finished).toBe(true);
+
+        const second = playAudio(clip);
+        await vi.waitFor(() => expect(context.sources).toHaveLength(2));
+        context.sources[1].onended?.();
+        await second;
+        expect(FakeAudioContext.instances).toHaveLength(1);
+    });
+
+    it('stops the clip that is playing when another starts', async () => {
+        const { playAudio, stopAudio } = await loadService();
+        const first = playAudio(clip);
+        await vi.waitFor(() => expect(FakeAudioContext.instances[0]?.sources).toHaveLength(1));
+        const [context] = FakeAudioContext.instances;
+
+        const second = playAudio(clip);
+        await first;
+        expect(context.sources[0].stop).toHaveBeenCalled();
+
+        await vi.waitFor(() => expect(context.sources).toHaveLength(2));
+        stopAudio();
+        await second;
+        expect(context.sources[1].stop).toHaveBeenCalled();
+    });
+
+    it('plays a clip at the requested rate', async () => {
+        const { playAudio, stopAudio } = await loadService();
+        const playing = playAudio(clip, 0.7);
+        await vi.waitFor(() => expect(FakeAudioContext.instances[0]?.sources).toHaveLength(1));
+        expect(FakeAudioContext.instances[0].sources[0].playbackRate.value).toBe(0.7);
+        stopAudio();
+        await playing;
+    });
+});
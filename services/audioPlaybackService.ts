@@ -0,0 +1,52 @@
+import { decode } from './base64';
+import { decodeAudioData } from './geminiService';
+
+// One AudioContext shared by every screen and history card instead of one per component:
+// browsers cap the number of live contexts, and a long history would otherwise open hundreds.
+// Only one clip plays at a time; starting another stops the one that was playing.
+
+const SAMPLE_RATE = 24000; // TTS clips are 16-bit mono PCM at this rate
+
+let context: AudioContext | null = null;
+let current: AudioBufferSourceNode | null = null;
+
+const getContext = (): AudioContext => {
+  if (!context) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) throw new Error('Audio playback is not supported in this browser.');
+    context = new AudioContextClass({ sampleRate: SAMPLE_RATE });
+  }
+  return context;
+};
+
+export const stopAudio = (): void => {
+  const playing = current;
+  current = null;
+  try {
+    playing?.stop();
+  } catch {
+    // Already finished.
+  }
+};
+
+// Plays a base64 TTS clip, slowed down below a rate of 1. Resolves once it has finished or
+// been stopped.
+export const playAudio = async (base64: string, playbackRate = 1): Promise<void> => {
+  const ctx = getContext();
+  if (ctx.state === 'suspended') await ctx.resume();
+  const buffer = await decodeAudioData(decode(base64), ctx, SAMPLE_RATE, 1);
+  stopAudio();
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = playbackRate;
+  source.connect(ctx.destination);
+  current = source;
+  await new Promise<void>(resolve => {
+    source.onended = () => {
+      if (current === source) current = null;
+      resolve();
+    };
+    source.start();
+  });
+};
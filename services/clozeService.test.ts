@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { buildLibraryCloze, checkClozeAnswer, matchesSpelling } from './clozeService';
+import { ClozeTask, Difficulty, GrammarPoint } from '../types';
+
+const task: ClozeTask = {
+    before: '雨が降らない',
+    answer: 'うちに',
+    after: '、早く帰りましょう。',
+    reading: 'うちに',
+    alternatives: ['内に'],
+    chineseTranslation: '趁还没下雨，早点回家吧。',
+};
+
+const libraryPoint = (grammar_point: string, example_ja: string): GrammarPoint => ({
+    level: Difficulty.N3, grammar_point, meaning_cn: '', usage: '', example_ja, example_cn: '△ 例 句 。', note: '',
+});
+
+describe('checkClozeAnswer', () => {
+    it('accepts the answer in katakana, full-width or any listed spelling', () => {
+        expect(checkClozeAnswer(task, 'うちに')).toBe(true);
+        expect(checkClozeAnswer(task, ' ウチニ ')).toBe(true);
+        expect(checkClozeAnswer(task, '内に')).toBe(true);
+        expect(checkClozeAnswer(task, 'までに')).toBe(false);
+        expect(checkClozeAnswer(task, '')).toBe(false);
+    });
+
+    it('tolerates okurigana trimmed inside a compound but not in the inflected ending', () => {
+        expect(matchesSpelling('申込む', '申し込む')).toBe(true);
+        expect(matchesSpelling('行なう', '行う')).toBe(false);
+        expect(matchesSpelling('見る', '見える')).toBe(false);
+        expect(matchesSpelling('入る', '入れる')).toBe(false);
+        expect(matchesSpelling('上る', '上がる')).toBe(false);
+        expect(matchesSpelling('に限て', 'に限って')).toBe(false);
+        expect(matchesSpelling('変える', '変わる')).toBe(false);
+        expect(matchesSpelling('を余儀なくする', 'を余儀なくされる')).toBe(false);
+    });
+
+    it('lets each kanji of a compound drop one kana of its okurigana, but no more', () => {
+        expect(matchesSpelling('打合せ', '打ち合わせ')).toBe(true);
+        expect(matchesSpelling('取扱う', '取り扱う')).toBe(true);
+        expect(matchesSpelling('問合せ', '問い合わせ')).toBe(true);
+        expect(matchesSpelling('受入る', '受け入れる')).toBe(false);
+        expect(matchesSpelling('打合', '打ち合わせ')).toBe(false);
+        expect(matchesSpelling('申込', '申し込む')).toBe(false);
+    });
+
+    it('accepts ending variants only when the task lists them', () => {
+        const okonau: ClozeTask = { ...task, answer: '行う', reading: 'おこなう', alternatives: ['行なう'] };
+        expect(checkClozeAnswer(okonau, '行なう')).toBe(true);
+        expect(checkClozeAnswer({ ...okonau, alternatives: [] }, '行なう')).toBe(false);
+    });
+});
+
+describe('buildLibraryCloze', () => {
+    it('blanks the expression out of the cleaned-up library example', () => {
+        const cloze = buildLibraryCloze(libraryPoint('～っこない', '△こんなに弱い選手ばかりでは、次の試合に勝てっこない 。'));
+        expect(cloze).toMatchObject({
+            before: 'こんなに弱い選手ばかりでは、次の試合に勝て',
+            answer: 'っこない',
+            after: '。',
+            reading: 'っこない',
+            chineseTranslation: '例句。',
+        });
+    });
+
+    it('finds conjugated uses and optional parts of the pattern', () => {
+        expect(buildLibraryCloze(libraryPoint('～ことにする', '△ 孫 に 文 房 具 をあげることにした 。'))).toMatchObject({
+            before: '孫に文房具をあげる', answer: 'ことに', after: 'した。',
+        });
+        expect(buildLibraryCloze(libraryPoint('～よう（に）', '忘れないように、メモした。'))?.answer).toBe('ように');
+    });
+
+    it('gives up on patterns described rather than spelled out', () => {
+        expect(buildLibraryCloze(libraryPoint('动词「ない形」', '△ 明日 雨 が 降 るか 降 らない かわかりません 。'))).toBeNull();
+    });
+});
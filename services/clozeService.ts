@@ -0,0 +1,123 @@
+import { ClozeTask, GrammarPoint } from '../types';
+import { toHiragana } from './dictationService';
+
+// Gap-fill drills: building them from the grammar library and checking typed answers.
+//
+// An answer is accepted in any spelling the learner might reasonably type: hiragana or
+// katakana for the written form, full-width or half-width, and with the okurigana of a
+// compound trimmed (申込む/申し込む, 打合せ/打ち合わせ). A verb's ending must match exactly, since
+// 見る/見える are different verbs; spellings like 行なう for 行う come from the task's alternatives.
+
+const IGNORED = /[\s、。，．,.!?！？「」『』（）()・…〜～~"'“”‘’]/g;
+const KANJI = /[㐀-鿿々]/;
+const SMALL_KANA = /[っゃゅょぁぃぅぇぉ]/;
+const VERB_ENDING = /[うくぐすつぬぶむる]$/;
+
+const normalize = (text: string) => toHiragana(text.normalize('NFKC').replace(IGNORED, ''));
+
+interface OkuriganaRuns {
+  lead: string;
+  kanji: string[];
+  // The kana written after each kanji, up to the next kanji.
+  tails: string[];
+}
+
+const toOkuriganaRuns = (text: string): OkuriganaRuns => {
+  const runs: OkuriganaRuns = { lead: '', kanji: [], tails: [] };
+  for (const char of text) {
+    if (KANJI.test(char)) {
+      runs.kanji.push(char);
+      runs.tails.push('');
+    } else if (runs.kanji.length === 0) {
+      runs.lead += char;
+    } else {
+      runs.tails[runs.tails.length - 1] += char;
+    }
+  }
+  return runs;
+};
+
+// A tail may carry a single extra leading kana, as long as it is a full syllable
+// (限って vs 限て is a typo, not an okurigana variant).
+const sameTail = (a: string, b: string) => {
+  if (a === b) return true;
+  const [longer, shorter] = a.length > b.length ? [a, b] : [b, a];
+  return longer.length === shorter.length + 1 && !SMALL_KANA.test(longer[0]) && longer.slice(1) === shorter;
+};
+
+// Every tail but the last is compared on its own, so compounds whose okurigana is trimmed in
+// several places still match (打ち合わせ vs 打合せ). The last tail carries the inflection and
+// has to be identical (入る is not 入れる, 申込 is not 申し込む), except in compound nouns,
+// whose ending is not a verb's dictionary form (問い合わせ vs 問合せ).
+const sameEnding = (a: string, b: string, compound: boolean) =>
+  a === b || (compound && a !== '' && b !== '' && !VERB_ENDING.test(a) && sameTail(a, b));
+
+const sameUpToOkurigana = (a: string, b: string) => {
+  const runsA = toOkuriganaRuns(a);
+  const runsB = toOkuriganaRuns(b);
+  const last = runsA.tails.length - 1;
+  return runsA.kanji.length > 0
+    && runsA.lead === runsB.lead
+    && runsA.kanji.join('') === runsB.kanji.join('')
+    && sameEnding(runsA.tails[last], runsB.tails[last], runsA.kanji.length > 1)
+    && runsA.tails.slice(0, last).every((tail, i) => sameTail(tail, runsB.tails[i]));
+};
+
+export const matchesSpelling = (input: string, spelling: string): boolean => {
+  const typed = normalize(input);
+  const expected = normalize(spelling);
+  if (!typed || !expected) return false;
+  return typed === expected || sameUpToOkurigana(typed, expected);
+};
+
+export const checkClozeAnswer = (task: ClozeTask, input: string): boolean =>
+  [task.answer, task.reading, ...task.alternatives].some(spelling => spelling && matchesSpelling(input, spelling));
+
+export const clozeSentence = (task: Pick<ClozeTask, 'before' | 'answer' | 'after'>): string =>
+  `${task.before}${task.answer}${task.after}`;
+
+// Library examples come from a PDF export, with △ markers and stray spaces between characters.
+export const cleanLibraryExample = (text: string): string => text.replace(/[△▲○●]/g, '').replace(/\s+/g, '');
+
+const JAPANESE_ONLY = /^[぀-ヿ㐀-鿿々ー]+$/;
+// Conjugated uses (ことにする → ことにした) are found by trimming the pattern's ending.
+const MAX_TRIMMED_CHARS = 2;
+
+// Spellings of the expression in `～に即して/に即した`, `～よう（に）` style patterns, longest first.
+const expressionCandidates = (grammarPoint: string): string[] => {
+  const variants = grammarPoint.split(/[/／]/).flatMap(part => {
+    const bare = part.replace(/[～〜~…]/g, '').trim();
+    return [
+      bare.replace(/[（(]([^）)]*)[）)]/g, '$1'),
+      bare.replace(/[（(][^）)]*[）)]/g, ''),
+    ];
+  });
+  return [...new Set(variants)]
+    .filter(variant => variant.length >= 2 && JAPANESE_ONLY.test(variant))
+    .sort((a, b) => b.length - a.length);
+};
+
+// Blanks the grammar expression out of the library's own example sentence, or returns
+// null when the expression can't be found in it (e.g. patterns described in Chinese).
+export const buildLibraryCloze = (grammarPoint: GrammarPoint): ClozeTask | null => {
+  const sentence = cleanLibraryExample(grammarPoint.example_ja);
+  const candidates = expressionCandidates(grammarPoint.grammar_point);
+  for (let trimmed = 0; trimmed <= MAX_TRIMMED_CHARS; trimmed++) {
+    for (const candidate of candidates) {
+      const answer = candidate.slice(0, candidate.length - trimmed);
+      if (answer.length < 2) continue;
+      const index = sentence.indexOf(answer);
+      if (index === -1 || answer.length === sentence.length) continue;
+      return {
+        before: sentence.slice(0, index),
+        answer,
+        after: sentence.slice(index + answer.length),
+        reading: KANJI.test(answer) ? '' : toHiragana(answer),
+        alternatives: [],
+        chineseTranslation: cleanLibraryExample(grammarPoint.example_cn),
+        grammarPoint,
+      };
+    }
+  }
+  return null;
+};
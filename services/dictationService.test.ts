@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { gradeDictation, toHiragana } from './dictationService';
+import { DictationSegment } from '../types';
+
+const segments: DictationSegment[] = [
+    { text: '昨日', reading: 'きのう' },
+    { text: '駅', reading: 'えき' },
+    { text: 'で', reading: 'で' },
+    { text: 'コーヒー', reading: 'こーひー' },
+    { text: 'を', reading: 'を' },
+    { text: '飲みました', reading: 'のみました' },
+    { text: '。', reading: '' },
+];
+
+describe('gradeDictation', () => {
+    it('accepts kana for kanji words, katakana/hiragana swaps and ignores punctuation', () => {
+        const grade = gradeDictation(segments, 'きのう駅でこーひーをのみました');
+        expect(grade.accuracy).toBe(100);
+        // Spellings that only differ in kana type are shown as written in the sentence.
+        expect(grade.spans).toEqual([{ op: 'equal', before: 'きのう駅でこーひーをのみました', after: 'きのう駅でコーヒーをのみました' }]);
+        expect(gradeDictation(segments, 'キノウ、エキデコーヒーヲノミマシタ!').accuracy).toBe(100);
+    });
+
+    it('marks wrong, missing and extra characters against the closest spelling', () => {
+        const grade = gradeDictation(segments, '昨日駅にコーヒー飲みましたよ');
+        expect(grade.spans).toEqual([
+            { op: 'equal', before: '昨日駅', after: '昨日駅' },
+            { op: 'replace', before: 'に', after: 'で' },
+            { op: 'equal', before: 'コーヒー', after: 'コーヒー' },
+            { op: 'insert', before: '', after: 'を' },
+            { op: 'equal', before: '飲みました', after: '飲みました' },
+            { op: 'delete', before: 'よ', after: '' },
+        ]);
+        // 3 edits over 14 expected characters.
+        expect(grade.accuracy).toBe(79);
+    });
+
+    it('scores an empty answer as 0', () => {
+        const grade = gradeDictation(segments, '');
+        expect(grade.accuracy).toBe(0);
+        expect(grade.spans).toEqual([{ op: 'insert', before: '', after: '昨日駅でコーヒーを飲みました' }]);
+    });
+});
+
+describe('toHiragana', () => {
+    it('folds katakana and keeps the long vowel mark', () => {
+        expect(toHiragana('コーヒー')).toBe('こーひー');
+    });
+});
@@ -0,0 +1,133 @@
+import { DictationSegment } from '../types';
+import { DiffSpan } from './japaneseDiff';
+
+// Character-by-character grading of a dictation answer.
+//
+// What the learner heard is fixed, but how they write it is not: 昨日 and きのう (or
+// キノウ) are all correct. Each segment of the sentence can therefore be matched either
+// by its written form or by its reading, and we pick whichever spelling gives the
+// fewest edits. Punctuation and spaces are not graded since they can't be heard.
+
+export interface DictationGrade {
+  accuracy: number; // 0-100
+  // From the learner's transcript (`before`) to the expected text (`after`), in the
+  // spelling the learner chose for each segment.
+  spans: DiffSpan[];
+}
+
+const IGNORED = /[\s、。，．,.!?！？「」『』（）()・…〜～~"'“”‘’]/;
+
+interface GradedChar {
+  shown: string;
+  key: string;
+}
+
+// Katakana to hiragana, so カ and か compare equal. ー is kept as is.
+export const toHiragana = (text: string): string =>
+  text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+const toGradedChars = (text: string): GradedChar[] =>
+  Array.from(text.normalize('NFKC'))
+    .filter(char => !IGNORED.test(char))
+    .map(char => ({ shown: char, key: toHiragana(char) }));
+
+type CharOp = { op: 'equal' | 'replace' | 'missing' | 'extra'; typed?: GradedChar; expected?: GradedChar };
+
+const toSpans = (ops: CharOp[]): DiffSpan[] => {
+  const spans: DiffSpan[] = [];
+  for (const { op, typed, expected } of ops) {
+    const before = typed?.shown ?? '';
+    const after = expected?.shown ?? '';
+    const last = spans[spans.length - 1];
+    const isEqual = op === 'equal';
+    if (last && (last.op === 'equal') === isEqual) {
+      last.before += before;
+      last.after += after;
+      continue;
+    }
+    spans.push({ op: isEqual ? 'equal' : 'replace', before, after });
+  }
+  return spans.map(span => {
+    if (span.op === 'equal' || (span.before && span.after)) return span;
+    return { ...span, op: span.before ? 'delete' : 'insert' };
+  });
+};
+
+export const gradeDictation = (segments: DictationSegment[], transcript: string): DictationGrade => {
+  const typed = toGradedChars(transcript);
+  const m = typed.length;
+
+  // Edit distance against a lattice: one row vector per segment boundary, with a full
+  // table per spelling of each segment kept for the backtrace.
+  let boundary = Array.from({ length: m + 1 }, (_, j) => j);
+  const steps = segments.map(segment => {
+    const spellings: GradedChar[][] = [];
+    for (const text of [segment.text, segment.reading]) {
+      const chars = toGradedChars(text ?? '');
+      if (chars.length > 0 && !spellings.some(s => s.map(c => c.key).join('') === chars.map(c => c.key).join(''))) {
+        spellings.push(chars);
+      }
+    }
+    const tables = spellings.map(chars => {
+      const table = [boundary];
+      for (let r = 1; r <= chars.length; r++) {
+        const above = table[r - 1];
+        const row = [above[0] + 1];
+        for (let j = 1; j <= m; j++) {
+          const cost = chars[r - 1].key === typed[j - 1].key ? 0 : 1;
+          row.push(Math.min(above[j] + 1, row[j - 1] + 1, above[j - 1] + cost));
+        }
+        table.push(row);
+      }
+      return table;
+    });
+    // Best spelling for each number of typed characters consumed so far.
+    const choice = boundary.map((_, j) => {
+      let best = -1;
+      tables.forEach((table, v) => {
+        if (best === -1 || table[table.length - 1][j] < tables[best][tables[best].length - 1][j]) best = v;
+      });
+      return best;
+    });
+    if (tables.length > 0) {
+      boundary = choice.map((v, j) => tables[v][tables[v].length - 1][j]);
+    }
+    return { spellings, tables, choice };
+  });
+
+  const ops: CharOp[] = [];
+  let j = m;
+  for (let i = steps.length - 1; i >= 0; i--) {
+    const { spellings, tables, choice } = steps[i];
+    if (tables.length === 0) continue;
+    const chars = spellings[choice[j]];
+    const table = tables[choice[j]];
+    let r = chars.length;
+    while (r > 0) {
+      const cost = j > 0 && chars[r - 1].key === typed[j - 1].key ? 0 : 1;
+      if (j > 0 && table[r][j] === table[r - 1][j - 1] + cost) {
+        ops.push({ op: cost === 0 ? 'equal' : 'replace', typed: typed[j - 1], expected: chars[r - 1] });
+        r--;
+        j--;
+      } else if (table[r][j] === table[r - 1][j] + 1) {
+        ops.push({ op: 'missing', expected: chars[r - 1] });
+        r--;
+      } else {
+        ops.push({ op: 'extra', typed: typed[j - 1] });
+        j--;
+      }
+    }
+  }
+  while (j > 0) {
+    ops.push({ op: 'extra', typed: typed[--j] });
+  }
+  ops.reverse();
+
+  const expectedLength = ops.filter(op => op.expected).length;
+  const edits = ops.filter(op => op.op !== 'equal').length;
+  const accuracy = expectedLength === 0
+    ? (m === 0 ? 100 : 0)
+    : Math.max(0, Math.round(100 * (1 - edits / expectedLength)));
+
+  return { accuracy, spans: toSpans(ops) };
+};
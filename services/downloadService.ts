@@ -0,0 +1,12 @@
+// Saves generated data as a file through a temporary link.
+export const downloadFile = (data: BlobPart, filename: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoked on the next tick, once the browser has started the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
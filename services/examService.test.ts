@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { examTimeLimitSeconds, formatCountdown, generateExamQuestions, gradeExam, isExamQuestionAnswered, summarizeExam } from './examService';
+import { generateClozeTask, generateMultipleChoiceTask, generateReorderTask } from './geminiService';
+import { Difficulty, ExamQuestion, GameMode, SentenceLength } from '../types';
+
+vi.mock('./geminiService', () => ({
+    generateMultipleChoiceTask: vi.fn(),
+    generateClozeTask: vi.fn(),
+    generateReorderTask: vi.fn(),
+}));
+
+const mcq = (userChoiceIndex: number): ExamQuestion => ({
+    gameMode: GameMode.MultipleChoice,
+    task: { chineseSentence: '我去学校。', options: ['学校が行きます。', '学校へ行きます。'], correctOptionIndex: 1, explanation: '' },
+    userChoiceIndex,
+    isCorrect: false,
+});
+
+const cloze = (userAnswer: string): ExamQuestion => ({
+    gameMode: GameMode.Cloze,
+    task: { before: '雨が降らない', answer: 'うちに', after: '、帰ろう。', reading: 'うちに', alternatives: ['内に'], chineseTranslation: '趁还没下雨回家吧。' },
+    userAnswer,
+    isCorrect: false,
+});
+
+const reorder = (userChoiceIndex: number): ExamQuestion => ({
+    gameMode: GameMode.Reorder,
+    task: { before: '', chunks: ['本', 'の', '表紙', 'の'], after: '色', starIndex: 1, chineseTranslation: '书的封面的颜色' },
+    userChoiceIndex,
+    isCorrect: false,
+});
+
+describe('gradeExam', () => {
+    it('grades each section by its own rules, with unanswered questions wrong', () => {
+        const graded = gradeExam([mcq(1), mcq(-1), cloze('ウチニ'), cloze(''), reorder(3), reorder(2)]);
+        expect(graded.map(question => question.isCorrect)).toEqual([true, false, true, false, true, false]);
+    });
+
+    it('tells answered questions apart', () => {
+        expect([mcq(-1), mcq(0), cloze('  '), cloze('に'), reorder(-1)].map(isExamQuestionAnswered))
+            .toEqual([false, true, false, true, false]);
+    });
+});
+
+describe('summarizeExam', () => {
+    it('breaks the score down by section in the order questions appear', () => {
+        const summary = summarizeExam(gradeExam([mcq(1), mcq(0), mcq(1), cloze('内に'), reorder(-1)]));
+        expect(summary).toEqual({
+            correct: 3,
+            total: 5,
+            score: 60,
+            sections: [
+                { gameMode: GameMode.MultipleChoice, correct: 2, total: 3 },
+                { gameMode: GameMode.Cloze, correct: 1, total: 1 },
+                { gameMode: GameMode.Reorder, correct: 0, total: 1 },
+            ],
+        });
+    });
+});
+
+describe('exam timing', () => {
+    it('adds up the time per question and formats the countdown', () => {
+        expect(examTimeLimitSeconds([
+            { gameMode: GameMode.MultipleChoice, label: '', count: 2, secondsPerQuestion: 60 },
+            { gameMode: GameMode.Cloze, label: '', count: 1, secondsPerQuestion: 90 },
+        ])).toBe(210);
+        expect(formatCountdown(754.2)).toBe('12:35');
+        expect(formatCountdown(-3)).toBe('0:00');
+    });
+});
+
+describe('generateExamQuestions', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.resetAllMocks();
+    });
+
+    const mockTasks = () => {
+        let running = 0;
+        let maxRunning = 0;
+        const track = <T,>(task: T) => async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            running--;
+            return task;
+        };
+        vi.mocked(generateMultipleChoiceTask).mockImplementation(track(mcq(-1).task as never));
+        vi.mocked(generateClozeTask).mockImplementation(track(cloze('').task as never));
+        vi.mocked(generateReorderTask).mockImplementation(track(reorder(-1).task as never));
+        return () => maxRunning;
+    };
+
+    it('generates the questions a couple at a time, in section order', async () => {
+        const maxRunning = mockTasks();
+        const questions = await generateExamQuestions(Difficulty.N4, SentenceLength.Short);
+
+        expect(questions.map(question => question.gameMode)).toEqual([
+            ...Array(5).fill(GameMode.MultipleChoice), ...Array(3).fill(GameMode.Cloze), ...Array(2).fill(GameMode.Reorder),
+        ]);
+        expect(maxRunning()).toBe(2);
+    });
+
+    it('retries a failing question before giving up on the exam', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        mockTasks();
+        vi.mocked(generateClozeTask).mockRejectedValueOnce(new Error('429')).mockRejectedValueOnce(new Error('429'));
+
+        const retried = generateExamQuestions(Difficulty.N4, SentenceLength.Short);
+        await vi.runAllTimersAsync();
+        expect(await retried).toHaveLength(10);
+
+        vi.mocked(generateReorderTask).mockRejectedValue(new Error('429'));
+        const failing = generateExamQuestions(Difficulty.N4, SentenceLength.Short);
+        const outcome = expect(failing).rejects.toThrow('429');
+        await vi.runAllTimersAsync();
+        await outcome;
+        // Two questions in the first exam; both reorder questions were in flight in the second and each got three attempts.
+        expect(generateReorderTask).toHaveBeenCalledTimes(2 + 2 * 3);
+        expect(generateMultipleChoiceTask).toHaveBeenCalledTimes(5 + 5);
+    });
+});
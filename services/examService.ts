@@ -0,0 +1,147 @@
+import { Difficulty, ExamQuestion, ExamSection, GameMode, SentenceLength } from '../types';
+import { generateClozeTask, generateMultipleChoiceTask, generateReorderTask } from './geminiService';
+import { checkClozeAnswer, clozeSentence } from './clozeService';
+import { reorderSentence } from './reorderService';
+
+// Timed mock exams: a fixed mix of questions generated up front, answered without
+// feedback, then graded all at once.
+
+export interface ExamSectionPlan {
+  gameMode: ExamSection;
+  label: string;
+  count: number;
+  secondsPerQuestion: number; // typing a cloze answer takes longer than picking an option
+}
+
+export const EXAM_SECTIONS: ExamSectionPlan[] = [
+  { gameMode: GameMode.MultipleChoice, label: '文法形式の判断 (Multiple Choice)', count: 5, secondsPerQuestion: 60 },
+  { gameMode: GameMode.Cloze, label: '穴埋め (Cloze)', count: 3, secondsPerQuestion: 90 },
+  { gameMode: GameMode.Reorder, label: '文の組み立て (Sentence Order)', count: 2, secondsPerQuestion: 90 },
+];
+
+export const examSectionLabel = (gameMode: ExamSection): string =>
+  EXAM_SECTIONS.find(section => section.gameMode === gameMode)?.label ?? gameMode;
+
+export const examTimeLimitSeconds = (sections: ExamSectionPlan[] = EXAM_SECTIONS): number =>
+  sections.reduce((total, section) => total + section.count * section.secondsPerQuestion, 0);
+
+const generateExamQuestion = async (gameMode: ExamSection, difficulty: Difficulty, length: SentenceLength): Promise<ExamQuestion> => {
+  switch (gameMode) {
+    case GameMode.MultipleChoice:
+      return { gameMode, task: await generateMultipleChoiceTask(difficulty, length), userChoiceIndex: -1, isCorrect: false };
+    case GameMode.Cloze:
+      return { gameMode, task: await generateClozeTask(difficulty, length), userAnswer: '', isCorrect: false };
+    case GameMode.Reorder:
+      return { gameMode, task: await generateReorderTask(difficulty, length), userChoiceIndex: -1, isCorrect: false };
+  }
+};
+
+// Free API tiers and local servers limit concurrent requests, so only a couple of questions
+// are generated at a time, and a question that fails is retried before the exam gives up.
+const GENERATION_CONCURRENCY = 2;
+const QUESTION_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const generateWithRetry = async (gameMode: ExamSection, difficulty: Difficulty, length: SentenceLength): Promise<ExamQuestion> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await generateExamQuestion(gameMode, difficulty, length);
+    } catch (error) {
+      if (attempt >= QUESTION_ATTEMPTS) throw error;
+      console.warn(`Failed to generate an exam question (attempt ${attempt} of ${QUESTION_ATTEMPTS}), retrying:`, error);
+      await wait(RETRY_DELAY_MS * attempt);
+    }
+  }
+};
+
+// Questions come back grouped by section, in the order of `EXAM_SECTIONS`.
+// A question failing all its attempts fails the whole exam, so the set stays the advertised size.
+export const generateExamQuestions = async (difficulty: Difficulty, length: SentenceLength): Promise<ExamQuestion[]> => {
+  const plan = EXAM_SECTIONS.flatMap(section => Array.from({ length: section.count }, () => section.gameMode));
+  const questions: ExamQuestion[] = new Array(plan.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < plan.length) {
+      const index = next++;
+      try {
+        questions[index] = await generateWithRetry(plan[index], difficulty, length);
+      } catch (error) {
+        failed = true; // the other workers stop instead of spending more requests
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(GENERATION_CONCURRENCY, plan.length) }, worker));
+  return questions;
+};
+
+export const isExamQuestionAnswered = (question: ExamQuestion): boolean =>
+  question.gameMode === GameMode.Cloze ? question.userAnswer.trim() !== '' : question.userChoiceIndex !== -1;
+
+export const gradeExamQuestion = (question: ExamQuestion): boolean => {
+  switch (question.gameMode) {
+    case GameMode.MultipleChoice:
+      return question.userChoiceIndex === question.task.correctOptionIndex;
+    case GameMode.Cloze:
+      return checkClozeAnswer(question.task, question.userAnswer);
+    case GameMode.Reorder: {
+      // Chunks are compared by text, like in practice mode, so either of two identical chunks is right.
+      const { chunks, starIndex } = question.task;
+      return question.userChoiceIndex !== -1 && chunks[question.userChoiceIndex] === chunks[starIndex];
+    }
+  }
+};
+
+export const gradeExam = (questions: ExamQuestion[]): ExamQuestion[] =>
+  questions.map(question => ({ ...question, isCorrect: gradeExamQuestion(question) }));
+
+// The sentence a question is about: the Chinese prompt for MCQ, the full Japanese sentence otherwise.
+export const examQuestionSentence = (question: ExamQuestion): string => {
+  switch (question.gameMode) {
+    case GameMode.MultipleChoice:
+      return question.task.chineseSentence;
+    case GameMode.Cloze:
+      return clozeSentence(question.task);
+    case GameMode.Reorder:
+      return reorderSentence(question.task);
+  }
+};
+
+export interface ExamSectionResult {
+  gameMode: ExamSection;
+  correct: number;
+  total: number;
+}
+
+export interface ExamSummary {
+  correct: number;
+  total: number;
+  score: number; // 0-100
+  sections: ExamSectionResult[];
+}
+
+export const summarizeExam = (questions: ExamQuestion[]): ExamSummary => {
+  const sections: ExamSectionResult[] = [];
+  for (const question of questions) {
+    let section = sections.find(result => result.gameMode === question.gameMode);
+    if (!section) {
+      section = { gameMode: question.gameMode, correct: 0, total: 0 };
+      sections.push(section);
+    }
+    section.total++;
+    if (question.isCorrect) section.correct++;
+  }
+  const correct = sections.reduce((sum, section) => sum + section.correct, 0);
+  const total = questions.length;
+  return { correct, total, score: total > 0 ? Math.round((correct / total) * 100) : 0, sections };
+};
+
+export const formatCountdown = (seconds: number): string => {
+  const clamped = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(clamped / 60)}:${String(clamped % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { createFeedbackStreamParser, FeedbackStreamEvent } from './feedbackStreamParser';
+import { FeedbackParseWarning, NuanceVerdict, Register, RubricDimension } from '../types';
+
+const parseAll = (chunks: string[]): FeedbackStreamEvent[] => {
+    const parser = createFeedbackStreamParser();
+    return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.end()];
+};
+
+const explanationOf = (events: FeedbackStreamEvent[]) =>
+    events.map(event => event.type === 'explanation' ? event.chunk : '').join('');
+
+const warningsOf = (events: FeedbackStreamEvent[]) =>
+    events.flatMap(event => event.type === 'warning' ? [event.warning] : []);
+
+const wellFormed = 'score: 72\nevaluation: 有点可惜\ncorrectedSentence: 駅で友達に会った。\nrubric: 句法结构=80; 助词使用=50; 文化语感=-\n--- \n- **助词:** 用「に」。';
+const wellFormedHeader = {
+    score: 72,
+    evaluation: '有点可惜',
+    correctedSentence: '駅で友達に会った。',
+    rubric: { [RubricDimension.Syntax]: 80, [RubricDimension.Particles]: 50 },
+};
+
+describe('createFeedbackStreamParser', () => {
+    it('buffers headers until the separator, then passes chunks straight through', () => {
+        const parser = createFeedbackStreamParser();
+
+        expect(parser.push('score: 72\nevaluation: 有点')).toEqual([]);
+        expect(parser.push('可惜\ncorrectedSentence: 駅で友達に会った。\nrubric: 句法结构=80; 助词使用=50; 文化语感=-\n---')).toEqual([]);
+        expect(parser.push(' \n- **助词:**')).toEqual([
+            { type: 'header', header: wellFormedHeader },
+            { type: 'explanation', chunk: '- **助词:**' },
+        ]);
+        expect(parser.push(' 用「に」。')).toEqual([{ type: 'explanation', chunk: ' 用「に」。' }]);
+        expect(parser.end()).toEqual([]);
+    });
+
+    it('emits identical results however the stream is chunked', () => {
+        const whole = parseAll([wellFormed]);
+        const byCharacter = parseAll(wellFormed.split(''));
+
+        expect(explanationOf(byCharacter)).toBe(explanationOf(whole));
+        expect(byCharacter[0]).toEqual(whole[0]);
+    });
+
+    it.each([
+        ['without trailing space', wellFormed.replace('--- \n', '---\n')],
+        ['with CRLF line endings', wellFormed.replace(/\n/g, '\r\n')],
+        ['with a longer rule', wellFormed.replace('--- \n', '-----\n')],
+    ])('accepts a separator %s', (_, text) => {
+        const events = parseAll([text]);
+
+        expect(events[0]).toEqual({ type: 'header', header: wellFormedHeader });
+        expect(warningsOf(events)).toEqual([]);
+        expect(explanationOf(events)).toContain('用「に」');
+    });
+
+    it('tolerates markdown bold and full-width colons in header lines', () => {
+        const events = parseAll(['**score:** 90\nevaluation：很好\ncorrectedSentence: はい。\n**rubric:** 敬体・常体=60, 自然表达 = 85\n---\n説明']);
+
+        expect(events[0]).toEqual({ type: 'header', header: {
+            score: 90,
+            evaluation: '很好',
+            correctedSentence: 'はい。',
+            rubric: { [RubricDimension.Politeness]: 60, [RubricDimension.Naturalness]: 85 },
+        } });
+    });
+
+    it('warns about a missing score rather than defaulting it to 0', () => {
+        const events = parseAll(['evaluation: 很好\ncorrectedSentence: はい。\nrubric: 助词使用=70\n---\n説明']);
+
+        expect(events[0]).toMatchObject({ type: 'header', header: { score: null } });
+        expect(warningsOf(events)).toEqual([FeedbackParseWarning.MissingScore]);
+    });
+
+    it('falls back to the text after the last header when the separator never arrives', () => {
+        const events = parseAll(['score: 60\nevaluation: 再加油\ncorrectedSentence: はい。\nrubric: 助词使用=40\n説明です。']);
+
+        expect(events[0]).toMatchObject({ type: 'header', header: { score: 60 } });
+        expect(warningsOf(events)).toEqual([FeedbackParseWarning.MissingSeparator]);
+        expect(explanationOf(events)).toBe('説明です。');
+    });
+
+    it('reports a response with no headers at all as unparseable and keeps the raw text', () => {
+        const events = parseAll(['Sorry, I cannot help with that.']);
+
+        expect(events[0]).toMatchObject({ type: 'header', header: { score: null } });
+        expect(warningsOf(events)).toEqual([FeedbackParseWarning.Unparseable]);
+        expect(explanationOf(events)).toBe('Sorry, I cannot help with that.');
+    });
+
+    it('warns when the rubric is missing or has no recognised dimension', () => {
+        const missing = parseAll(['score: 60\nevaluation: 再加油\ncorrectedSentence: はい。\n---\n説明']);
+        const unknown = parseAll(['score: 60\nevaluation: 再加油\ncorrectedSentence: はい。\nrubric: grammar=40\n---\n説明']);
+
+        expect(warningsOf(missing)).toEqual([FeedbackParseWarning.MissingRubric]);
+        expect(warningsOf(unknown)).toEqual([FeedbackParseWarning.MissingRubric]);
+        expect(missing[0]).not.toHaveProperty('header.rubric');
+    });
+
+    it('parses optional per-fix notes', () => {
+        const events = parseAll(['score: 60\nevaluation: 再加油\ncorrectedSentence: 友達に会った。\nrubric: 助词使用=40\nfixes: と => に | 「会う」用「に」; 会う→会った\n---\n説明']);
+
+        expect(events[0]).toMatchObject({ type: 'header', header: { fixes: [
+            { original: 'と', corrected: 'に', reason: '「会う」用「に」' },
+            { original: '会う', corrected: '会った', reason: '' },
+        ] } });
+        expect(warningsOf(events)).toEqual([]);
+    });
+
+    it('treats `fixes: -` as no notes', () => {
+        const events = parseAll(['score: 100\nevaluation: 完美\ncorrectedSentence: はい。\nrubric: 助词使用=100\nfixes: -\n---\n説明']);
+
+        expect(events[0]).toMatchObject({ type: 'header', header: { fixes: [] } });
+    });
+
+    it('parses the nuance verdict and skips the rubric for reverse translation', () => {
+        const reverse = { rubric: false, nuance: true, reply: false, alternatives: false };
+        const parse = (text: string) => {
+            const parser = createFeedbackStreamParser(reverse);
+            return [...parser.push(text), ...parser.end()];
+        };
+
+        const events = parse('score: 80\nevaluation: 很好\ncorrectedSentence: 趁还没下雨，早点回家吧。\nnuance: **Partial**\n---\n説明');
+        expect(events[0]).toMatchObject({ type: 'header', header: { nuance: NuanceVerdict.Partial } });
+        expect(warningsOf(events)).toEqual([]);
+
+        const missing = parse('score: 80\nevaluation: 很好\ncorrectedSentence: 趁还没下雨，早点回家吧。\nnuance: maybe\n---\n説明');
+        expect(warningsOf(missing)).toEqual([FeedbackParseWarning.MissingNuance]);
+        expect(missing[0]).not.toHaveProperty('header.nuance');
+    });
+
+    it('passes the conversation reply through and warns when it is missing', () => {
+        const conversation = { rubric: true, nuance: false, reply: true, alternatives: false };
+        const parse = (text: string) => {
+            const parser = createFeedbackStreamParser(conversation);
+            return [...parser.push(text), ...parser.end()];
+        };
+
+        const events = parse('score: 90\nevaluation: 很好\ncorrectedSentence: 白はありますか。\nrubric: 助词使用=90\nreply: **はい、ございます。**\n---\n説明');
+        expect(events[0]).toMatchObject({ type: 'header', header: { reply: 'はい、ございます。' } });
+        expect(warningsOf(events)).toEqual([]);
+
+        const missing = parse('score: 90\nevaluation: 很好\ncorrectedSentence: 白はありますか。\nrubric: 助词使用=90\n---\n説明');
+        expect(warningsOf(missing)).toEqual([FeedbackParseWarning.MissingReply]);
+    });
+
+    it('reads alternatives by register and only keeps a match among them', () => {
+        const translation = { rubric: false, nuance: false, reply: false, alternatives: true };
+        const parse = (text: string) => {
+            const parser = createFeedbackStreamParser(translation);
+            return [...parser.push(text), ...parser.end()];
+        };
+
+        const events = parse('score: 95\nevaluation: 很好\ncorrectedSentence: 会いました。\nalternatives: Casual＝会ったよ。；polite=会いました。; slang=会ったっす。\nmatch: **casual**\n---\n説明');
+        expect(events[0]).toMatchObject({
+            type: 'header',
+            header: {
+                alternatives: [
+                    { register: Register.Casual, sentence: '会ったよ。' },
+                    { register: Register.Polite, sentence: '会いました。' },
+                ],
+                matchedRegister: Register.Casual,
+            },
+        });
+        expect(warningsOf(events)).toEqual([]);
+
+        const unmatched = parse('score: 60\nevaluation: 加油\ncorrectedSentence: 会いました。\nalternatives: polite=会いました。\nmatch: written\n---\n説明');
+        expect(unmatched[0]).not.toHaveProperty('header.matchedRegister');
+
+        const missing = parse('score: 60\nevaluation: 加油\ncorrectedSentence: 会いました。\nmatch: -\n---\n説明');
+        expect(warningsOf(missing)).toEqual([FeedbackParseWarning.MissingAlternatives]);
+    });
+
+    it('emits nothing for an empty stream', () => {
+        expect(parseAll([])).toEqual([]);
+    });
+});
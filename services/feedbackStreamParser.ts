@@ -0,0 +1,203 @@
+import { AlternativeTranslation, CorrectionNote, FeedbackHeader, FeedbackParseWarning, NuanceVerdict, Register, RubricDimension, RubricScores } from '../types';
+
+// Incremental parser for the streamed feedback format every evaluator prompt asks for:
+//
+//   score: 85
+//   evaluation: 很好！
+//   correctedSentence: 私の猫はとても可愛いです。
+//   rubric: 句法结构=90; 助词使用=70; 敬体/常体=-; ...
+//   fixes: 猫が => 猫は | 主题用「は」; ...      (optional)
+//   nuance: understood                          (reverse translation only)
+//   reply: いらっしゃいませ。                    (conversation only)
+//   alternatives: casual=...; polite=...; written=...   (translation only)
+//   match: polite                                (translation only, `-` for none)
+//   ---
+//   (Markdown explanation...)
+//
+// Headers are buffered until the separator shows up, then everything after it is
+// passed through as explanation chunks. Models are not perfectly consistent, so the
+// separator may have trailing spaces, more dashes or `\r\n` line endings.
+
+export type FeedbackStreamEvent =
+  | { type: 'header'; header: FeedbackHeader }
+  | { type: 'explanation'; chunk: string }
+  | { type: 'warning'; warning: FeedbackParseWarning };
+
+// Which optional header lines the prompt asked for, so only those are warned about.
+export interface FeedbackFormat {
+  rubric: boolean;
+  nuance: boolean;
+  reply: boolean;
+  alternatives: boolean;
+}
+
+export const DEFAULT_FEEDBACK_FORMAT: FeedbackFormat = { rubric: true, nuance: false, reply: false, alternatives: false };
+
+export interface FeedbackStreamParser {
+  push: (chunk: string) => FeedbackStreamEvent[];
+  // Flushes whatever is still buffered once the stream is over.
+  end: () => FeedbackStreamEvent[];
+}
+
+const SEPARATOR = /(?:^|\r?\n)[ \t]*-{3,}[ \t]*\r?\n/;
+const HEADER_LINE = /^[ \t*]*(score|evaluation|correctedSentence|rubric|fixes|nuance|reply|alternatives|match)[ \t*]*[:：][ \t*]*(.*?)[ \t*]*$/gim;
+const RUBRIC_ENTRY = /([^=＝,;，；、]+?)\s*[=＝]\s*(\d+|-)/g;
+
+// The model sometimes writes 敬体・常体 or 敬体／常体, or wraps labels in bold.
+const normalizeLabel = (label: string) => label.replace(/[\s*・／/]/g, '');
+const dimensionsByLabel = new Map(
+  Object.values(RubricDimension).map(dimension => [normalizeLabel(dimension), dimension])
+);
+
+// `-` marks a dimension the AI considered not applicable; unknown labels are ignored.
+export const parseRubric = (text: string): RubricScores => {
+  const rubric: RubricScores = {};
+  for (const [, label, value] of text.matchAll(RUBRIC_ENTRY)) {
+    const dimension = dimensionsByLabel.get(normalizeLabel(label));
+    if (dimension && value !== '-') {
+      rubric[dimension] = Math.min(100, parseInt(value, 10));
+    }
+  }
+  return rubric;
+};
+
+export const NO_CORRECTION_PLACEHOLDER = '(AI did not provide a correction.)';
+
+// `fixes: -` (or no line at all) just means there is nothing to annotate.
+export const parseCorrectionNotes = (text: string): CorrectionNote[] =>
+  text.split(/[;；]/).flatMap(entry => {
+    const match = entry.match(/^\s*(.*?)\s*(?:=>|→)\s*(.*?)\s*(?:[|｜]\s*(.*?))?\s*$/);
+    if (!match || (!match[1] && !match[2])) return [];
+    return [{ original: match[1], corrected: match[2], reason: match[3] ?? '' }];
+  });
+
+const nuanceVerdicts = new Map(Object.values(NuanceVerdict).map(verdict => [verdict.toLowerCase(), verdict]));
+
+export const parseNuance = (text: string): NuanceVerdict | undefined =>
+  nuanceVerdicts.get(text.trim().toLowerCase().replace(/[^a-z]/g, ''));
+
+const registersByLabel = new Map(Object.values(Register).map(register => [register.toLowerCase(), register]));
+
+export const parseRegister = (text: string): Register | undefined =>
+  registersByLabel.get(text.trim().toLowerCase().replace(/[^a-z]/g, ''));
+
+// Entries with an unknown register are dropped, and only the first sentence per register is kept.
+export const parseAlternatives = (text: string): AlternativeTranslation[] => {
+  const alternatives: AlternativeTranslation[] = [];
+  for (const entry of text.split(/[;；]/)) {
+    const match = entry.match(/^\s*([^=＝]+?)\s*[=＝]\s*(.+?)\s*$/);
+    const register = match && parseRegister(match[1]);
+    if (register && !alternatives.some(alternative => alternative.register === register)) {
+      alternatives.push({ register, sentence: match[2] });
+    }
+  }
+  return alternatives;
+};
+
+interface ParsedHeaders {
+  header: FeedbackHeader;
+  warnings: FeedbackParseWarning[];
+  // Index just past the last recognised header line, or -1 if there was none.
+  endIndex: number;
+}
+
+export const parseFeedbackHeaders = (text: string, format: FeedbackFormat = DEFAULT_FEEDBACK_FORMAT): ParsedHeaders => {
+  const values: Record<string, string> = {};
+  let endIndex = -1;
+  for (const match of text.matchAll(HEADER_LINE)) {
+    const key = match[1].toLowerCase();
+    if (!(key in values)) {
+      values[key] = match[2];
+      endIndex = match.index + match[0].length;
+    }
+  }
+
+  const warnings: FeedbackParseWarning[] = [];
+  const scoreMatch = values.score?.match(/\d+/);
+  if (!scoreMatch) warnings.push(FeedbackParseWarning.MissingScore);
+  if (!values.evaluation) warnings.push(FeedbackParseWarning.MissingEvaluation);
+  if (!values.correctedsentence) warnings.push(FeedbackParseWarning.MissingCorrection);
+  const rubric = values.rubric ? parseRubric(values.rubric) : {};
+  const hasRubric = Object.keys(rubric).length > 0;
+  if (format.rubric && !hasRubric) warnings.push(FeedbackParseWarning.MissingRubric);
+  const nuance = values.nuance ? parseNuance(values.nuance) : undefined;
+  if (format.nuance && !nuance) warnings.push(FeedbackParseWarning.MissingNuance);
+  if (format.reply && !values.reply) warnings.push(FeedbackParseWarning.MissingReply);
+  const alternatives = values.alternatives ? parseAlternatives(values.alternatives) : [];
+  if (format.alternatives && alternatives.length === 0) warnings.push(FeedbackParseWarning.MissingAlternatives);
+  // A match is only meaningful if that alternative was actually given.
+  const matchedRegister = values.match ? parseRegister(values.match) : undefined;
+  const hasMatch = !!matchedRegister && alternatives.some(alternative => alternative.register === matchedRegister);
+
+  return {
+    header: {
+      score: scoreMatch ? Math.min(100, parseInt(scoreMatch[0], 10)) : null,
+      evaluation: values.evaluation || '评价未提供',
+      correctedSentence: values.correctedsentence || NO_CORRECTION_PLACEHOLDER,
+      ...(hasRubric ? { rubric } : {}),
+      ...(values.fixes ? { fixes: parseCorrectionNotes(values.fixes) } : {}),
+      ...(nuance ? { nuance } : {}),
+      ...(values.reply ? { reply: values.reply } : {}),
+      ...(alternatives.length > 0 ? { alternatives } : {}),
+      ...(hasMatch ? { matchedRegister } : {}),
+    },
+    warnings,
+    endIndex,
+  };
+};
+
+export const createFeedbackStreamParser = (format: FeedbackFormat = DEFAULT_FEEDBACK_FORMAT): FeedbackStreamParser => {
+  let buffer = '';
+  let headersParsed = false;
+
+  const headerEvents = ({ header, warnings, endIndex }: ParsedHeaders): FeedbackStreamEvent[] => {
+    // With no recognisable header line at all, a single warning says more than three.
+    const reported = endIndex === -1 ? [FeedbackParseWarning.Unparseable] : warnings;
+    return [
+      { type: 'header', header },
+      ...reported.map((warning): FeedbackStreamEvent => ({ type: 'warning', warning })),
+    ];
+  };
+
+  return {
+    push: (chunk) => {
+      if (!chunk) return [];
+      if (headersParsed) {
+        return [{ type: 'explanation', chunk }];
+      }
+
+      buffer += chunk;
+      const match = SEPARATOR.exec(buffer);
+      if (!match) return [];
+
+      headersParsed = true;
+      const events = headerEvents(parseFeedbackHeaders(buffer.substring(0, match.index), format));
+      const firstChunk = buffer.substring(match.index + match[0].length);
+      buffer = '';
+      if (firstChunk) {
+        events.push({ type: 'explanation', chunk: firstChunk });
+      }
+      return events;
+    },
+
+    end: () => {
+      if (headersParsed || !buffer.trim()) return [];
+      headersParsed = true;
+
+      // The separator never arrived: guess that the explanation starts after the last header line.
+      const parsed = parseFeedbackHeaders(buffer, format);
+      const { endIndex } = parsed;
+      const events = headerEvents(parsed);
+      if (endIndex !== -1) {
+        events.push({ type: 'warning', warning: FeedbackParseWarning.MissingSeparator });
+      }
+
+      const explanation = buffer.substring(Math.max(endIndex, 0)).replace(/^\s*-{3,}/, '').trim();
+      buffer = '';
+      if (explanation) {
+        events.push({ type: 'explanation', chunk: explanation });
+      }
+      return events;
+    },
+  };
+};
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { evaluateSentenceStream, evaluateJapaneseSentenceStream, evaluateParagraph, generateSentenceTask, generateMultipleChoiceTask, generateSpeech } from './geminiService';
+import { mockFixtures, MOCK_MARKERS } from './providers/mockProvider';
+import { Difficulty, FeedbackHeader, FeedbackParseWarning, GrammarPoint, Register, RubricDimension, SentenceLength, SpeechStyle } from '../types';
+
+const grammarFixture: GrammarPoint[] = [
+    { level: Difficulty.N5, grammar_point: '～に会う', meaning_cn: '见到某人', usage: '名＋に会う', example_ja: '友達に会う。', example_cn: '见朋友。', note: '' },
+];
+
+const task = { chineseSentence: mockFixtures.sentenceTask.chineseSentence };
+
+const expectedRubric = {
+    [RubricDimension.Syntax]: 90,
+    [RubricDimension.Particles]: 95,
+    [RubricDimension.Tense]: 90,
+    [RubricDimension.Politeness]: 80,
+    [RubricDimension.Naturalness]: 70,
+    [RubricDimension.SentencePatterns]: 80,
+};
+
+const expectedFixes = [
+    { original: '同級生と会った', corrected: '同級生に会いました', reason: '「会う」的对象用「に」' },
+    { original: '駅で', corrected: '駅で偶然', reason: '补上"偶然"' },
+];
+
+const collectStream = async (userSentence: string) => {
+    const structured: FeedbackHeader[] = [];
+    const warnings: FeedbackParseWarning[] = [];
+    let explanation = '';
+    const onStreamEnd = vi.fn(async () => {});
+    await evaluateSentenceStream(task, userSentence, {
+        onHeader: header => structured.push(header),
+        onExplanationChunk: chunk => { explanation += chunk; },
+        onParseWarning: warning => warnings.push(warning),
+        onStreamEnd,
+    });
+    return { structured, warnings, explanation, onStreamEnd };
+};
+
+describe('evaluateSentenceStream', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('parses headers split across chunk boundaries and streams the explanation', async () => {
+        const { structured, warnings, explanation, onStreamEnd } = await collectStream('昨日駅で同級生に会った。');
+
+        expect(structured).toEqual([{
+            score: mockFixtures.feedback.score,
+            evaluation: mockFixtures.feedback.evaluation,
+            correctedSentence: mockFixtures.feedback.correctedSentence,
+            rubric: expectedRubric,
+            fixes: expectedFixes,
+            alternatives: [
+                { register: Register.Casual, sentence: '昨日、駅で昔の同級生にばったり会ったよ。' },
+                { register: Register.Polite, sentence: '昨日、駅で昔の同級生にたまたま会いました。' },
+                { register: Register.Written, sentence: '昨日、駅にて偶然かつての同級生と再会した。' },
+            ],
+            matchedRegister: Register.Casual,
+        }]);
+        expect(warnings).toEqual([]);
+        expect(explanation).toBe(mockFixtures.feedback.explanation);
+        expect(onStreamEnd).toHaveBeenCalledOnce();
+    });
+
+    it('falls back to the text after correctedSentence when the separator never arrives', async () => {
+        const { structured, warnings, explanation } = await collectStream(`答え ${MOCK_MARKERS.malformed}`);
+
+        expect(structured).toHaveLength(1);
+        expect(warnings).toEqual([FeedbackParseWarning.MissingSeparator]);
+        expect(structured[0].correctedSentence).toBe(mockFixtures.feedback.correctedSentence);
+        expect(explanation).toBe(mockFixtures.feedback.explanation.trim());
+    });
+
+    it('reports a missing score instead of fabricating one', async () => {
+        const { structured, warnings, explanation } = await collectStream(`答え ${MOCK_MARKERS.noScore}`);
+
+        expect(structured[0].score).toBeNull();
+        expect(warnings).toEqual([FeedbackParseWarning.MissingScore]);
+        expect(structured[0].evaluation).toBe(mockFixtures.feedback.evaluation);
+        expect(explanation).toBe(mockFixtures.feedback.explanation);
+    });
+
+    it('reports a mid-stream failure in the explanation and still ends the stream', async () => {
+        const { structured, explanation, onStreamEnd } = await collectStream(`答え ${MOCK_MARKERS.fail}`);
+
+        expect(structured).toHaveLength(1);
+        expect(explanation).toContain('**Error:** Failed to get feedback from the AI.');
+        expect(onStreamEnd).toHaveBeenCalledOnce();
+    });
+});
+
+describe('evaluateJapaneseSentenceStream', () => {
+    it('shares the header parsing behaviour of the translation evaluator', async () => {
+        const onHeader = vi.fn();
+        let explanation = '';
+        await evaluateJapaneseSentenceStream('同級生に会いました。', {
+            onHeader,
+            onExplanationChunk: chunk => { explanation += chunk; },
+            onStreamEnd: async () => {},
+        });
+
+        expect(onHeader).toHaveBeenCalledWith({
+            score: mockFixtures.feedback.score,
+            evaluation: mockFixtures.feedback.evaluation,
+            correctedSentence: mockFixtures.feedback.correctedSentence,
+            rubric: expectedRubric,
+            fixes: expectedFixes,
+        });
+        expect(explanation).toBe(mockFixtures.feedback.explanation);
+    });
+});
+
+describe('evaluateParagraph', () => {
+    it('lines the feedback up with the sentences and keeps any the AI skipped unscored', async () => {
+        const [first, second] = mockFixtures.paragraphFeedback.sentences;
+        const result = await evaluateParagraph('昨日は友達と映画を見ました。とても面白かった。\nまた行きたい。');
+
+        expect(result.sentences?.map(sentence => [sentence.sentence, sentence.score, sentence.style])).toEqual([
+            ['昨日は友達と映画を見ました。', first.score, SpeechStyle.Polite],
+            ['とても面白かった。', second.score, SpeechStyle.Plain],
+            ['また行きたい。', null, undefined],
+        ]);
+        expect(result.sentences?.[1].fixes).toEqual([{ original: '面白かった', corrected: '面白かったです', reason: '与前一句的です・ます体保持一致' }]);
+        expect(result.score).toBe(Math.round((first.score + second.score) / 2));
+        expect(result.correctedSentence).toBe(`${first.correctedSentence}${second.correctedSentence}また行きたい。`);
+        expect(result.explanation).toBe(mockFixtures.paragraphFeedback.coherence);
+    });
+});
+
+describe('task generation', () => {
+    beforeEach(() => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(grammarFixture))));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('returns the canned sentence task with a grammar point of the requested level', async () => {
+        const result = await generateSentenceTask(Difficulty.N5, SentenceLength.Short);
+        expect(result).toEqual({ ...mockFixtures.sentenceTask, grammarPoint: grammarFixture[0] });
+    });
+
+    it('returns the canned multiple choice task', async () => {
+        const result = await generateMultipleChoiceTask(Difficulty.N5, SentenceLength.Short);
+        expect(result.options).toEqual(mockFixtures.multipleChoiceTask.options);
+        expect(result.correctOptionIndex).toBe(mockFixtures.multipleChoiceTask.correctOptionIndex);
+    });
+
+    it('synthesizes silent audio', async () => {
+        expect(await generateSpeech('こんにちは')).toBe(mockFixtures.silentAudioBase64);
+    });
+});
@@ -1,23 +1,11 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { SentenceTask, Feedback, Difficulty, MultipleChoiceTask, SentenceLength, GrammarPoint } from '../types';
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { SentenceTask, Difficulty, MultipleChoiceTask, SentenceLength, GrammarPoint, FeedbackHeader, FeedbackParseWarning, RubricDimension, DictationTask, DictationSegment, ReverseTranslationTask, NuanceVerdict, ClozeTask, ReorderTask, ConversationScenario, ConversationSpeaker, ConversationTurn, Feedback, SentenceFeedback, SpeechStyle, FollowUpMessage, Register, TranslationHints } from '../types';
+import { getAIProvider } from './aiProvider';
+import { createFeedbackStreamParser, FeedbackStreamEvent, FeedbackFormat, parseCorrectionNotes, NO_CORRECTION_PLACEHOLDER } from './feedbackStreamParser';
+import { buildLibraryCloze } from './clozeService';
+import { pickStarIndex } from './reorderService';
+import { joinCorrectedSentences, paragraphScore, splitSentences } from './paragraphService';
 
 // Audio Decoding Helpers
-export function decode(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
@@ -40,19 +28,7 @@ export async function decodeAudioData(
 // Speech Generation Service
 export const generateSpeech = async (text: string): Promise<string | null> => {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: `Say it clearly: ${text}` }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Leda' },
-                    },
-                },
-            },
-        });
-        return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data ?? null;
+        return await getAIProvider().synthesizeSpeech(text);
     } catch (error) {
         console.error("Speech generation failed:", error);
         return null;
@@ -88,6 +64,13 @@ export const getGrammarPoints = async (): Promise<GrammarPoint[]> => {
 };
 
 
+const pickRandomGrammarPoint = (difficulty: Difficulty): GrammarPoint | undefined => {
+    const relevantGrammar = allGrammarPoints.filter(p => p.level === difficulty);
+    return relevantGrammar.length > 0
+        ? relevantGrammar[Math.floor(Math.random() * relevantGrammar.length)]
+        : undefined;
+};
+
 const parseJsonResponse = <T,>(jsonString: string): T => {
     try {
         const cleanedString = jsonString.replace(/^```json\s*|```\s*$/g, '').trim();
@@ -106,6 +89,8 @@ const getLengthDescription = (length: SentenceLength): string => {
             return 'The sentence should be of medium length, around 15-30 Chinese characters. It can contain one or two related ideas.';
         case SentenceLength.Long:
             return 'The sentence should be long and more complex, over 30 Chinese characters. It should challenge the user with multiple clauses, conjunctions, or more nuanced ideas.';
+        case SentenceLength.Paragraph:
+            return 'Write a short paragraph of 3-5 connected sentences (about 80-150 Chinese characters) on one topic, such as a diary entry or a message to a friend. The sentences should be linked with natural connectives (然后, 但是, 所以...), so the translation has to keep the flow and a consistent politeness level.';
     }
 };
 
@@ -139,7 +124,9 @@ const getLevelSpecificPrompt = (difficulty: Difficulty, length: SentenceLength,
         : `5.  **Grammar Focus:** Choose a common and useful grammar point appropriate for the JLPT ${difficulty} level and incorporate it naturally.`;
 
 
-    return `You are an AI assistant that creates language learning materials. Your task is to generate a single, natural-sounding Chinese sentence for a student to translate into Japanese.
+    const taskDescription = length === SentenceLength.Paragraph ? 'a short, natural-sounding Chinese paragraph' : 'a single, natural-sounding Chinese sentence';
+
+    return `You are an AI assistant that creates language learning materials. Your task is to generate ${taskDescription} for a student to translate into Japanese.
 
 **Instructions:**
 1.  **Target Level & Topic:** The sentence must be appropriate for a **JLPT ${difficulty}** learner. ${levelGuidance}
@@ -155,38 +142,81 @@ Your response must be a single JSON object with the key 'chineseSentence'. Do no
 };
 
 
-export const generateSentenceTask = async (difficulty: Difficulty, length: SentenceLength): Promise<SentenceTask> => {
+// Pass `focusGrammarPoint` to practise a specific point (e.g. one due for review) instead of a random one.
+export const generateSentenceTask = async (difficulty: Difficulty, length: SentenceLength, focusGrammarPoint?: GrammarPoint): Promise<SentenceTask> => {
     await loadGrammarData();
     
-    const relevantGrammar = allGrammarPoints.filter(p => p.level === difficulty);
-    const grammarPoint = relevantGrammar.length > 0
-        ? relevantGrammar[Math.floor(Math.random() * relevantGrammar.length)]
-        : undefined;
+    const grammarPoint = focusGrammarPoint ?? pickRandomGrammarPoint(difficulty);
 
     const prompt = getLevelSpecificPrompt(difficulty, length, grammarPoint);
     
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    chineseSentence: { type: Type.STRING },
-                },
-                required: ["chineseSentence"],
+    const response = await getAIProvider().generateJson({
+        prompt,
+        schema: {
+            type: 'object',
+            properties: {
+                chineseSentence: { type: 'string' },
             },
-            temperature: 0.9,
+            required: ["chineseSentence"],
         },
+        temperature: 0.9,
     });
 
-    const jsonText = response.text.trim();
+    const jsonText = response.trim();
     const task = parseJsonResponse<{ chineseSentence: string }>(jsonText);
     
     return { ...task, grammarPoint };
 };
 
+// Generated when the learner first asks for a hint; the stages are then revealed one by one.
+export const generateTranslationHints = async (task: SentenceTask, difficulty: Difficulty): Promise<TranslationHints> => {
+    const grammarFocus = task.grammarPoint
+        ? `The translation is meant to use ${task.grammarPoint.grammar_point} (${task.grammarPoint.meaning_cn}), so build the pattern around it.`
+        : '';
+
+    const prompt = `You are a Japanese teacher helping a **JLPT ${difficulty}** student who is stuck translating this Chinese sentence into Japanese:
+"${task.chineseSentence}"
+
+Prepare three hints that give away progressively more, without ever giving the whole translation:
+1.  \`vocabulary\`: the 2-5 key content words the translation needs, each with \`word\` (as written in Japanese), \`reading\` (hiragana) and \`meaning\` (Chinese). Skip words a ${difficulty} learner surely knows.
+2.  \`skeleton\`: the sentence pattern of a natural translation, keeping the particles and grammar words and replacing content words with ＿＿ (e.g. ＿＿は＿＿で＿＿に＿＿ました。). ${grammarFocus}
+3.  \`firstChunk\`: the first few words of a natural translation, up to and including the first particle or so (e.g. 昨日、駅で).
+
+Return a single, clean JSON object with \`vocabulary\`, \`skeleton\` and \`firstChunk\`.`;
+
+    const response = await getAIProvider().generateJson({
+        prompt,
+        schema: {
+            type: 'object',
+            properties: {
+                vocabulary: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            word: { type: 'string' },
+                            reading: { type: 'string' },
+                            meaning: { type: 'string' },
+                        },
+                        required: ["word", "reading", "meaning"],
+                    },
+                },
+                skeleton: { type: 'string' },
+                firstChunk: { type: 'string' },
+            },
+            required: ["vocabulary", "skeleton", "firstChunk"],
+        },
+        temperature: 0.3,
+    });
+
+    const hints = parseJsonResponse<TranslationHints>(response.trim());
+    return {
+        vocabulary: Array.isArray(hints.vocabulary) ? hints.vocabulary.filter(entry => entry?.word) : [],
+        skeleton: hints.skeleton ?? '',
+        firstChunk: hints.firstChunk ?? '',
+    };
+};
+
 const fullOutline = `
 ---
 **《日语表达规范总纲》 (Japanese Expression Specification Outline)**
@@ -319,12 +349,62 @@ You MUST adhere to these rules when generating your evaluation. This outline is
 ---
 `;
 
+const rubricInstruction = `The next line MUST be \`rubric:\` followed by a sub-score from 0 to 100 for each of these dimensions from the outline summary, written as \`name=score\` pairs separated by \`; \`: ${Object.values(RubricDimension).join(', ')}. Write \`-\` instead of a number for a dimension that does not apply to this sentence.`;
+
+const fixesInstruction = `The next line MUST be \`fixes:\` followed by every change you made to the student's sentence, written as \`original => corrected | short reason in Chinese\` entries separated by \`; \`. Quote the exact fragments from the student's sentence and your corrected sentence. Write \`fixes: -\` if nothing needed changing or no answer was provided.`;
+
+const registerLabels = Object.values(Register).map(register => register.toLowerCase());
+
+const alternativesInstruction = `The next line MUST be \`alternatives:\` followed by a natural Japanese translation of the original sentence in each register, written as \`${registerLabels.map(label => `${label}=...`).join('; ')}\`: casual speech between friends, polite です/ます speech, and written style.`;
+
+const matchInstruction = `The next line MUST be \`match:\` followed by the register (${registerLabels.join(', ')}) whose translation the student's answer is as good as, phrased differently but equally correct and natural, or \`-\` if none. A student whose answer matches a register has not made a mistake: do not lower the score or list fixes just because the wording differs from your correctedSentence.`;
+
+export interface FeedbackStreamHandlers {
+  onHeader: (header: FeedbackHeader) => void;
+  onExplanationChunk: (chunk: string) => void;
+  onParseWarning?: (warning: FeedbackParseWarning) => void;
+  onStreamEnd: () => Promise<void>;
+}
+
+// Shared driver for every evaluator that asks for the `score:/evaluation:/correctedSentence:/---` format.
+const streamFeedback = async (prompt: string, handlers: FeedbackStreamHandlers, format?: FeedbackFormat): Promise<void> => {
+    const parser = createFeedbackStreamParser(format);
+    const dispatch = (events: FeedbackStreamEvent[]) => {
+        for (const event of events) {
+            switch (event.type) {
+                case 'header':
+                    handlers.onHeader(event.header);
+                    break;
+                case 'explanation':
+                    handlers.onExplanationChunk(event.chunk);
+                    break;
+                case 'warning':
+                    console.warn("Feedback stream parse warning:", event.warning);
+                    handlers.onParseWarning?.(event.warning);
+                    break;
+            }
+        }
+    };
+
+    try {
+        for await (const text of getAIProvider().streamText(prompt)) {
+            dispatch(parser.push(text));
+        }
+        dispatch(parser.end());
+    } catch (error) {
+        console.error("Error during stream evaluation:", error);
+        // Surface whatever headers made it through before the failure.
+        dispatch(parser.end());
+        handlers.onExplanationChunk("\n\n**Error:** Failed to get feedback from the AI. Please try again.");
+    } finally {
+        await handlers.onStreamEnd();
+    }
+};
+
 export const evaluateSentenceStream = async (
   task: SentenceTask,
   userTranslation: string,
-  onStructuredData: (data: { score: number; evaluation: string; correctedSentence: string }) => void,
-  onExplanationChunk: (chunk: string) => void,
-  onStreamEnd: () => Promise<void>,
+  handlers: FeedbackStreamHandlers,
 ): Promise<void> => {
     const grammarFocus = task.grammarPoint 
         ? `The specific grammar point for this exercise is:
@@ -347,108 +427,31 @@ Your response MUST follow this structure exactly. Do not add any other text or f
 1.  Start with a line containing \`score:\` followed by a number from 0 to 100.
 2.  The next line MUST be \`evaluation:\` followed by a short, one-to-three-word evaluation in Chinese (e.g., 完美！, 很好, 有点可惜, 再加油).
 3.  The next line MUST be \`correctedSentence:\` followed by the corrected or most natural Japanese sentence.
-4.  The fourth line MUST be \`--- \`.
-5.  Everything after the \`--- \` is the detailed explanation in Chinese Markdown. If the student provided no answer, your explanation should simply state that and provide a brief breakdown of the correct answer.
+4.  ${rubricInstruction}
+5.  ${fixesInstruction}
+6.  ${alternativesInstruction}
+7.  ${matchInstruction}
+8.  The eighth line MUST be \`--- \`.
+9.  Everything after the \`--- \` is the detailed explanation in Chinese Markdown. If the student provided no answer, your explanation should simply state that and provide a brief breakdown of the correct answer.
 
 Example:
 score: 85
 evaluation: 很好！
 correctedSentence: 私の猫はとても可愛いです。
+rubric: 句法结构=90; 助词使用=85; 修饰关系=-; 时态一致=95; 敬体/常体=90; 自然表达=75; 语气与情态=-; 文化语感=-; 常用句式=80
+fixes: 猫が => 猫は | 描述主题的性质时用「は」; かわいい => 可愛いです | 与句子的礼貌程度保持一致
+alternatives: casual=うちの猫、すごくかわいいんだ。; polite=私の猫はとても可愛いです。; written=私の猫は非常に愛らしい。
+match: -
 --- 
 - **语法:** 你的句子在语法上是正确的，但是...
 `;
 
-    try {
-        const stream = await ai.models.generateContentStream({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-
-        let buffer = '';
-        let headersParsed = false;
-
-        for await (const chunk of stream) {
-            const text = chunk.text;
-            if (text) {
-                if (headersParsed) {
-                    onExplanationChunk(text);
-                    continue;
-                }
-                
-                buffer += text;
-                const separator = '\n--- \n';
-                const separatorIndex = buffer.indexOf(separator);
-
-                if (separatorIndex !== -1) {
-                    headersParsed = true;
-                    const header = buffer.substring(0, separatorIndex);
-                    
-                    const scoreMatch = header.match(/^score:\s*(\d+)/m);
-                    const evaluationMatch = header.match(/^evaluation:\s*(.*)/m);
-                    const correctedSentenceMatch = header.match(/^correctedSentence:\s*(.*)/m);
-
-                    const score = scoreMatch ? parseInt(scoreMatch[1], 10) : 0;
-                    const evaluation = evaluationMatch ? evaluationMatch[1].trim() : '评价未提供';
-                    const correctedSentence = correctedSentenceMatch ? correctedSentenceMatch[1].trim() : '(AI did not provide a correction.)';
-                    
-                    onStructuredData({ score, evaluation, correctedSentence });
-
-                    const firstChunk = buffer.substring(separatorIndex + separator.length);
-                    if (firstChunk) {
-                        onExplanationChunk(firstChunk);
-                    }
-                }
-            }
-        }
-        
-        // Fallback for when the stream ends but the separator was never found
-        if (!headersParsed && buffer.length > 0) {
-            const headerPart = buffer;
-            const separator = '\n--- \n';
-            const separatorIndex = headerPart.indexOf(separator);
-            
-            const headers = separatorIndex !== -1 ? headerPart.substring(0, separatorIndex) : headerPart;
-
-            const scoreMatch = headers.match(/^score:\s*(\d+)/m);
-            const evaluationMatch = headers.match(/^evaluation:\s*(.*)/m);
-            const correctedSentenceMatch = headers.match(/^correctedSentence:\s*(.*)/m);
-
-            const score = scoreMatch ? parseInt(scoreMatch[1], 10) : 0;
-            const evaluation = evaluationMatch ? evaluationMatch[1].trim() : '评价未提供';
-            const correctedSentence = correctedSentenceMatch ? correctedSentenceMatch[1].trim() : '(AI did not provide a correction.)';
-            
-            onStructuredData({ score, evaluation, correctedSentence });
-            
-            let explanation = '';
-            if (separatorIndex !== -1) {
-                explanation = headerPart.substring(separatorIndex + separator.length);
-            } else {
-                 // No separator, guess explanation starts after correctedSentence
-                const lines = headers.split('\n');
-                const correctedLineIndex = lines.findIndex(line => line.startsWith('correctedSentence:'));
-                if (correctedLineIndex !== -1 && correctedLineIndex + 1 < lines.length) {
-                    explanation = lines.slice(correctedLineIndex + 1).join('\n').trim();
-                }
-            }
-
-            if (explanation) {
-                onExplanationChunk(explanation);
-            }
-        }
-
-    } catch (error) {
-        console.error("Error during stream evaluation:", error);
-        onExplanationChunk("\n\n**Error:** Failed to get feedback from the AI. Please try again.");
-    } finally {
-        await onStreamEnd();
-    }
+    await streamFeedback(prompt, handlers, { rubric: true, nuance: false, reply: false, alternatives: true });
 };
 
 export const evaluateJapaneseSentenceStream = async (
   userSentence: string,
-  onStructuredData: (data: { score: number; evaluation: string; correctedSentence: string }) => void,
-  onExplanationChunk: (chunk: string) => void,
-  onStreamEnd: () => Promise<void>,
+  handlers: FeedbackStreamHandlers,
 ): Promise<void> => {
     const prompt = `You are a helpful and patient Japanese language teacher. Your core task is to evaluate a student's Japanese sentence based on the provided "Japanese Expression Specification Outline". Your feedback must be precise, constructive, and educational.
 
@@ -461,111 +464,123 @@ Your response MUST follow this structure exactly. Do not add any other text or f
 1.  Start with a line containing \`score:\` followed by a number from 0 to 100.
 2.  The next line MUST be \`evaluation:\` followed by a short, one-to-three-word evaluation in Chinese (e.g., 完美！, 很好, 有点可惜, 再加油).
 3.  The next line MUST be \`correctedSentence:\` followed by the corrected or most natural Japanese sentence. If the original is perfect, repeat it.
-4.  The fourth line MUST be \`--- \`.
-5.  Everything after the \`--- \` is the detailed explanation in Chinese Markdown. If the student provided no answer, your explanation should simply state that and provide a brief breakdown of a good example.
+4.  ${rubricInstruction}
+5.  ${fixesInstruction}
+6.  The sixth line MUST be \`--- \`.
+7.  Everything after the \`--- \` is the detailed explanation in Chinese Markdown. If the student provided no answer, your explanation should simply state that and provide a brief breakdown of a good example.
 
 Example:
 score: 85
 evaluation: 很好！
 correctedSentence: 私の猫はとても可愛いです。
+rubric: 句法结构=90; 助词使用=85; 修饰关系=-; 时态一致=95; 敬体/常体=90; 自然表达=75; 语气与情态=-; 文化语感=-; 常用句式=80
+fixes: 猫が => 猫は | 描述主题的性质时用「は」; かわいい => 可愛いです | 与句子的礼貌程度保持一致
 --- 
 - **语法:** 你的句子在语法上是正确的，但是...
 `;
 
-    try {
-        const stream = await ai.models.generateContentStream({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
+    await streamFeedback(prompt, handlers);
+};
 
-        let buffer = '';
-        let headersParsed = false;
-
-        for await (const chunk of stream) {
-            const text = chunk.text;
-            if (text) {
-                if (headersParsed) {
-                    onExplanationChunk(text);
-                    continue;
-                }
-                
-                buffer += text;
-                const separator = '\n--- \n';
-                const separatorIndex = buffer.indexOf(separator);
-
-                if (separatorIndex !== -1) {
-                    headersParsed = true;
-                    const header = buffer.substring(0, separatorIndex);
-                    
-                    const scoreMatch = header.match(/^score:\s*(\d+)/m);
-                    const evaluationMatch = header.match(/^evaluation:\s*(.*)/m);
-                    const correctedSentenceMatch = header.match(/^correctedSentence:\s*(.*)/m);
-
-                    const score = scoreMatch ? parseInt(scoreMatch[1], 10) : 0;
-                    const evaluation = evaluationMatch ? evaluationMatch[1].trim() : '评价未提供';
-                    const correctedSentence = correctedSentenceMatch ? correctedSentenceMatch[1].trim() : '(AI did not provide a correction.)';
-                    
-                    onStructuredData({ score, evaluation, correctedSentence });
-
-                    const firstChunk = buffer.substring(separatorIndex + separator.length);
-                    if (firstChunk) {
-                        onExplanationChunk(firstChunk);
-                    }
-                }
-            }
-        }
-        
-        // Fallback for when the stream ends but the separator was never found
-        if (!headersParsed && buffer.length > 0) {
-            const headerPart = buffer;
-            const separator = '\n--- \n';
-            const separatorIndex = headerPart.indexOf(separator);
-            
-            const headers = separatorIndex !== -1 ? headerPart.substring(0, separatorIndex) : headerPart;
-
-            const scoreMatch = headers.match(/^score:\s*(\d+)/m);
-            const evaluationMatch = headers.match(/^evaluation:\s*(.*)/m);
-            const correctedSentenceMatch = headers.match(/^correctedSentence:\s*(.*)/m);
-
-            const score = scoreMatch ? parseInt(scoreMatch[1], 10) : 0;
-            const evaluation = evaluationMatch ? evaluationMatch[1].trim() : '评价未提供';
-            const correctedSentence = correctedSentenceMatch ? correctedSentenceMatch[1].trim() : '(AI did not provide a correction.)';
-            
-            onStructuredData({ score, evaluation, correctedSentence });
-            
-            let explanation = '';
-            if (separatorIndex !== -1) {
-                explanation = headerPart.substring(separatorIndex + separator.length);
-            } else {
-                 // No separator, guess explanation starts after correctedSentence
-                const lines = headers.split('\n');
-                const correctedLineIndex = lines.findIndex(line => line.startsWith('correctedSentence:'));
-                if (correctedLineIndex !== -1 && correctedLineIndex + 1 < lines.length) {
-                    explanation = lines.slice(correctedLineIndex + 1).join('\n').trim();
-                }
-            }
 
-            if (explanation) {
-                onExplanationChunk(explanation);
-            }
+// --- Paragraphs ---
+
+interface ParagraphResponse {
+    evaluation: string;
+    coherence: string;
+    sentences: { score: number; evaluation: string; correctedSentence: string; style: string; fixes: string; explanation: string }[];
+}
+
+// Not streamed: every sentence gets its own feedback, which doesn't fit the one-header stream format.
+// The text is split on our side and the sentences are numbered in the prompt, so the feedback
+// lines up with what the student wrote. Pass the task when checking a paragraph translation.
+export const evaluateParagraph = async (userText: string, task?: SentenceTask): Promise<Feedback> => {
+    const sentences = splitSentences(userText);
+    const source = task
+        ? `The original Chinese paragraph is: "${task.chineseSentence}"\nThe student translated it into Japanese as the numbered sentences below.${task.grammarPoint ? ` Check in particular whether ${task.grammarPoint.grammar_point} (${task.grammarPoint.meaning_cn}) is used correctly.` : ''}`
+        : 'The student wrote the Japanese paragraph below, split into numbered sentences.';
+
+    const prompt = `You are a helpful and patient Japanese language teacher. Your core task is to evaluate a student's Japanese paragraph sentence by sentence, based on the provided "Japanese Expression Specification Outline", and then comment on the paragraph as a whole.
+
+${source}
+${sentences.map((sentence, i) => `${i + 1}. ${sentence}`).join('\n')}
+
+${fullOutline}
+
+**Response Format:**
+Respond with a single JSON object:
+- \`sentences\`: exactly ${sentences.length} entries, one per numbered sentence and in the same order. Do not merge or split sentences. Each entry has:
+  - \`score\`: a number from 0 to 100 for this sentence.
+  - \`evaluation\`: a short, one-to-three-word evaluation in Chinese (e.g., 完美！, 很好, 有点可惜).
+  - \`correctedSentence\`: the corrected or most natural version of this sentence, fitting the sentences around it. If it is perfect, repeat it.
+  - \`style\`: "${SpeechStyle.Polite}" if the student's sentence ends in the です/ます form, "${SpeechStyle.Plain}" if it ends in the plain form.
+  - \`fixes\`: every change you made, written as \`original => corrected | short reason in Chinese\` entries separated by \`; \`, or \`-\` if nothing needed changing.
+  - \`explanation\`: a brief explanation in Chinese Markdown.
+- \`evaluation\`: a short, one-to-three-word evaluation of the whole paragraph in Chinese.
+- \`coherence\`: a comment in Chinese Markdown on the paragraph as a whole: whether the sentences are linked with suitable connectives (そして, でも, だから...), whether です/ます and the plain form are used consistently, and whether the paragraph reads naturally.
+`;
+
+    const response = await getAIProvider().generateJson({
+        prompt,
+        schema: {
+            type: 'object',
+            properties: {
+                sentences: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            score: { type: 'number' },
+                            evaluation: { type: 'string' },
+                            correctedSentence: { type: 'string' },
+                            style: { type: 'string' },
+                            fixes: { type: 'string' },
+                            explanation: { type: 'string' },
+                        },
+                        required: ["score", "evaluation", "correctedSentence", "style", "fixes", "explanation"],
+                    },
+                },
+                evaluation: { type: 'string' },
+                coherence: { type: 'string' },
+            },
+            required: ["sentences", "evaluation", "coherence"],
+        },
+        temperature: 0.3,
+    });
+
+    const result = parseJsonResponse<ParagraphResponse>(response.trim());
+    const styles = Object.values(SpeechStyle) as string[];
+    // A sentence the AI skipped keeps the student's text, unscored, rather than shifting the rest.
+    const feedback: SentenceFeedback[] = sentences.map((sentence, i) => {
+        const entry = result.sentences?.[i];
+        if (!entry) {
+            return { sentence, score: null, evaluation: '评价未提供', correctedSentence: sentence, explanation: '' };
         }
+        return {
+            sentence,
+            score: typeof entry.score === 'number' ? Math.max(0, Math.min(100, Math.round(entry.score))) : null,
+            evaluation: entry.evaluation || '评价未提供',
+            correctedSentence: entry.correctedSentence || sentence,
+            explanation: entry.explanation ?? '',
+            fixes: parseCorrectionNotes(entry.fixes ?? ''),
+            style: styles.includes(entry.style) ? entry.style as SpeechStyle : undefined,
+        };
+    });
 
-    } catch (error) {
-        console.error("Error during stream evaluation:", error);
-        onExplanationChunk("\n\n**Error:** Failed to get feedback from the AI. Please try again.");
-    } finally {
-        await onStreamEnd();
-    }
+    return {
+        score: paragraphScore(feedback),
+        evaluation: result.evaluation || '评价未提供',
+        correctedSentence: feedback.length > 0 ? joinCorrectedSentences(feedback) : NO_CORRECTION_PLACEHOLDER,
+        explanation: result.coherence ?? '',
+        sentences: feedback,
+    };
 };
 
 
-export const generateMultipleChoiceTask = async (difficulty: Difficulty, length: SentenceLength): Promise<MultipleChoiceTask> => {
+export const generateMultipleChoiceTask = async (difficulty: Difficulty, length: SentenceLength, focusGrammarPoint?: GrammarPoint): Promise<MultipleChoiceTask> => {
     await loadGrammarData();
 
-    const relevantGrammar = allGrammarPoints.filter(p => p.level === difficulty);
-    const grammarPoint = relevantGrammar.length > 0
-        ? relevantGrammar[Math.floor(Math.random() * relevantGrammar.length)]
-        : undefined;
+    const grammarPoint = focusGrammarPoint ?? pickRandomGrammarPoint(difficulty);
 
     const lengthDescription = getLengthDescription(length);
 
@@ -588,6 +603,7 @@ ${grammarInstruction}
     *   **"Chinglish" Distractor:** Provide one incorrect option that is a direct, literal translation from the Chinese sentence. This should be a very tempting mistake for a native Chinese speaker.
     *   **Other Distractors:** Provide 1 or 2 other incorrect options that test related but incorrect grammar points.
     *   You must generate a total of 3 or 4 options.
+    *   Report the index of the "Chinglish" distractor (after shuffling) as \`chinglishOptionIndex\`.
 4.  **Write a Detailed Explanation:** In clear and educational Chinese, provide a thorough analysis of all options.
     *   Your explanation MUST be well-structured and easy to read.
     *   Start with a brief summary of the core concept being tested.
@@ -604,29 +620,390 @@ ${fullOutline}
 **Response JSON Format:**
 Your response must be a single, clean JSON object with the following structure. Do not include any other text, comments, or markdown formatting outside of the JSON object.
 `;
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    chineseSentence: { type: Type.STRING },
-                    options: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING },
-                    },
-                    correctOptionIndex: { type: Type.NUMBER },
-                    explanation: { type: Type.STRING },
+    const response = await getAIProvider().generateJson({
+        prompt,
+        schema: {
+            type: 'object',
+            properties: {
+                chineseSentence: { type: 'string' },
+                options: {
+                    type: 'array',
+                    items: { type: 'string' },
                 },
-                required: ["chineseSentence", "options", "correctOptionIndex", "explanation"],
+                correctOptionIndex: { type: 'number' },
+                chinglishOptionIndex: { type: 'number' },
+                explanation: { type: 'string' },
             },
-            temperature: 0.8,
+            required: ["chineseSentence", "options", "correctOptionIndex", "chinglishOptionIndex", "explanation"],
         },
+        temperature: 0.8,
     });
 
-    const jsonText = response.text.trim();
+    const jsonText = response.trim();
     const task = parseJsonResponse<Omit<MultipleChoiceTask, 'grammarPoint'>>(jsonText);
     return { ...task, grammarPoint };
 };
+
+const japaneseLengthGuidance: Record<SentenceLength, string> = {
+    [SentenceLength.Short]: 'One short clause, under 15 Japanese characters.',
+    [SentenceLength.Medium]: 'Around 15-30 Japanese characters, one or two related ideas.',
+    [SentenceLength.Long]: 'Over 30 Japanese characters, with several clauses joined by conjunctions.',
+    [SentenceLength.Paragraph]: 'Three to five connected sentences on one topic.',
+};
+
+export const generateDictationTask = async (difficulty: Difficulty, length: SentenceLength, focusGrammarPoint?: GrammarPoint): Promise<DictationTask> => {
+    await loadGrammarData();
+
+    const grammarPoint = focusGrammarPoint ?? pickRandomGrammarPoint(difficulty);
+    const grammarInstruction = grammarPoint
+        ? `The sentence MUST naturally use this grammar point: ${grammarPoint.grammar_point} (${grammarPoint.meaning_cn}; usage: ${grammarPoint.usage}).`
+        : `Use a common grammar point appropriate for JLPT ${difficulty}.`;
+
+    const prompt = `You are an AI assistant that creates Japanese listening practice. Write one natural, spoken-style Japanese sentence that a **JLPT ${difficulty}** learner will hear read aloud and then write down.
+
+**Instructions:**
+1.  **Level:** Vocabulary and kanji must be appropriate for JLPT ${difficulty}. Prefer words that are clear when heard, and avoid proper nouns whose spelling can't be guessed from the sound.
+2.  **Length:** ${japaneseLengthGuidance[length]}
+3.  **Grammar:** ${grammarInstruction}
+4.  **Segments:** Split the sentence into words and particles, in order. Each segment has its exact \`text\` as written in the sentence and its \`reading\` in hiragana (the reading of punctuation is an empty string). Joining every \`text\` MUST reproduce the sentence exactly.
+5.  **Translation:** Give a natural Chinese translation as \`chineseTranslation\`.
+
+Return a single, clean JSON object with \`japaneseSentence\`, \`segments\` and \`chineseTranslation\`.`;
+
+    const response = await getAIProvider().generateJson({
+        prompt,
+        schema: {
+            type: 'object',
+            properties: {
+                japaneseSentence: { type: 'string' },
+                segments: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            text: { type: 'string' },
+                            reading: { type: 'string' },
+                        },
+                        required: ["text", "reading"],
+                    },
+                },
+                chineseTranslation: { type: 'string' },
+            },
+            required: ["japaneseSentence", "segments", "chineseTranslation"],
+        },
+        temperature: 0.9,
+    });
+
+    const task = parseJsonResponse<Omit<DictationTask, 'grammarPoint'>>(response.trim());
+    // Grading relies on the segments spelling out exactly what is read aloud.
+    const segments: DictationSegment[] = Array.isArray(task.segments) ? task.segments : [];
+    if (segments.map(segment => segment.text).join('') !== task.japaneseSentence) {
+        console.warn('Dictation segments do not match the sentence; grading without readings.', task);
+        return { ...task, segments: [{ text: task.japaneseSentence, reading: '' }], grammarPoint };
+    }
+    return { ...task, segments, grammarPoint };
+};
+
+export const generateReverseTranslationTask = async (difficulty: Difficulty, length: SentenceLength, focusGrammarPoint?: GrammarPoint): Promise<ReverseTranslationTask> => {
+    await loadGrammarData();
+
+    const grammarPoint = focusGrammarPoint ?? pickRandomGrammarPoint(difficulty);
+    const grammarInstruction = grammarPoint
+        ? `The sentence MUST use this grammar point in a context where its nuance matters for the meaning: ${grammarPoint.grammar_point} (${grammarPoint.meaning_cn}; usage: ${grammarPoint.usage}).`
+        : `Use a common grammar point appropriate for JLPT ${difficulty}, in a context where its nuance matters for the meaning.`;
+
+    const prompt = `You are an AI assistant that creates Japanese reading comprehension practice. Write one natural Japanese sentence that a **JLPT ${difficulty}** learner will translate into Chinese.
+
+**Instructions:**
+1.  **Level:** Vocabulary and kanji must be appropriate for JLPT ${difficulty}.
+2.  **Natural Phrasing:** The sentence must sound like something from a real conversation, article or blog post, not a textbook.
+3.  **Length:** ${japaneseLengthGuidance[length]}
+4.  **Grammar:** ${grammarInstruction} A word-for-word translation should miss that nuance.
+
+Return a single, clean JSON object with the key \`japaneseSentence\`.`;
+
+    const response = await getAIProvider().generateJson({
+        prompt,
+        schema: {
+            type: 'object',
+            properties: {
+                japaneseSentence: { type: 'string' },
+            },
+            required: ["japaneseSentence"],
+        },
+        temperature: 0.9,
+    });
+
+    const task = parseJsonResponse<{ japaneseSentence: string }>(response.trim());
+    return { ...task, grammarPoint };
+};
+
+export const evaluateReverseTranslationStream = async (
+  task: ReverseTranslationTask,
+  userTranslation: string,
+  handlers: FeedbackStreamHandlers,
+): Promise<void> => {
+    const grammarFocus = task.grammarPoint
+        ? `The grammar point being tested is:
+- **Grammar:** ${task.grammarPoint.grammar_point}
+- **Meaning:** ${task.grammarPoint.meaning_cn}
+- **Usage:** ${task.grammarPoint.usage}`
+        : 'No grammar point was specified; judge the nuance of the most important grammar point in the sentence.';
+
+    const prompt = `You are a helpful and patient Japanese language teacher. Your core task is to evaluate whether a Chinese-speaking student understood a Japanese sentence, judging their Chinese translation of it. Focus on meaning and nuance, not on the style of their Chinese.
+
+The original Japanese sentence is: "${task.japaneseSentence}"
+The student's Chinese translation is: "${userTranslation || '(No answer provided)'}".
+${grammarFocus}
+
+**Response Format:**
+Your response MUST follow this structure exactly. Do not add any other text or formatting.
+1.  Start with a line containing \`score:\` followed by a number from 0 to 100 for how accurately the translation conveys the meaning of the Japanese sentence.
+2.  The next line MUST be \`evaluation:\` followed by a short, one-to-three-word evaluation in Chinese (e.g., 完美！, 很好, 有点可惜, 再加油).
+3.  The next line MUST be \`correctedSentence:\` followed by a natural Chinese reference translation that keeps the nuance of the grammar point.
+4.  The next line MUST be \`nuance:\` followed by exactly one of ${Object.values(NuanceVerdict).map(verdict => verdict.toLowerCase()).join(', ')}: whether the translation shows the student understood the nuance of the grammar point. Use ${NuanceVerdict.Missed.toLowerCase()} if no answer was provided.
+5.  The fifth line MUST be \`--- \`.
+6.  Everything after the \`--- \` is the detailed explanation in Chinese Markdown. Explain what the grammar point adds to the sentence and how the student's translation does or does not carry it, then point out any other misreadings.
+
+Example:
+score: 70
+evaluation: 有点可惜
+correctedSentence: 趁还没下雨，早点回家吧。
+nuance: ${NuanceVerdict.Partial.toLowerCase()}
+--- 
+- **～うちに:** 表示"趁着……还没发生"，你的译文"在下雨之前"意思接近，但少了"趁机"的语气……
+`;
+
+    await streamFeedback(prompt, handlers, { rubric: false, nuance: true, reply: false, alternatives: false });
+};
+
+// Generated sentences keep the drill fresh; the grammar library's own example sentence
+// is the fallback when the AI is unavailable or returns a blank that doesn't fit.
+export const generateClozeTask = async (difficulty: Difficulty, length: SentenceLength, focusGrammarPoint?: GrammarPoint): Promise<ClozeTask> => {
+    await loadGrammarData();
+
+    const grammarPoint = focusGrammarPoint ?? pickRandomGrammarPoint(difficulty);
+    const grammarInstruction = grammarPoint
+        ? `The sentence MUST use this grammar point: ${grammarPoint.grammar_point} (${grammarPoint.meaning_cn}; usage: ${grammarPoint.usage}).`
+        : `Use a common grammar point appropriate for JLPT ${difficulty}.`;
+
+    const prompt = `You are an AI assistant that creates Japanese fill-in-the-blank grammar drills. Write one natural Japanese sentence for a **JLPT ${difficulty}** learner and blank out the grammar expression in it.
+
+**Instructions:**
+1.  **Level:** Vocabulary and kanji must be appropriate for JLPT ${difficulty}.
+2.  **Length:** ${japaneseLengthGuidance[length]}
+3.  **Grammar:** ${grammarInstruction}
+4.  **Blank:** \`answer\` is the grammar expression exactly as it appears in the sentence, conjugated as needed (a particle or a conjugated ending also works for simple patterns). \`before\` and \`after\` are the rest of the sentence, so that \`before + answer + after\` is the full sentence. The blank must have a single correct answer given the context.
+5.  **Spellings:** \`reading\` is the answer in hiragana. \`alternatives\` lists other correct spellings of the same answer (okurigana variants, kanji/kana variants); use an empty array if there are none.
+6.  **Translation:** Give a natural Chinese translation of the full sentence as \`chineseTranslation\`.
+
+Return a single, clean JSON object with \`before\`, \`answer\`, \`after\`, \`reading\`, \`alternatives\` and \`chineseTranslation\`.`;
+
+    const libraryCloze = grammarPoint ? buildLibraryCloze(grammarPoint) : null;
+    try {
+        const response = await getAIProvider().generateJson({
+            prompt,
+            schema: {
+                type: 'object',
+                properties: {
+                    before: { type: 'string' },
+                    answer: { type: 'string' },
+                    after: { type: 'string' },
+                    reading: { type: 'string' },
+                    alternatives: { type: 'array', items: { type: 'string' } },
+                    chineseTranslation: { type: 'string' },
+                },
+                required: ["before", "answer", "after", "reading", "alternatives", "chineseTranslation"],
+            },
+            temperature: 0.9,
+        });
+
+        const task = parseJsonResponse<Omit<ClozeTask, 'grammarPoint'>>(response.trim());
+        if (!task.answer?.trim() || !(task.before || task.after)) {
+            throw new Error("The AI returned a cloze without a usable blank.");
+        }
+        return {
+            ...task,
+            alternatives: Array.isArray(task.alternatives) ? task.alternatives : [],
+            reading: task.reading ?? '',
+            grammarPoint,
+        };
+    } catch (error) {
+        if (!libraryCloze) throw error;
+        console.warn("Falling back to the grammar library example for the cloze drill:", error);
+        return libraryCloze;
+    }
+};
+
+export const generateReorderTask = async (difficulty: Difficulty, length: SentenceLength, focusGrammarPoint?: GrammarPoint): Promise<ReorderTask> => {
+    await loadGrammarData();
+
+    const grammarPoint = focusGrammarPoint ?? pickRandomGrammarPoint(difficulty);
+    const grammarInstruction = grammarPoint
+        ? `The sentence MUST use this grammar point, and the chunks should test it: ${grammarPoint.grammar_point} (${grammarPoint.meaning_cn}; usage: ${grammarPoint.usage}).`
+        : `Use a common grammar point appropriate for JLPT ${difficulty}, and let the chunks test it.`;
+
+    const prompt = `You are an AI assistant that writes JLPT-style 文の組み立て (sentence composition) questions. Write one natural Japanese sentence for a **JLPT ${difficulty}** learner and cut the middle of it into chunks the learner must put back in order.
+
+**Instructions:**
+1.  **Level:** Vocabulary, kanji and grammar must be appropriate for JLPT ${difficulty}.
+2.  **Length:** ${japaneseLengthGuidance[length]}
+3.  **Grammar:** ${grammarInstruction}
+4.  **Chunks:** \`chunks\` is a list of exactly 4 consecutive bunsetsu-sized pieces from the middle of the sentence, in the correct order. \`before\` is the text before the first chunk and \`after\` the text after the last one, so that \`before + chunks.join('') + after\` is the full sentence. Only one order of the chunks may be grammatical and natural.
+5.  **Translation:** Give a natural Chinese translation of the full sentence as \`chineseTranslation\`.
+
+Return a single, clean JSON object with \`before\`, \`chunks\`, \`after\` and \`chineseTranslation\`.`;
+
+    const response = await getAIProvider().generateJson({
+        prompt,
+        schema: {
+            type: 'object',
+            properties: {
+                before: { type: 'string' },
+                chunks: { type: 'array', items: { type: 'string' } },
+                after: { type: 'string' },
+                chineseTranslation: { type: 'string' },
+            },
+            required: ["before", "chunks", "after", "chineseTranslation"],
+        },
+        temperature: 0.9,
+    });
+
+    const task = parseJsonResponse<Omit<ReorderTask, 'starIndex' | 'grammarPoint'>>(response.trim());
+    const chunks = Array.isArray(task.chunks) ? task.chunks.filter(chunk => chunk.trim()) : [];
+    if (chunks.length < 3) {
+        throw new Error("The AI returned too few chunks to reorder.");
+    }
+    return { ...task, chunks, starIndex: pickStarIndex(chunks.length), grammarPoint };
+};
+
+// --- Role-play conversation ---
+
+const conversationRoles: Record<ConversationScenario, string> = {
+    [ConversationScenario.Shop]: 'You are a friendly shop clerk (店員) in a clothing store in Tokyo. The student is a customer looking for something to buy. Speak with polite customer-service Japanese (丁寧語, light 敬語).',
+    [ConversationScenario.JobInterview]: 'You are the interviewer (面接官) at a Japanese company. The student is applying for a job. Speak formally and expect the student to use 敬語 appropriate for an interview.',
+    [ConversationScenario.CoworkerFavor]: 'You are a coworker (先輩) on the same team at a Japanese office. The student is about to ask you for a favor. Speak in a friendly but polite way, as colleagues do.',
+};
+
+const formatTranscript = (turns: ConversationTurn[]): string =>
+    turns.map(turn => `${turn.speaker === ConversationSpeaker.Partner ? 'You' : 'Student'}: ${turn.text}`).join('\n');
+
+// The partner's first line, which sets the scene.
+export const generateConversationOpening = async (scenario: ConversationScenario, difficulty: Difficulty): Promise<ConversationTurn> => {
+    const prompt = `You are role-playing with a Chinese-speaking student of Japanese at **JLPT ${difficulty}** level.
+
+${conversationRoles[scenario]}
+
+Open the conversation with one or two natural sentences in Japanese that invite the student to respond. Keep vocabulary and grammar appropriate for JLPT ${difficulty}.
+
+Return a single, clean JSON object with \`openingLine\` (your Japanese line) and \`chineseTranslation\` (its Chinese translation).`;
+
+    const response = await getAIProvider().generateJson({
+        prompt,
+        schema: {
+            type: 'object',
+            properties: {
+                openingLine: { type: 'string' },
+                chineseTranslation: { type: 'string' },
+            },
+            required: ["openingLine", "chineseTranslation"],
+        },
+        temperature: 0.9,
+    });
+
+    const opening = parseJsonResponse<{ openingLine: string; chineseTranslation: string }>(response.trim());
+    return { speaker: ConversationSpeaker.Partner, text: opening.openingLine, translation: opening.chineseTranslation };
+};
+
+// Evaluates the student's latest line in the context of the transcript, and streams back
+// the partner's reply in the \`reply:\` header along with the usual correction.
+export const continueConversationStream = async (
+  scenario: ConversationScenario,
+  difficulty: Difficulty,
+  turns: ConversationTurn[],
+  userLine: string,
+  handlers: FeedbackStreamHandlers,
+): Promise<void> => {
+    const prompt = `You are role-playing with a Chinese-speaking student of Japanese at **JLPT ${difficulty}** level, and you are also their patient Japanese teacher.
+
+${conversationRoles[scenario]}
+
+The conversation so far:
+${formatTranscript(turns)}
+
+The student's new line is: "${userLine}"
+
+First evaluate the student's new line as a teacher, based on the provided "Japanese Expression Specification Outline" and on whether it fits the situation and politeness level of the conversation. Then answer it in character.
+
+${fullOutline}
+
+**Response Format:**
+Your response MUST follow this structure exactly. Do not add any other text or formatting.
+1.  Start with a line containing \`score:\` followed by a number from 0 to 100.
+2.  The next line MUST be \`evaluation:\` followed by a short, one-to-three-word evaluation in Chinese (e.g., 完美！, 很好, 有点可惜, 再加油).
+3.  The next line MUST be \`correctedSentence:\` followed by the corrected or most natural way to say the student's line in this situation. If it is already perfect, repeat it.
+4.  ${rubricInstruction}
+5.  ${fixesInstruction}
+6.  The next line MUST be \`reply:\` followed by your in-character answer to the student, one to three sentences of Japanese on a single line, appropriate for JLPT ${difficulty}. Reply to what the student meant, never correct them in the reply, and keep the conversation going.
+7.  The seventh line MUST be \`--- \`.
+8.  Everything after the \`--- \` is the detailed explanation of the correction in Chinese Markdown.
+
+Example:
+score: 80
+evaluation: 很好
+correctedSentence: このシャツの色違いはありますか。
+rubric: 句法结构=90; 助词使用=80; 修饰关系=-; 时态一致=-; 敬体/常体=85; 自然表达=70; 语气与情态=-; 文化语感=-; 常用句式=-
+fixes: 違う色 => 色違い | 询问同款不同颜色时说「色違い」
+reply: はい、こちらに白と紺がございます。ご試着なさいますか。
+--- 
+- **自然表达:** 「色違い」是店里询问同款不同颜色的固定说法……
+`;
+
+    await streamFeedback(prompt, handlers, { rubric: true, nuance: false, reply: true, alternatives: false });
+};
+
+// --- Follow-up questions ---
+
+// What the learner is asking about: the exercise, their answer and the feedback they got.
+export interface FollowUpContext {
+    source?: string; // the sentence they translated, if any
+    userSentence: string;
+    correctedSentence: string;
+    explanation: string;
+}
+
+// Streams a plain Markdown answer. Earlier questions of the thread are included so the
+// learner can refer back to them ("and in the second sentence?"). Rejects if the answer fails.
+export const askFollowUpStream = async (
+  context: FollowUpContext,
+  thread: FollowUpMessage[],
+  question: string,
+  onChunk: (chunk: string) => void,
+): Promise<void> => {
+    const earlierQuestions = thread.length > 0
+        ? `Earlier questions and your answers:\n${thread.map(message => `Q: ${message.question}\nA: ${message.answer}`).join('\n\n')}\n`
+        : '';
+
+    const prompt = `You are a helpful and patient Japanese language teacher. You have just corrected a student's Japanese, and the student has a question about your feedback.
+
+${context.source ? `The original sentence was: "${context.source}"\n` : ''}The student's answer was: "${context.userSentence || '(No answer provided)'}"
+Your corrected version: "${context.correctedSentence}"
+Your explanation:
+${context.explanation}
+
+${earlierQuestions}
+**Follow-up question:**
+${question}
+
+Answer the question in Chinese Markdown, concisely and to the point. When the student suggests an alternative (e.g. a different particle or grammar pattern), say clearly whether it is also acceptable, and how the nuance differs, with a short Japanese example. Do not repeat the whole correction.`;
+
+    try {
+        for await (const text of getAIProvider().streamText(prompt)) {
+            onChunk(text);
+        }
+    } catch (error) {
+        console.error("Error during follow-up answer:", error);
+        // Rejected rather than streamed as text, so the error never ends up saved as an answer.
+        throw new Error("Failed to get an answer from the AI. Please try again.");
+    }
+};
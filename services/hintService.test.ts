@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { applyHintPenalty, hintPenalty, MAX_HINTS } from './hintService';
+
+describe('hint penalties', () => {
+    it('costs more for each further stage revealed', () => {
+        expect(hintPenalty(0)).toBe(0);
+        expect(hintPenalty(1)).toBe(5);
+        expect(hintPenalty(2)).toBe(15);
+        expect(hintPenalty(MAX_HINTS)).toBe(30);
+        expect(hintPenalty(MAX_HINTS + 1)).toBe(30);
+    });
+
+    it('takes the penalty off the score without going below zero', () => {
+        expect(applyHintPenalty(85, 2)).toBe(70);
+        expect(applyHintPenalty(20, 3)).toBe(0);
+        expect(applyHintPenalty(null, 3)).toBeNull();
+    });
+});
@@ -0,0 +1,35 @@
+// Staged hints for translation practice. Each stage gives more of the answer away,
+// so each one revealed costs more points than the last.
+
+export enum HintStage {
+  Vocabulary = 1,
+  Skeleton = 2,
+  FirstChunk = 3,
+}
+
+export const MAX_HINTS = HintStage.FirstChunk;
+
+export const hintStageLabels: Record<HintStage, string> = {
+  [HintStage.Vocabulary]: '关键词 (Key Vocabulary)',
+  [HintStage.Skeleton]: '句型 (Sentence Pattern)',
+  [HintStage.FirstChunk]: '开头 (First Chunk)',
+};
+
+// Points deducted for revealing each stage.
+const STAGE_PENALTIES: Record<HintStage, number> = {
+  [HintStage.Vocabulary]: 5,
+  [HintStage.Skeleton]: 10,
+  [HintStage.FirstChunk]: 15,
+};
+
+export const hintPenalty = (hintsUsed: number): number => {
+  let penalty = 0;
+  for (let stage = HintStage.Vocabulary; stage <= Math.min(hintsUsed, MAX_HINTS); stage++) {
+    penalty += STAGE_PENALTIES[stage as HintStage];
+  }
+  return penalty;
+};
+
+export const applyHintPenalty = (score: number | null, hintsUsed: number): number | null =>
+  score === null ? null : Math.max(0, score - hintPenalty(hintsUsed));
+
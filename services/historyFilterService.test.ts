@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_HISTORY_FILTERS, HistoryFilters, filterHistory, historyGrammarPoints, isFiltering } from './historyFilterService';
+import { grammarPointKey } from './srsService';
+import { day, grammarPoint, multipleChoiceItem, translationItem } from './testFixtures';
+import { Difficulty, GameMode, SentenceLength, TranslationHistoryItem } from '../types';
+
+const translation = (id: string, timestamp: number, score: number | null, extra: Partial<TranslationHistoryItem> = {}) => translationItem({
+    id,
+    timestamp,
+    chineseSentence: '我忘了带钱包。',
+    userSentence: '財布を忘れた。',
+    correctedSentence: '財布を忘れてしまった。',
+    score,
+    feedbackExplanation: '**てしまう** adds regret.',
+    ...extra,
+});
+
+const mcq = (id: string, timestamp: number, userChoiceIndex: number) => multipleChoiceItem({
+    id,
+    timestamp,
+    difficulty: Difficulty.N3,
+    chineseSentence: '他一边听音乐一边学习。',
+    options: ['聞きながら', '聞くながら', '聞いてながら', '聞きつつも'],
+    userChoiceIndex,
+    correctOptionIndex: 0,
+    grammarPoint: grammarPoint('～ながら', Difficulty.N3),
+});
+
+const history = [
+    translation('t1', day(1), 40, { grammarPoint: grammarPoint('～てしまう') }),
+    translation('t2', day(5), 90, { chineseSentence: '明天下雨的话就不去了。', userSentence: '雨なら行かない。', correctedSentence: '雨なら行きません。', feedbackExplanation: '' }),
+    translation('t3', day(3), null),
+    mcq('m1', day(2), 0),
+    mcq('m2', day(4), 2),
+    mcq('m3', day(6), -1),
+];
+
+const ids = (filters: Partial<HistoryFilters>) => filterHistory(history, { ...DEFAULT_HISTORY_FILTERS, ...filters }).map(item => item.id);
+
+describe('filterHistory', () => {
+    it('lists everything newest first by default', () => {
+        expect(ids({})).toEqual(['m3', 't2', 'm2', 't3', 'm1', 't1']);
+        expect(isFiltering(DEFAULT_HISTORY_FILTERS)).toBe(false);
+        expect(isFiltering({ ...DEFAULT_HISTORY_FILTERS, sort: 'oldest' })).toBe(false);
+    });
+
+    it('matches every keyword against prompts, answers, corrections and explanations', () => {
+        expect(ids({ query: '雨なら' })).toEqual(['t2']);
+        expect(ids({ query: 'REGRET 財布' })).toEqual(['t3', 't1']);
+        expect(ids({ query: '聞いてながら' })).toEqual(['m2']);
+        expect(ids({ query: '財布 ながら' })).toEqual([]);
+    });
+
+    it('filters by mode, level, length, grammar point and day', () => {
+        expect(ids({ mode: GameMode.MultipleChoice })).toEqual(['m3', 'm2', 'm1']);
+        expect(ids({ level: Difficulty.N4, length: SentenceLength.Short })).toEqual(['t2', 't3', 't1']);
+        expect(ids({ grammarPoint: grammarPointKey(grammarPoint('～てしまう')) })).toEqual(['t1']);
+        expect(ids({ from: '2026-01-02', to: '2026-01-04' })).toEqual(['m2', 't3', 'm1']);
+    });
+
+    it('narrows to graded items within a score range and to answered MCQs by outcome', () => {
+        expect(ids({ minScore: 50 })).toEqual(['t2', 'm1']);
+        expect(ids({ maxScore: 40 })).toEqual(['m2', 't1']);
+        expect(ids({ outcome: 'correct' })).toEqual(['m1']);
+        expect(ids({ outcome: 'incorrect' })).toEqual(['m2']);
+    });
+
+    it('sorts by score with ungraded items last and ties newest first', () => {
+        expect(ids({ sort: 'highest' })).toEqual(['m1', 't2', 't1', 'm2', 'm3', 't3']);
+        expect(ids({ sort: 'lowest' })).toEqual(['m2', 't1', 't2', 'm1', 'm3', 't3']);
+        expect(ids({ sort: 'oldest' })).toEqual(['t1', 'm1', 't3', 'm2', 't2', 'm3']);
+    });
+});
+
+describe('historyGrammarPoints', () => {
+    it('lists each practised grammar point once, by level', () => {
+        expect(historyGrammarPoints(history).map(point => point.grammar_point)).toEqual(['～てしまう', '～ながら']);
+    });
+});
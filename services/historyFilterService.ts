@@ -0,0 +1,109 @@
+import { Difficulty, GameMode, GrammarPoint, HistoryItem, SentenceLength } from '../types';
+import { AttemptRow, attemptRow } from './reportService';
+import { grammarPointKey } from './srsService';
+import { dayKey } from './statsService';
+
+// Search, filters and sort order for the history screen. Every mode is matched through its
+// report row, so the search and the score range see the same fields as the CSV export.
+
+export type HistorySortOrder = 'newest' | 'oldest' | 'highest' | 'lowest';
+
+export type McqOutcome = 'ALL' | 'correct' | 'incorrect';
+
+export interface HistoryFilters {
+  query: string;
+  mode: GameMode | 'ALL';
+  level: Difficulty | 'ALL';
+  length: SentenceLength | 'ALL';
+  minScore: number; // 0-100, inclusive; ungraded items only show while the range is 0-100
+  maxScore: number;
+  outcome: McqOutcome; // anything but 'ALL' keeps answered multiple choice items only
+  grammarPoint: string; // grammarPointKey, '' for any
+  from: string; // YYYY-MM-DD, '' for no bound
+  to: string;
+  sort: HistorySortOrder;
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  mode: 'ALL',
+  level: 'ALL',
+  length: 'ALL',
+  minScore: 0,
+  maxScore: 100,
+  outcome: 'ALL',
+  grammarPoint: '',
+  from: '',
+  to: '',
+  sort: 'newest',
+};
+
+// Whether anything but the sort order narrows the list.
+export const isFiltering = (filters: HistoryFilters): boolean =>
+  (Object.keys(DEFAULT_HISTORY_FILTERS) as (keyof HistoryFilters)[])
+    .some(key => key !== 'sort' && filters[key] !== DEFAULT_HISTORY_FILTERS[key]);
+
+const searchableText = (row: AttemptRow) => [
+  row.prompt,
+  row.answer,
+  row.correction,
+  row.explanation,
+  row.grammarPoint?.grammar_point ?? '',
+  row.grammarPoint?.meaning_cn ?? '',
+].join(' ').toLowerCase();
+
+const matchesOutcome = (item: HistoryItem, outcome: McqOutcome) => {
+  if (outcome === 'ALL') return true;
+  if (item.gameMode !== GameMode.MultipleChoice || item.userChoiceIndex === -1) return false;
+  return (item.userChoiceIndex === item.correctOptionIndex) === (outcome === 'correct');
+};
+
+const matches = (item: HistoryItem, row: AttemptRow, filters: HistoryFilters, keywords: string[]) => {
+  if (filters.mode !== 'ALL' && item.gameMode !== filters.mode) return false;
+  if (filters.level !== 'ALL' && row.level !== filters.level) return false;
+  if (filters.length !== 'ALL' && row.length !== filters.length) return false;
+  if (filters.minScore > 0 || filters.maxScore < 100) {
+    if (row.score === null || row.score < filters.minScore || row.score > filters.maxScore) return false;
+  }
+  if (!matchesOutcome(item, filters.outcome)) return false;
+  if (filters.grammarPoint && (!row.grammarPoint || grammarPointKey(row.grammarPoint) !== filters.grammarPoint)) return false;
+  const day = dayKey(item.timestamp);
+  if ((filters.from && day < filters.from) || (filters.to && day > filters.to)) return false;
+  if (keywords.length > 0) {
+    const text = searchableText(row);
+    if (!keywords.every(keyword => text.includes(keyword))) return false;
+  }
+  return true;
+};
+
+// Ungraded items sort after graded ones whichever way scores are ordered; ties go newest first.
+const compare = (sort: HistorySortOrder) => (a: { item: HistoryItem; row: AttemptRow }, b: { item: HistoryItem; row: AttemptRow }) => {
+  const byDate = b.item.timestamp - a.item.timestamp;
+  if (sort === 'newest') return byDate;
+  if (sort === 'oldest') return -byDate;
+  if (a.row.score === null || b.row.score === null) {
+    return (a.row.score === null ? 1 : 0) - (b.row.score === null ? 1 : 0) || byDate;
+  }
+  return (sort === 'highest' ? b.row.score - a.row.score : a.row.score - b.row.score) || byDate;
+};
+
+export const filterHistory = (history: HistoryItem[], filters: HistoryFilters): HistoryItem[] => {
+  const keywords = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return history
+    .map(item => ({ item, row: attemptRow(item) }))
+    .filter(({ item, row }) => matches(item, row, filters, keywords))
+    .sort(compare(filters.sort))
+    .map(({ item }) => item);
+};
+
+// The grammar points practised in the history, by level then name, for the filter menu.
+export const historyGrammarPoints = (history: HistoryItem[]): GrammarPoint[] => {
+  const points = new Map<string, GrammarPoint>();
+  for (const item of history) {
+    const point = attemptRow(item).grammarPoint;
+    if (point && !points.has(grammarPointKey(point))) points.set(grammarPointKey(point), point);
+  }
+  const levels = Object.values(Difficulty);
+  return Array.from(points.values()).sort((a, b) =>
+    levels.indexOf(a.level) - levels.indexOf(b.level) || a.grammar_point.localeCompare(b.grammar_point, 'ja'));
+};
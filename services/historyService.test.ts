@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { Difficulty, GameMode, HistoryItem, MultipleChoiceHistoryItem, SentenceLength, TranslationHistoryItem } from '../types';
+
+type HistoryService = typeof import('./historyService');
+
+const translationItem = (id: string, timestamp: number, audioBase64?: string): TranslationHistoryItem => ({
+    id,
+    timestamp,
+    gameMode: GameMode.Translation,
+    difficulty: Difficulty.N5,
+    sentenceLength: SentenceLength.Short,
+    chineseSentence: `中文 ${id}`,
+    userSentence: '訳',
+    correctedSentence: '訳です。',
+    score: 80,
+    evaluation: '好',
+    feedbackExplanation: '',
+    ...(audioBase64 ? { audioBase64 } : {}),
+});
+
+const mcqItem = (id: string, timestamp: number, audiosBase64?: (string | null)[]): MultipleChoiceHistoryItem => ({
+    id,
+    timestamp,
+    gameMode: GameMode.MultipleChoice,
+    difficulty: Difficulty.N5,
+    sentenceLength: SentenceLength.Short,
+    chineseSentence: `中文 ${id}`,
+    options: ['あ', 'い', 'う', 'え'],
+    userChoiceIndex: 1,
+    correctOptionIndex: 0,
+    mcqExplanation: '',
+    ...(audiosBase64 ? { audiosBase64 } : {}),
+});
+
+// Each test gets an empty database and a fresh module, so nothing is cached between them.
+const loadService = async (): Promise<HistoryService> => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.resetModules();
+    return import('./historyService');
+};
+
+describe('historyService', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('migrates the legacy localStorage history, including audio, and removes the old key', async () => {
+        const legacy: HistoryItem[] = [translationItem('a', 1, 'AAEC'), mcqItem('b', 2, [null, 'AwQF', null, null])];
+        localStorage.setItem('japanesePracticeHistory', JSON.stringify(legacy));
+
+        const service = await loadService();
+        const history = await service.getHistory();
+
+        expect(history.map(item => item.id)).toEqual(['b', 'a']);
+        expect(history.every(item => !('audioBase64' in item) && !('audiosBase64' in item))).toBe(true);
+        expect(await service.getHistoryAudio('a')).toEqual(['AAEC']);
+        expect(await service.getHistoryAudio('b')).toEqual([null, 'AwQF']);
+        expect(localStorage.getItem('japanesePracticeHistory')).toBeNull();
+    });
+
+    it('migrates every legacy item even when one of the clips is malformed', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const legacy: HistoryItem[] = [translationItem('a', 1, 'AAEC'), translationItem('b', 2, '%%not base64%%'), translationItem('c', 3, 'AwQF')];
+        localStorage.setItem('japanesePracticeHistory', JSON.stringify(legacy));
+
+        const service = await loadService();
+
+        expect((await service.getHistory()).map(item => item.id)).toEqual(['c', 'b', 'a']);
+        expect(await service.getHistoryAudio('b')).toEqual([]);
+        expect(await service.getHistoryAudio('c')).toEqual(['AwQF']);
+        expect(localStorage.getItem('japanesePracticeHistory')).toBeNull();
+    });
+
+    it('keeps every item instead of truncating', async () => {
+        const service = await loadService();
+        for (let i = 0; i < 120; i++) {
+            await service.addHistoryItem(translationItem(`item-${i}`, i));
+        }
+        const history = await service.getHistory();
+        expect(history).toHaveLength(120);
+        expect(history[0].id).toBe('item-119');
+    });
+
+    it('stores audio added by an update and inlines it again on export', async () => {
+        const service = await loadService();
+        await service.addHistoryItem(translationItem('a', 1));
+        expect(await service.getHistoryAudio('a')).toEqual([]);
+
+        await service.updateHistoryItem(translationItem('a', 1, 'AAEC'));
+        const [exported] = await service.exportHistory();
+        expect(exported.gameMode === GameMode.Translation && exported.audioBase64).toBe('AAEC');
+    });
+
+    it('deletes audio together with its item', async () => {
+        const service = await loadService();
+        await service.addHistoryItem(translationItem('a', 1, 'AAEC'));
+        await service.addHistoryItem(translationItem('b', 2, 'AwQF'));
+
+        await service.deleteHistoryItem('a');
+
+        expect((await service.getHistory()).map(item => item.id)).toEqual(['b']);
+        expect(await service.getHistoryAudio('a')).toEqual([]);
+        expect(await service.getHistoryAudio('b')).toEqual(['AwQF']);
+    });
+
+    it('skips duplicates and invalid entries when merging an import', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const service = await loadService();
+        await service.addHistoryItem(translationItem('a', 1));
+
+        const merged = await service.mergeAndSaveHistory([
+            { ...translationItem('a-copy', 1), chineseSentence: '中文 a' },
+            translationItem('c', 3),
+            { id: 'broken' } as unknown as HistoryItem,
+        ]);
+
+        expect(merged.map(item => item.id)).toEqual(['c', 'a']);
+    });
+
+    it('previews an import without writing, counting new, duplicate, invalid and over-the-cap items', async () => {
+        const service = await loadService();
+        await service.addHistoryItem(translationItem('a', 1));
+
+        const preview = await service.previewHistoryImport([
+            translationItem('a', 1),
+            translationItem('b', 2),
+            translationItem('b', 2),
+            { ...translationItem('c', 3), score: 'great' },
+        ]);
+
+        expect(preview.newItems.map(item => item.id)).toEqual(['b']);
+        expect(preview.duplicates).toBe(2);
+        expect(preview.invalid).toEqual([{ index: 3, id: 'c', reasons: ['score: expected a number from 0 to 100 or null'] }]);
+        expect(preview.dropped).toBe(0);
+        expect((await service.getHistory()).map(item => item.id)).toEqual(['a']);
+
+        const large = Array.from({ length: service.MAX_IMPORT_ITEMS + 2 }, (_, index) => translationItem(`n${index}`, 10 + index));
+        const capped = await service.previewHistoryImport(large);
+        expect(capped.dropped).toBe(2);
+        expect(capped.newItems[0].id).toBe(`n${service.MAX_IMPORT_ITEMS + 1}`);
+    });
+
+    it('refuses a file that is not a list of items', async () => {
+        const service = await loadService();
+        await expect(service.previewHistoryImport({ items: [] })).rejects.toThrow(/array of history items/);
+    });
+});
@@ -1,106 +1,319 @@
 import { HistoryItem, GameMode } from '../types';
+import { decode, encode } from './base64';
+import { clozeSentence } from './clozeService';
+import { reorderSentence } from './reorderService';
+import { examQuestionSentence } from './examService';
+import { validateHistoryItem } from './historyValidation';
 
-const HISTORY_KEY = 'japanesePracticeHistory';
+// Practice history lives in IndexedDB. Items go in the `history` store; their audio
+// clips (base64 PCM in memory) are stored separately as binary blobs in `audio`,
+// keyed by [itemId, clipIndex], so the item list stays small and there is no quota
+// pressure forcing us to cap the number of records.
 
-export const getHistory = (): HistoryItem[] => {
-  try {
-    const historyJson = localStorage.getItem(HISTORY_KEY);
-    if (historyJson) {
-      return JSON.parse(historyJson);
+const DB_NAME = 'japanesePractice';
+const HISTORY_STORE = 'history';
+const AUDIO_STORE = 'audio';
+
+// The pre-IndexedDB storage location, migrated once and then removed.
+const LEGACY_HISTORY_KEY = 'japanesePracticeHistory';
+
+// One entry per schema version. Append new steps; never edit old ones,
+// since existing databases only run the steps above their current version.
+const migrations: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: history items by id with a timestamp index, audio clips in their own store.
+  (db) => {
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    history.createIndex('timestamp', 'timestamp');
+    db.createObjectStore(AUDIO_STORE);
+  },
+];
+
+const DB_VERSION = migrations.length;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const audioRange = (id: string) => IDBKeyRange.bound([id, 0], [id, Infinity]);
+
+// Splits the inline base64 audio off an item so it can be stored as binary.
+const splitAudio = (item: HistoryItem): { record: HistoryItem; clips: (string | null)[] } => {
+  if (item.gameMode === GameMode.MultipleChoice || item.gameMode === GameMode.Conversation) {
+    const { audiosBase64, ...record } = item;
+    return { record, clips: audiosBase64 ?? [] };
+  }
+  if (item.gameMode === GameMode.Exam) {
+    return { record: item, clips: [] };
+  }
+  const { audioBase64, ...record } = item;
+  return { record, clips: [audioBase64 ?? null] };
+};
+
+interface StoredItem {
+  record: HistoryItem;
+  clips: (Uint8Array | null)[];
+}
+
+// Decodes an item's clips up front, before any transaction is opened: a transaction is
+// committed as soon as it has nothing queued, so nothing that can throw may run inside it.
+// A malformed clip is dropped (and regenerated on first play) rather than losing the item.
+const toStoredItem = (item: HistoryItem): StoredItem => {
+  const { record, clips } = splitAudio(item);
+  return {
+    record,
+    clips: clips.map((clip, index) => {
+      if (!clip) return null;
+      try {
+        return decode(clip);
+      } catch (error) {
+        console.warn(`Dropping malformed audio clip ${index} of history item ${item.id}:`, error);
+        return null;
+      }
+    }),
+  };
+};
+
+const putItem = (tx: IDBTransaction, { record, clips }: StoredItem) => {
+  tx.objectStore(HISTORY_STORE).put(record);
+  clips.forEach((clip, index) => {
+    if (clip) {
+      tx.objectStore(AUDIO_STORE).put(clip, [record.id, index]);
     }
+  });
+};
+
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  const legacyJson = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!legacyJson) return;
+
+  const legacyHistory: HistoryItem[] = JSON.parse(legacyJson);
+  const storedItems = (Array.isArray(legacyHistory) ? legacyHistory : [])
+    .filter(item => typeof item?.id === 'string')
+    .map(toStoredItem);
+  const tx = db.transaction([HISTORY_STORE, AUDIO_STORE], 'readwrite');
+  storedItems.forEach(storedItem => putItem(tx, storedItem));
+  await transactionDone(tx);
+  // Only drop the old copy once everything is safely in IndexedDB.
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction as IDBTransaction;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          migrations[version](request.result, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      try {
+        await migrateFromLocalStorage(db);
+      } catch (error) {
+        console.error('Failed to migrate history from localStorage:', error);
+      }
+      return db;
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Items come back without their audio; use getHistoryAudio to load it on demand.
+export const getHistory = async (): Promise<HistoryItem[]> => {
+  try {
+    const db = await openDatabase();
+    const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('timestamp');
+    const items = await requestToPromise(index.getAll() as IDBRequest<HistoryItem[]>);
+    return items.reverse();
   } catch (error) {
-    console.error('Failed to load history from localStorage:', error);
+    console.error('Failed to load history from IndexedDB:', error);
   }
   return [];
 };
 
-export const addHistoryItem = (newItem: HistoryItem): void => {
+// Returns the item's clips by index (one for translation/sentence check, one per option for MCQ,
+// one per turn for conversations).
+export const getHistoryAudio = async (id: string): Promise<(string | null)[]> => {
   try {
-    const currentHistory = getHistory();
-    // To avoid excessive storage usage, let's cap the history at 100 items
-    const newHistory = [newItem, ...currentHistory].slice(0, 100);
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(newHistory));
+    const db = await openDatabase();
+    const store = db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE);
+    const range = audioRange(id);
+    const [keys, clips] = await Promise.all([
+      requestToPromise(store.getAllKeys(range)),
+      requestToPromise(store.getAll(range) as IDBRequest<Uint8Array[]>),
+    ]);
+    const result: (string | null)[] = [];
+    keys.forEach((key, i) => {
+      result[(key as [string, number])[1]] = encode(clips[i]);
+    });
+    return Array.from(result, clip => clip ?? null);
   } catch (error) {
-    console.error('Failed to save history item to localStorage:', error);
+    console.error('Failed to load history audio from IndexedDB:', error);
   }
+  return [];
 };
 
-export const updateHistoryItem = (updatedItem: HistoryItem): void => {
+export const addHistoryItem = async (newItem: HistoryItem): Promise<void> => {
   try {
-    const currentHistory = getHistory();
-    const newHistory = currentHistory.map(item =>
-      item.id === updatedItem.id ? updatedItem : item
-    );
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(newHistory));
+    const storedItem = toStoredItem(newItem);
+    const db = await openDatabase();
+    const tx = db.transaction([HISTORY_STORE, AUDIO_STORE], 'readwrite');
+    putItem(tx, storedItem);
+    await transactionDone(tx);
   } catch (error) {
-    console.error('Failed to update history item in localStorage:', error);
+    console.error('Failed to save history item to IndexedDB:', error);
   }
 };
 
-export const deleteHistoryItem = (id: string): void => {
+export const updateHistoryItem = async (updatedItem: HistoryItem): Promise<void> => {
+  // `put` replaces the record, and clips not present on the item are left untouched.
+  await addHistoryItem(updatedItem);
+};
+
+export const deleteMultipleHistoryItems = async (ids: string[]): Promise<void> => {
   try {
-    const currentHistory = getHistory();
-    const newHistory = currentHistory.filter(item => item.id !== id);
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(newHistory));
+    const db = await openDatabase();
+    const tx = db.transaction([HISTORY_STORE, AUDIO_STORE], 'readwrite');
+    for (const id of ids) {
+      tx.objectStore(HISTORY_STORE).delete(id);
+      tx.objectStore(AUDIO_STORE).delete(audioRange(id));
+    }
+    await transactionDone(tx);
   } catch (error) {
-    console.error('Failed to delete history item from localStorage:', error);
+    console.error('Failed to delete history items from IndexedDB:', error);
+  }
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  await deleteMultipleHistoryItems([id]);
+};
+
+// The given items with their audio inlined again, for exports that need the clips.
+export const exportHistoryItems = async (items: HistoryItem[]): Promise<HistoryItem[]> => {
+  return Promise.all(items.map(async item => {
+    const clips = await getHistoryAudio(item.id);
+    if (item.gameMode === GameMode.MultipleChoice || item.gameMode === GameMode.Conversation) {
+      return clips.some(clip => clip) ? { ...item, audiosBase64: clips } : item;
+    }
+    if (item.gameMode === GameMode.Exam) return item;
+    return clips[0] ? { ...item, audioBase64: clips[0] } : item;
+  }));
+};
+
+// Full history with audio inlined again, for JSON backups.
+export const exportHistory = async (): Promise<HistoryItem[]> => {
+  return exportHistoryItems(await getHistory());
+};
+
+// The sentence a practice item is about, used to recognise duplicates on import.
+const getMainSentence = (item: HistoryItem): string => {
+  switch (item.gameMode) {
+    case GameMode.SentenceCheck:
+      return item.userSentence;
+    case GameMode.Dictation:
+    case GameMode.ReverseTranslation:
+      return item.japaneseSentence;
+    case GameMode.Cloze:
+      return clozeSentence(item);
+    case GameMode.Reorder:
+      return reorderSentence(item);
+    case GameMode.Exam:
+      return item.questions.map(examQuestionSentence).join('\n');
+    case GameMode.Conversation:
+      return item.turns.map(turn => turn.text).join('\n');
+    default:
+      return item.chineseSentence;
   }
 };
 
-export const deleteMultipleHistoryItems = (ids: string[]): void => {
-    try {
-        const idsToDelete = new Set(ids);
-        const currentHistory = getHistory();
-        const newHistory = currentHistory.filter(item => !idsToDelete.has(item.id));
-        localStorage.setItem(HISTORY_KEY, JSON.stringify(newHistory));
-    } catch (error) {
-        console.error('Failed to delete multiple history items from localStorage:', error);
+// A single import adds at most this many records (the newest), so a runaway file
+// cannot flood the database.
+export const MAX_IMPORT_ITEMS = 5000;
+
+export interface InvalidImportItem {
+  index: number; // position in the imported file
+  id?: string;
+  reasons: string[];
+}
+
+export interface ImportPreview {
+  newItems: HistoryItem[]; // what an import would add, newest first
+  duplicates: number;
+  invalid: InvalidImportItem[];
+  dropped: number; // valid new items beyond MAX_IMPORT_ITEMS
+}
+
+const classifyImport = (imported: unknown[], currentHistory: HistoryItem[]): ImportPreview => {
+  const keyOf = (item: HistoryItem) => `${item.timestamp}-${getMainSentence(item)}`;
+  const existingKeys = new Set(currentHistory.map(keyOf));
+  const existingIds = new Set(currentHistory.map(item => item.id));
+  const preview: ImportPreview = { newItems: [], duplicates: 0, invalid: [], dropped: 0 };
+
+  imported.forEach((value, index) => {
+    const reasons = validateHistoryItem(value);
+    if (reasons.length > 0) {
+      const id = (value as { id?: unknown } | null)?.id;
+      preview.invalid.push({ index, id: typeof id === 'string' ? id : undefined, reasons });
+      return;
+    }
+    const item = value as HistoryItem;
+    // Existing data is kept over imported data in case of a duplicate.
+    const key = keyOf(item);
+    if (existingKeys.has(key) || existingIds.has(item.id)) {
+      preview.duplicates++;
+      return;
     }
+    existingKeys.add(key);
+    existingIds.add(item.id);
+    preview.newItems.push(item);
+  });
+
+  preview.newItems.sort((a, b) => b.timestamp - a.timestamp);
+  preview.dropped = Math.max(0, preview.newItems.length - MAX_IMPORT_ITEMS);
+  preview.newItems = preview.newItems.slice(0, MAX_IMPORT_ITEMS);
+  return preview;
+};
+
+// What importing the parsed file would do, without writing anything.
+export const previewHistoryImport = async (data: unknown): Promise<ImportPreview> => {
+  if (!Array.isArray(data)) {
+    throw new Error("Invalid history file format. The file should contain an array of history items.");
+  }
+  return classifyImport(data, await getHistory());
 };
 
-export const mergeAndSaveHistory = (importedHistory: HistoryItem[]): HistoryItem[] => {
+// Saves the new, valid items of an import. The classification is repeated against the
+// current history, which may have changed since the preview.
+export const mergeAndSaveHistory = async (importedHistory: unknown[]): Promise<HistoryItem[]> => {
   try {
     if (!Array.isArray(importedHistory)) {
       console.error("Imported data is not an array.");
       return getHistory(); // return current history without changes
     }
-    const currentHistory = getHistory();
-    // Prioritize existing items by placing them first
-    const combinedHistory = [...currentHistory, ...importedHistory];
-
-    const historyMap = new Map<string, HistoryItem>();
-
-    for (const item of combinedHistory) {
-      // FIX: The original code incorrectly accessed `chineseSentence` on all `HistoryItem` types.
-      // This fix uses the `gameMode` discriminant property to safely access the correct sentence property
-      // for validation and creating a deduplication key.
-      let mainSentence;
-      if (item.gameMode === GameMode.SentenceCheck) {
-        mainSentence = item.userSentence;
-      } else {
-        mainSentence = item.chineseSentence;
-      }
-
-      // Basic validation for each item
-      if (typeof item.id !== 'string' || typeof item.timestamp !== 'number' || typeof mainSentence !== 'string') {
-          console.warn('Skipping invalid item during merge:', item);
-          continue;
-      }
-      const key = `${item.timestamp}-${mainSentence}`;
-      // If key doesn't exist, add it. This ensures existing data is kept over imported data in case of a duplicate.
-      if (!historyMap.has(key)) {
-        historyMap.set(key, item);
-      }
-    }
-
-    const mergedHistory = Array.from(historyMap.values())
-        .sort((a, b) => b.timestamp - a.timestamp);
-    
-    // Allow a larger history after a merge, capping at 200 items.
-    const finalHistory = mergedHistory.slice(0, 200);
+    const { newItems, invalid } = classifyImport(importedHistory, await getHistory());
+    invalid.forEach(({ index, reasons }) => console.warn(`Skipping invalid item ${index} during merge:`, reasons));
 
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(finalHistory));
-    return finalHistory;
+    const storedItems = newItems.map(toStoredItem);
+    const db = await openDatabase();
+    const tx = db.transaction([HISTORY_STORE, AUDIO_STORE], 'readwrite');
+    storedItems.forEach(storedItem => putItem(tx, storedItem));
+    await transactionDone(tx);
+    return getHistory();
   } catch (error) {
     console.error('Failed to merge and save history:', error);
     return getHistory(); // Return existing history on error
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_AUDIO_BASE64_LENGTH, validateHistoryItem } from './historyValidation';
+import { ConversationScenario, ConversationSpeaker, Difficulty, ExamQuestion, GameMode, HistoryItem, SentenceLength } from '../types';
+
+const translation: HistoryItem = {
+    id: 't',
+    timestamp: 1,
+    gameMode: GameMode.Translation,
+    difficulty: Difficulty.N5,
+    sentenceLength: SentenceLength.Short,
+    chineseSentence: '中文',
+    userSentence: '訳',
+    correctedSentence: '訳です。',
+    score: 80,
+    evaluation: '好',
+    feedbackExplanation: '',
+    rubric: { 助词使用: 70 },
+    audioBase64: 'AAEC',
+};
+
+const mcq: HistoryItem = {
+    id: 'm',
+    timestamp: 2,
+    gameMode: GameMode.MultipleChoice,
+    difficulty: Difficulty.N5,
+    sentenceLength: SentenceLength.Short,
+    chineseSentence: '中文',
+    options: ['あ', 'い', 'う', 'え'],
+    userChoiceIndex: -1,
+    correctOptionIndex: 3,
+    mcqExplanation: '',
+    audiosBase64: [null, 'AwQF', null, null],
+};
+
+const exam: HistoryItem = {
+    id: 'e',
+    timestamp: 4,
+    gameMode: GameMode.Exam,
+    difficulty: Difficulty.N3,
+    sentenceLength: SentenceLength.Short,
+    questions: [
+        {
+            gameMode: GameMode.MultipleChoice,
+            task: { chineseSentence: '中文', options: ['あ', 'い', 'う', 'え'], correctOptionIndex: 1, explanation: '' },
+            userChoiceIndex: 1,
+            isCorrect: true,
+        },
+        {
+            gameMode: GameMode.Reorder,
+            task: { before: '', chunks: ['雨が', '降る', 'かもしれない'], after: '。', starIndex: 2, chineseTranslation: '可能会下雨。' },
+            userChoiceIndex: -1,
+            isCorrect: false,
+        },
+    ],
+    timeLimitSeconds: 300,
+    timeUsedSeconds: 120,
+    timedOut: false,
+};
+
+const conversation: HistoryItem = {
+    id: 'c',
+    timestamp: 3,
+    gameMode: GameMode.Conversation,
+    difficulty: Difficulty.N4,
+    scenario: ConversationScenario.Shop,
+    turns: [
+        { speaker: ConversationSpeaker.Partner, text: 'いらっしゃいませ。' },
+        { speaker: ConversationSpeaker.Learner, text: 'これください。', feedback: { score: 90, evaluation: '', correctedSentence: 'これをください。', explanation: '' } },
+    ],
+};
+
+describe('validateHistoryItem', () => {
+    it('accepts well-formed items of each shape', () => {
+        expect(validateHistoryItem(translation)).toEqual([]);
+        expect(validateHistoryItem(mcq)).toEqual([]);
+        expect(validateHistoryItem(conversation)).toEqual([]);
+        expect(validateHistoryItem(exam)).toEqual([]);
+    });
+
+    it('names each missing or mistyped field', () => {
+        const { score, ...withoutScore } = translation as Extract<HistoryItem, { gameMode: GameMode.Translation }>;
+        expect(validateHistoryItem(withoutScore)).toEqual(['score: expected a number from 0 to 100 or null']);
+        expect(validateHistoryItem({ ...translation, difficulty: 'N6', rubric: { 发音: 50 } })).toEqual([
+            'difficulty: expected one of N5, N4, N3, N2, N1',
+            'rubric key: expected one of 句法结构, 助词使用, 修饰关系, 时态一致, 敬体/常体, 自然表达, 语气与情态, 文化语感, 常用句式',
+        ]);
+    });
+
+    it('rejects unknown modes before looking at the rest', () => {
+        expect(validateHistoryItem({ id: 'x', timestamp: 1, gameMode: 'KARAOKE' })).toHaveLength(1);
+        expect(validateHistoryItem({ id: '', timestamp: 1, gameMode: GameMode.Translation })).toEqual(['id: expected a non-empty string']);
+        expect(validateHistoryItem(null)).toEqual(['expected an object']);
+    });
+
+    it('rejects oversized or non-base64 audio', () => {
+        expect(validateHistoryItem({ ...translation, audioBase64: 'A'.repeat(MAX_AUDIO_BASE64_LENGTH + 4) })[0]).toMatch(/too large/);
+        expect(validateHistoryItem({ ...mcq, audiosBase64: [null, '<script>'] })).toEqual(['audiosBase64[1]: expected base64 audio']);
+    });
+
+    it('checks indices against the lists they point into', () => {
+        expect(validateHistoryItem({ ...mcq, correctOptionIndex: 4 })).toEqual(['correctOptionIndex: out of range for options']);
+    });
+
+    it('checks the indices of each exam question against its own task', () => {
+        const { questions } = exam as Extract<HistoryItem, { gameMode: GameMode.Exam }>;
+        const [choice, reorder] = questions as [Extract<ExamQuestion, { gameMode: GameMode.MultipleChoice }>, Extract<ExamQuestion, { gameMode: GameMode.Reorder }>];
+        expect(validateHistoryItem({
+            ...exam,
+            questions: [
+                { ...choice, task: { ...choice.task, correctOptionIndex: 4 }, userChoiceIndex: 7 },
+                { ...reorder, task: { ...reorder.task, starIndex: 3 } },
+            ],
+        })).toEqual([
+            'questions[0].task.correctOptionIndex: out of range for questions[0].task.options',
+            'questions[0].userChoiceIndex: out of range for questions[0].task.options',
+            'questions[1].task.starIndex: out of range for questions[1].task.chunks',
+        ]);
+    });
+
+    it('validates nested conversation feedback', () => {
+        const [partner] = (conversation as Extract<HistoryItem, { gameMode: GameMode.Conversation }>).turns;
+        expect(validateHistoryItem({ ...conversation, turns: [partner, { speaker: ConversationSpeaker.Learner, text: 'はい' }] }))
+            .toEqual(['turns[1].feedback: expected an object']);
+    });
+});
@@ -0,0 +1,329 @@
+import {
+  GameMode, Difficulty, SentenceLength, RubricDimension, NuanceVerdict, Register, SpeechStyle,
+  ReorderVariant, ConversationScenario, ConversationSpeaker,
+} from '../types';
+import { MAX_HINTS } from './hintService';
+
+// Runtime validation of history items from outside the app (imported backups). Every field
+// a history card reads is checked, so a malformed file is rejected here instead of crashing
+// the history screen later. Each check returns the reasons a value is invalid, empty if valid.
+
+type Check = (value: unknown, path: string) => string[];
+
+// Roughly 90 seconds of 24 kHz 16-bit mono speech, far longer than any sentence we synthesize.
+export const MAX_AUDIO_BASE64_LENGTH = 6_000_000;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fail = (path: string, expected: string) => [`${path}: expected ${expected}`];
+
+const string: Check = (value, path) => (typeof value === 'string' ? [] : fail(path, 'a string'));
+
+const boolean: Check = (value, path) => (typeof value === 'boolean' ? [] : fail(path, 'true or false'));
+
+const number: Check = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? [] : fail(path, 'a number');
+
+const integer = (min: number, max: number = Number.MAX_SAFE_INTEGER): Check => (value, path) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+    ? []
+    : fail(path, max === Number.MAX_SAFE_INTEGER ? `a whole number of at least ${min}` : `a whole number from ${min} to ${max}`);
+
+const percentage: Check = (value, path) =>
+  typeof value === 'number' && value >= 0 && value <= 100 ? [] : fail(path, 'a number from 0 to 100');
+
+const score: Check = (value, path) => (value === null ? [] : percentage(value, path).map(reason => `${reason} or null`));
+
+const oneOf = (values: Record<string, string>): Check => {
+  const allowed = new Set(Object.values(values));
+  return (value, path) =>
+    typeof value === 'string' && allowed.has(value) ? [] : fail(path, `one of ${Array.from(allowed).join(', ')}`);
+};
+
+const optional = (check: Check): Check => (value, path) => (value === undefined ? [] : check(value, path));
+
+const nullable = (check: Check): Check => (value, path) => (value === null ? [] : check(value, path));
+
+const arrayOf = (check: Check): Check => (value, path) =>
+  Array.isArray(value) ? value.flatMap((entry, index) => check(entry, `${path}[${index}]`)) : fail(path, 'a list');
+
+const shape = (fields: Record<string, Check>): Check => (value, path) => {
+  if (!isRecord(value)) return fail(path, 'an object');
+  return Object.entries(fields).flatMap(([key, check]) => check(value[key], path ? `${path}.${key}` : key));
+};
+
+const audio: Check = (value, path) => {
+  if (typeof value !== 'string') return fail(path, 'base64 audio');
+  if (value.length > MAX_AUDIO_BASE64_LENGTH) return [`${path}: audio clip is too large (${Math.round(value.length / 1_000_000)} MB)`];
+  return BASE64_PATTERN.test(value) ? [] : fail(path, 'base64 audio');
+};
+
+const rubric: Check = (value, path) => {
+  if (!isRecord(value)) return fail(path, 'an object');
+  const dimensions = oneOf(RubricDimension);
+  return Object.entries(value).flatMap(([key, entry]) => [
+    ...dimensions(key, `${path} key`),
+    ...percentage(entry, `${path}.${key}`),
+  ]);
+};
+
+const grammarPoint = shape({
+  level: oneOf(Difficulty),
+  grammar_point: string,
+  meaning_cn: string,
+  usage: string,
+  example_ja: string,
+  example_cn: string,
+  note: string,
+});
+
+const fixes = arrayOf(shape({ original: string, corrected: string, reason: string }));
+
+const sentences = arrayOf(shape({
+  sentence: string,
+  score,
+  evaluation: string,
+  correctedSentence: string,
+  explanation: string,
+  fixes: optional(fixes),
+  style: optional(oneOf(SpeechStyle)),
+}));
+
+const alternatives = arrayOf(shape({ register: oneOf(Register), sentence: string }));
+
+const followUps = arrayOf(shape({ question: string, answer: string }));
+
+const feedback = shape({
+  score,
+  evaluation: string,
+  correctedSentence: string,
+  explanation: string,
+  rubric: optional(rubric),
+  fixes: optional(fixes),
+  nuance: optional(oneOf(NuanceVerdict)),
+  reply: optional(string),
+  sentences: optional(sentences),
+  alternatives: optional(alternatives),
+  matchedRegister: optional(oneOf(Register)),
+});
+
+const conversationTurn: Check = (value, path) => {
+  if (!isRecord(value)) return fail(path, 'an object');
+  if (value.speaker === ConversationSpeaker.Partner) {
+    return shape({ text: string, translation: optional(string) })(value, path);
+  }
+  if (value.speaker === ConversationSpeaker.Learner) {
+    return shape({ text: string, feedback })(value, path);
+  }
+  return oneOf(ConversationSpeaker)(value.speaker, `${path}.speaker`);
+};
+
+const multipleChoiceTask = shape({
+  chineseSentence: string,
+  options: arrayOf(string),
+  correctOptionIndex: integer(0),
+  chinglishOptionIndex: optional(integer(0)),
+  explanation: string,
+  grammarPoint: optional(grammarPoint),
+});
+
+const clozeTask = shape({
+  before: string,
+  answer: string,
+  after: string,
+  reading: string,
+  alternatives: arrayOf(string),
+  chineseTranslation: string,
+  grammarPoint: optional(grammarPoint),
+});
+
+const reorderTask = shape({
+  before: string,
+  chunks: arrayOf(string),
+  after: string,
+  starIndex: integer(0),
+  chineseTranslation: string,
+  grammarPoint: optional(grammarPoint),
+});
+
+const examQuestion: Check = (value, path) => {
+  if (!isRecord(value)) return fail(path, 'an object');
+  switch (value.gameMode) {
+    case GameMode.MultipleChoice:
+      return shape({ task: multipleChoiceTask, userChoiceIndex: integer(-1), isCorrect: boolean })(value, path);
+    case GameMode.Cloze:
+      return shape({ task: clozeTask, userAnswer: string, isCorrect: boolean })(value, path);
+    case GameMode.Reorder:
+      return shape({ task: reorderTask, userChoiceIndex: integer(-1), isCorrect: boolean })(value, path);
+    default:
+      return fail(`${path}.gameMode`, `one of ${GameMode.MultipleChoice}, ${GameMode.Cloze}, ${GameMode.Reorder}`);
+  }
+};
+
+const practiced = { difficulty: oneOf(Difficulty), sentenceLength: oneOf(SentenceLength) };
+
+const variants: Record<GameMode, Check> = {
+  [GameMode.Translation]: shape({
+    ...practiced,
+    chineseSentence: string,
+    userSentence: string,
+    correctedSentence: string,
+    score,
+    evaluation: string,
+    feedbackExplanation: string,
+    rubric: optional(rubric),
+    fixes: optional(fixes),
+    hintsUsed: optional(integer(0, MAX_HINTS)),
+    sentences: optional(sentences),
+    alternatives: optional(alternatives),
+    matchedRegister: optional(oneOf(Register)),
+    grammarPoint: optional(grammarPoint),
+    followUps: optional(followUps),
+    parentId: optional(string),
+    audioBase64: optional(audio),
+  }),
+  [GameMode.MultipleChoice]: shape({
+    ...practiced,
+    chineseSentence: string,
+    options: arrayOf(string),
+    userChoiceIndex: integer(-1),
+    correctOptionIndex: integer(0),
+    chinglishOptionIndex: optional(integer(0)),
+    mcqExplanation: string,
+    grammarPoint: optional(grammarPoint),
+    parentId: optional(string),
+    audiosBase64: optional(arrayOf(nullable(audio))),
+  }),
+  [GameMode.Reorder]: shape({
+    ...practiced,
+    before: string,
+    chunks: arrayOf(string),
+    after: string,
+    starIndex: integer(0),
+    chineseTranslation: string,
+    variant: oneOf(ReorderVariant),
+    userOrder: arrayOf(integer(0)),
+    isCorrect: boolean,
+    grammarPoint: optional(grammarPoint),
+    audioBase64: optional(audio),
+  }),
+  [GameMode.SentenceCheck]: shape({
+    userSentence: string,
+    correctedSentence: string,
+    score,
+    evaluation: string,
+    feedbackExplanation: string,
+    rubric: optional(rubric),
+    fixes: optional(fixes),
+    sentences: optional(sentences),
+    followUps: optional(followUps),
+    audioBase64: optional(audio),
+  }),
+  [GameMode.Dictation]: shape({
+    ...practiced,
+    japaneseSentence: string,
+    segments: arrayOf(shape({ text: string, reading: string })),
+    chineseTranslation: string,
+    userTranscript: string,
+    accuracy: percentage,
+    grammarPoint: optional(grammarPoint),
+    audioBase64: optional(audio),
+  }),
+  [GameMode.ReverseTranslation]: shape({
+    ...practiced,
+    japaneseSentence: string,
+    userSentence: string,
+    correctedSentence: string,
+    score,
+    evaluation: string,
+    nuance: optional(oneOf(NuanceVerdict)),
+    feedbackExplanation: string,
+    grammarPoint: optional(grammarPoint),
+    followUps: optional(followUps),
+    audioBase64: optional(audio),
+  }),
+  [GameMode.Cloze]: shape({
+    ...practiced,
+    before: string,
+    answer: string,
+    after: string,
+    reading: string,
+    alternatives: arrayOf(string),
+    chineseTranslation: string,
+    userAnswer: string,
+    isCorrect: boolean,
+    grammarPoint: optional(grammarPoint),
+    audioBase64: optional(audio),
+  }),
+  [GameMode.Exam]: shape({
+    ...practiced,
+    questions: arrayOf(examQuestion),
+    timeLimitSeconds: number,
+    timeUsedSeconds: number,
+    timedOut: boolean,
+  }),
+  [GameMode.Conversation]: shape({
+    difficulty: oneOf(Difficulty),
+    scenario: oneOf(ConversationScenario),
+    turns: arrayOf(conversationTurn),
+    audiosBase64: optional(arrayOf(nullable(audio))),
+  }),
+};
+
+// Indices that have to point into the item's own lists. Exam questions are checked the same
+// way, with their fields named by the question they belong to.
+const outOf = (field: string, list: string) => [`${field}: out of range for ${list}`];
+
+const inRange = (index: unknown, list: unknown) => index === undefined || (index as number) < (list as unknown[]).length;
+
+const examQuestionReasons = (question: Record<string, unknown>, path: string): string[] => {
+  const task = question.task as Record<string, unknown>;
+  if (question.gameMode === GameMode.MultipleChoice) {
+    const options = `${path}.task.options`;
+    return [
+      ...(inRange(task.correctOptionIndex, task.options) ? [] : outOf(`${path}.task.correctOptionIndex`, options)),
+      ...(inRange(question.userChoiceIndex, task.options) ? [] : outOf(`${path}.userChoiceIndex`, options)),
+      ...(inRange(task.chinglishOptionIndex, task.options) ? [] : outOf(`${path}.task.chinglishOptionIndex`, options)),
+    ];
+  }
+  if (question.gameMode === GameMode.Reorder) {
+    const chunks = `${path}.task.chunks`;
+    return [
+      ...(inRange(task.starIndex, task.chunks) ? [] : outOf(`${path}.task.starIndex`, chunks)),
+      ...(inRange(question.userChoiceIndex, task.chunks) ? [] : outOf(`${path}.userChoiceIndex`, chunks)),
+    ];
+  }
+  return [];
+};
+
+const indexReasons = (item: Record<string, unknown>): string[] => {
+  if (item.gameMode === GameMode.MultipleChoice) {
+    return [
+      ...(inRange(item.correctOptionIndex, item.options) ? [] : outOf('correctOptionIndex', 'options')),
+      ...(inRange(item.userChoiceIndex, item.options) ? [] : outOf('userChoiceIndex', 'options')),
+      ...(inRange(item.chinglishOptionIndex, item.options) ? [] : outOf('chinglishOptionIndex', 'options')),
+    ];
+  }
+  if (item.gameMode === GameMode.Reorder) {
+    return [
+      ...(inRange(item.starIndex, item.chunks) ? [] : outOf('starIndex', 'chunks')),
+      ...((item.userOrder as number[]).every(index => inRange(index, item.chunks)) ? [] : outOf('userOrder', 'chunks')),
+    ];
+  }
+  if (item.gameMode === GameMode.Exam) {
+    return (item.questions as Record<string, unknown>[]).flatMap((question, index) => examQuestionReasons(question, `questions[${index}]`));
+  }
+  return [];
+};
+
+export const validateHistoryItem = (value: unknown): string[] => {
+  if (!isRecord(value)) return ['expected an object'];
+  const common = shape({ id: string, timestamp: number, gameMode: oneOf(GameMode) })(value, '');
+  if (typeof value.id === 'string' && !value.id) common.push('id: expected a non-empty string');
+  if (common.length > 0) return common;
+
+  const reasons = variants[value.gameMode as GameMode](value, '');
+  return reasons.length > 0 ? reasons : indexReasons(value);
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { diffJapanese, attachCorrectionNotes } from './japaneseDiff';
+
+describe('diffJapanese', () => {
+    it('marks a wrong particle as a single substitution', () => {
+        expect(diffJapanese('友達と会った。', '友達に会った。')).toEqual([
+            { op: 'equal', before: '友達', after: '友達' },
+            { op: 'replace', before: 'と', after: 'に' },
+            { op: 'equal', before: '会った。', after: '会った。' },
+        ]);
+    });
+
+    it('reports insertions and deletions', () => {
+        expect(diffJapanese('駅で会った', '昨日駅で会った')).toEqual([
+            { op: 'insert', before: '', after: '昨日' },
+            { op: 'equal', before: '駅で会った', after: '駅で会った' },
+        ]);
+        expect(diffJapanese('とても高いです', '高いです')).toEqual([
+            { op: 'delete', before: 'とても', after: '' },
+            { op: 'equal', before: '高いです', after: '高いです' },
+        ]);
+    });
+
+    it('keeps a conjugation change together instead of splitting around a shared kana', () => {
+        const spans = diffJapanese('食べました', '食べてしまった');
+        expect(spans[0]).toEqual({ op: 'equal', before: '食べ', after: '食べ' });
+        expect(spans.slice(1)).toEqual([
+            { op: 'replace', before: 'まし', after: 'てしまっ' },
+            { op: 'equal', before: 'た', after: 'た' },
+        ]);
+    });
+
+    it('ignores full-width and half-width differences', () => {
+        expect(diffJapanese('ﾃｽﾄは１０点', 'テストは10点')).toEqual([
+            { op: 'equal', before: 'テストは10点', after: 'テストは10点' },
+        ]);
+    });
+
+    it('reconstructs both sentences from the spans', () => {
+        const user = '私は昨日に図書館で本を読みるました';
+        const corrected = '私は昨日、図書館で本を読みました';
+        const spans = diffJapanese(user, corrected);
+        expect(spans.map(span => span.before).join('')).toBe(user);
+        expect(spans.map(span => span.after).join('')).toBe(corrected);
+    });
+});
+
+describe('attachCorrectionNotes', () => {
+    it('attaches each note to the span it describes', () => {
+        const spans = attachCorrectionNotes(diffJapanese('友達と会った。', '昨日友達に会った。'), [
+            { original: 'と', corrected: 'に', reason: '「会う」的对象用「に」' },
+            { original: '', corrected: '昨日', reason: '补上时间' },
+        ]);
+
+        expect(spans.filter(span => span.op !== 'equal').map(span => span.reason)).toEqual(['补上时间', '「会う」的对象用「に」']);
+    });
+
+    it('leaves spans without a matching note unexplained', () => {
+        const spans = attachCorrectionNotes(diffJapanese('と', 'に'), [{ original: 'が', corrected: 'は', reason: 'x' }]);
+        expect(spans[0].reason).toBeUndefined();
+    });
+});
@@ -0,0 +1,136 @@
+import { CorrectionNote } from '../types';
+
+// Character-level diff between a learner's sentence and its correction.
+//
+// Japanese has no spaces to diff words on, so we diff characters (after NFKC
+// normalisation, so full-width/half-width variants don't count as mistakes) and then
+// clean up the result so highlights line up with what a teacher would mark: a wrong
+// particle becomes one substitution, and a conjugation change like 行きます→行った
+// isn't split around the shared 行.
+
+export type DiffOp = 'equal' | 'insert' | 'delete' | 'replace';
+
+export interface DiffSpan {
+  op: DiffOp;
+  before: string; // text in the learner's sentence ('' for inserts)
+  after: string;  // text in the correction ('' for deletes)
+  reason?: string;
+}
+
+const PUNCTUATION = /[\s、。，．,.!?！？「」『』（）()・…ー〜～]/;
+
+const lcsOps = (a: string[], b: string[]): ('equal' | 'insert' | 'delete')[] => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint16Array(rows * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i] === b[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const ops: ('equal' | 'insert' | 'delete')[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push('equal');
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      ops.push('delete');
+      i++;
+    } else {
+      ops.push('insert');
+      j++;
+    }
+  }
+  while (i++ < a.length) ops.push('delete');
+  while (j++ < b.length) ops.push('insert');
+  return ops;
+};
+
+const pushSpan = (spans: DiffSpan[], span: DiffSpan) => {
+  const last = spans[spans.length - 1];
+  if (last && (last.op === span.op || (last.op !== 'equal' && span.op !== 'equal'))) {
+    last.before += span.before;
+    last.after += span.after;
+    if (last.op !== span.op) last.op = 'replace';
+    return;
+  }
+  spans.push({ ...span });
+};
+
+const normalizeOp = (span: DiffSpan): DiffSpan => {
+  if (span.op === 'equal') return span;
+  if (span.before && span.after) return { ...span, op: 'replace' };
+  return { ...span, op: span.before ? 'delete' : 'insert' };
+};
+
+// Absorb single shared characters sandwiched between two changes, unless they are punctuation.
+const mergeFragments = (spans: DiffSpan[]): DiffSpan[] => {
+  const merged: DiffSpan[] = [];
+  for (let k = 0; k < spans.length; k++) {
+    const span = spans[k];
+    const previous = merged[merged.length - 1];
+    const next = spans[k + 1];
+    const isFragment = span.op === 'equal'
+      && Array.from(span.before).length === 1
+      && !PUNCTUATION.test(span.before)
+      && previous && previous.op !== 'equal'
+      && next && next.op !== 'equal';
+    if (isFragment) {
+      previous.before += span.before + next.before;
+      previous.after += span.after + next.after;
+      previous.op = 'replace';
+      k++;
+      continue;
+    }
+    merged.push({ ...span });
+  }
+  return merged.map(normalizeOp);
+};
+
+export const diffJapanese = (userSentence: string, correctedSentence: string): DiffSpan[] => {
+  const a = Array.from(userSentence.normalize('NFKC'));
+  const b = Array.from(correctedSentence.normalize('NFKC'));
+  const ops = lcsOps(a, b);
+
+  const spans: DiffSpan[] = [];
+  let i = 0;
+  let j = 0;
+  for (const op of ops) {
+    if (op === 'equal') {
+      pushSpan(spans, { op, before: a[i], after: b[j] });
+      i++;
+      j++;
+    } else if (op === 'delete') {
+      pushSpan(spans, { op, before: a[i], after: '' });
+      i++;
+    } else {
+      pushSpan(spans, { op, before: '', after: b[j] });
+      j++;
+    }
+  }
+  return mergeFragments(spans.map(normalizeOp));
+};
+
+// Pairs the AI's per-fix explanations with the diff spans they describe.
+// The model quotes fragments loosely, so a note matches when either side overlaps the span.
+export const attachCorrectionNotes = (spans: DiffSpan[], notes: CorrectionNote[]): DiffSpan[] => {
+  const unused = [...notes];
+  const overlaps = (spanText: string, noteText: string) =>
+    !!spanText && !!noteText && (spanText.includes(noteText) || noteText.includes(spanText));
+
+  return spans.map(span => {
+    if (span.op === 'equal') return span;
+    const index = unused.findIndex(note =>
+      overlaps(span.after, note.corrected.normalize('NFKC')) || overlaps(span.before, note.original.normalize('NFKC'))
+    );
+    if (index === -1) return span;
+    const [note] = unused.splice(index, 1);
+    return { ...span, reason: note.reason };
+  });
+};
@@ -0,0 +1,20 @@
+// Tell TypeScript that 'marked' might be on the global window object
+declare global {
+  interface Window {
+    marked?: {
+      parse: (markdown: string) => string;
+    };
+  }
+}
+
+// Markdown to HTML with the page's `marked`, shared by the renderer and HTML exports.
+export const renderMarkdown = (markdown: string): string => {
+  if (window.marked) {
+    return window.marked.parse(markdown);
+  }
+  // Simple fallback if marked isn't loaded
+  return markdown
+    .split('\n')
+    .map(line => `<p>${line}</p>`)
+    .join('');
+};
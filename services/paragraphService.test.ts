@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { hasMixedStyles, joinCorrectedSentences, paragraphScore, splitSentences } from './paragraphService';
+import { SentenceFeedback, SpeechStyle } from '../types';
+
+const feedbackFor = (sentence: string, score: number | null, style?: SpeechStyle): SentenceFeedback => ({
+    sentence, score, evaluation: '', correctedSentence: sentence, explanation: '', style,
+});
+
+describe('splitSentences', () => {
+    it('splits after sentence-final punctuation and at line breaks', () => {
+        expect(splitSentences('昨日は雨でした。今日は晴れです！\n明日は？')).toEqual(['昨日は雨でした。', '今日は晴れです！', '明日は？']);
+    });
+
+    it('keeps quoted sentences and runs of punctuation together', () => {
+        expect(splitSentences('彼は「もう帰る。また明日。」と言った。本当に！？')).toEqual(['彼は「もう帰る。また明日。」と言った。', '本当に！？']);
+    });
+
+    it('keeps a trailing sentence without punctuation and drops blank lines', () => {
+        expect(splitSentences('  駅に着きました。\n\n  今から行きます  ')).toEqual(['駅に着きました。', '今から行きます']);
+    });
+});
+
+describe('paragraph results', () => {
+    it('averages the scored sentences only', () => {
+        expect(paragraphScore([feedbackFor('a', 90), feedbackFor('b', null), feedbackFor('c', 75)])).toBe(83);
+        expect(paragraphScore([feedbackFor('a', null)])).toBeNull();
+    });
+
+    it('flags a paragraph mixing です/ます and plain endings', () => {
+        expect(hasMixedStyles([feedbackFor('a', 90, SpeechStyle.Polite), feedbackFor('b', 90)])).toBe(false);
+        expect(hasMixedStyles([feedbackFor('a', 90, SpeechStyle.Polite), feedbackFor('b', 90, SpeechStyle.Plain)])).toBe(true);
+    });
+
+    it('joins the corrected sentences back into a paragraph', () => {
+        expect(joinCorrectedSentences([feedbackFor('雨です。', 90), feedbackFor('寒いです。', 90)])).toBe('雨です。寒いです。');
+    });
+});
@@ -0,0 +1,54 @@
+import { SentenceFeedback, SpeechStyle } from '../types';
+
+// Paragraph checks: splitting the learner's text into sentences and combining the
+// per-sentence feedback into an overall result.
+
+const OPENING_BRACKETS = '「『（(';
+const CLOSING_BRACKETS = '」』）)';
+const TERMINATORS = '。．！？!?';
+
+// Splits after sentence-final punctuation and at line breaks. A 。 inside 「」 doesn't end the
+// sentence quoting it, and runs like 「！？」 stay together.
+export const splitSentences = (text: string): string[] => {
+  const sentences: string[] = [];
+  let current = '';
+  let depth = 0;
+  const flush = () => {
+    const sentence = current.trim();
+    if (sentence) sentences.push(sentence);
+    current = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n') {
+      flush();
+      depth = 0;
+      continue;
+    }
+    current += char;
+    if (OPENING_BRACKETS.includes(char)) {
+      depth++;
+    } else if (CLOSING_BRACKETS.includes(char)) {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && TERMINATORS.includes(char) && !TERMINATORS.includes(text[i + 1] ?? '')) {
+      flush();
+    }
+  }
+  flush();
+  return sentences;
+};
+
+// Mean of the scored sentences, or null if none was scored.
+export const paragraphScore = (sentences: SentenceFeedback[]): number | null => {
+  const scores = sentences.flatMap(sentence => (typeof sentence.score === 'number' ? [sentence.score] : []));
+  return scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null;
+};
+
+export const hasMixedStyles = (sentences: SentenceFeedback[]): boolean => {
+  const styles = new Set(sentences.flatMap(sentence => (sentence.style ? [sentence.style] : [])));
+  return styles.has(SpeechStyle.Polite) && styles.has(SpeechStyle.Plain);
+};
+
+export const joinCorrectedSentences = (sentences: SentenceFeedback[]): string =>
+  sentences.map(sentence => sentence.correctedSentence).join('');
@@ -0,0 +1,79 @@
+import { GoogleGenAI, Type, Modality, Schema } from "@google/genai";
+import { AIProvider, JsonSchema } from '../aiProvider';
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+
+const toGeminiSchema = (schema: JsonSchema): Schema => {
+    switch (schema.type) {
+        case 'object':
+            return {
+                type: Type.OBJECT,
+                properties: Object.fromEntries(
+                    Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+                ),
+                required: schema.required,
+            };
+        case 'array':
+            return { type: Type.ARRAY, items: toGeminiSchema(schema.items) };
+        case 'string':
+            return { type: Type.STRING };
+        case 'number':
+            return { type: Type.NUMBER };
+        case 'boolean':
+            return { type: Type.BOOLEAN };
+    }
+};
+
+export const createGeminiProvider = (): AIProvider => {
+    if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable is not set.");
+    }
+
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    return {
+        label: 'Gemini AI',
+
+        generateJson: async ({ prompt, schema, temperature }) => {
+            const response = await ai.models.generateContent({
+                model: TEXT_MODEL,
+                contents: prompt,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: toGeminiSchema(schema),
+                    temperature,
+                },
+            });
+            return response.text ?? '';
+        },
+
+        streamText: async function* (prompt) {
+            const stream = await ai.models.generateContentStream({
+                model: TEXT_MODEL,
+                contents: prompt,
+            });
+            for await (const chunk of stream) {
+                if (chunk.text) {
+                    yield chunk.text;
+                }
+            }
+        },
+
+        synthesizeSpeech: async (text) => {
+            const response = await ai.models.generateContent({
+                model: SPEECH_MODEL,
+                contents: [{ parts: [{ text: `Say it clearly: ${text}` }] }],
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: 'Leda' },
+                        },
+                    },
+                },
+            });
+            return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data ?? null;
+        },
+    };
+};
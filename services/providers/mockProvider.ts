@@ -0,0 +1,212 @@
+import { AIProvider, JsonSchema } from '../aiProvider';
+
+// Deterministic offline backend for development and automated tests.
+// Select it with AI_PROVIDER=MOCK. Put one of the markers below anywhere in an
+// answer to make the next feedback stream misbehave on purpose:
+//   [mock:malformed]  the `--- ` separator never arrives
+//   [mock:no-score]   the `score:` header line is missing
+//   [mock:fail]       the stream throws before the explanation is finished
+
+export const MOCK_MARKERS = {
+    malformed: '[mock:malformed]',
+    noScore: '[mock:no-score]',
+    fail: '[mock:fail]',
+};
+
+export const mockFixtures = {
+    sentenceTask: {
+        chineseSentence: '我昨天在车站偶然遇到了以前的同学。',
+    },
+    dictationTask: {
+        japaneseSentence: '昨日、駅で友達に会いました。',
+        segments: [
+            { text: '昨日', reading: 'きのう' },
+            { text: '、', reading: '' },
+            { text: '駅', reading: 'えき' },
+            { text: 'で', reading: 'で' },
+            { text: '友達', reading: 'ともだち' },
+            { text: 'に', reading: 'に' },
+            { text: '会いました', reading: 'あいました' },
+            { text: '。', reading: '' },
+        ],
+        chineseTranslation: '昨天在车站见到了朋友。',
+    },
+    reverseTranslationTask: {
+        japaneseSentence: '雨が降らないうちに、早く帰りましょう。',
+    },
+    clozeTask: {
+        before: '雨が降らない',
+        answer: 'うちに',
+        after: '、早く帰りましょう。',
+        reading: 'うちに',
+        alternatives: ['内に'],
+        chineseTranslation: '趁还没下雨，早点回家吧。',
+    },
+    reorderTask: {
+        before: '駅の',
+        chunks: ['前に', 'ある', '喫茶店で', '友達と'],
+        after: '会いました。',
+        chineseTranslation: '在车站前的咖啡店和朋友见了面。',
+    },
+    multipleChoiceTask: {
+        chineseSentence: '他让我等了一个小时。',
+        options: [
+            '彼は私に一時間待たせました。',
+            '彼に一時間待たされました。',
+            '彼は私を一時間待ってもらいました。',
+            '彼が一時間待つことをさせた。',
+        ],
+        correctOptionIndex: 1,
+        chinglishOptionIndex: 0,
+        explanation: '**核心考点:** 说话者受到影响时使用被动句更自然。\n\n- 选项1是中文直译，语法上可行但不自然。\n- 选项2「待たされました」以说话者为中心，最自然。\n- 选项3授受关系错误。\n- 选项4句式生硬。',
+    },
+    feedback: {
+        score: 85,
+        evaluation: '很好！',
+        correctedSentence: '昨日、駅で偶然昔の同級生に会いました。',
+        fixes: '同級生と会った => 同級生に会いました | 「会う」的对象用「に」; 駅で => 駅で偶然 | 补上"偶然"',
+        rubric: '句法结构=90; 助词使用=95; 修饰关系=-; 时态一致=90; 敬体/常体=80; 自然表达=70; 语气与情态=-; 文化语感=-; 常用句式=80',
+        alternatives: 'casual=昨日、駅で昔の同級生にばったり会ったよ。; polite=昨日、駅で昔の同級生にたまたま会いました。; written=昨日、駅にて偶然かつての同級生と再会した。',
+        match: 'casual',
+        explanation: '- **助词:** 「会う」的对象用「に」，你用得很正确。\n- **自然表达:** 加上「偶然」更贴近原文的语气。\n',
+    },
+    reverseTranslationFeedback: {
+        score: 70,
+        evaluation: '有点可惜',
+        correctedSentence: '趁还没下雨，早点回家吧。',
+        nuance: 'partial',
+        explanation: '- **～うちに:** 表示"趁着……还没发生"，译成"下雨之前"少了"趁机"的语气。\n',
+    },
+    conversationOpening: {
+        openingLine: 'いらっしゃいませ。何かお探しですか。',
+        chineseTranslation: '欢迎光临。您在找什么吗？',
+    },
+    conversationReply: 'はい、こちらに白と紺がございます。',
+    translationHints: {
+        vocabulary: [
+            { word: '偶然', reading: 'ぐうぜん', meaning: '偶然' },
+            { word: '同級生', reading: 'どうきゅうせい', meaning: '同学' },
+        ],
+        skeleton: '＿＿、＿＿で＿＿＿＿に＿＿ました。',
+        firstChunk: '昨日、駅で',
+    },
+    followUpAnswer: '也可以说「同級生と会いました」，但「と」表示双方约好见面，「に」更适合偶然遇到的情况。\n',
+    // Feedback on 「昨日は友達と映画を見ました。とても面白かった。」
+    paragraphFeedback: {
+        sentences: [
+            {
+                score: 90,
+                evaluation: '很好',
+                correctedSentence: '昨日は友達と映画を見ました。',
+                style: 'POLITE',
+                fixes: '-',
+                explanation: '- 「友達と」表示一起做某事的对象，用得很正确。\n',
+            },
+            {
+                score: 60,
+                evaluation: '再加油',
+                correctedSentence: 'とても面白かったです。',
+                style: 'PLAIN',
+                fixes: '面白かった => 面白かったです | 与前一句的です・ます体保持一致',
+                explanation: '- 句子本身没有错误，但和前一句的文体不一致。\n',
+            },
+        ],
+        evaluation: '不错',
+        coherence: '- **文体:** 第一句用了です・ます体，第二句却是普通体，请统一。\n- **接续:** 两句之间可以加「それに」等接续词，读起来更连贯。\n',
+    },
+    // 0.25s of silence: 16-bit mono PCM at 24kHz.
+    silentAudioBase64: btoa('\0'.repeat(24000 / 4 * 2)),
+};
+
+const buildFeedbackStream = (prompt: string): string => {
+    const reverse = prompt.includes('nuance:');
+    const replyLine = prompt.includes('reply:') ? `reply: ${mockFixtures.conversationReply}\n` : '';
+    const alternativeLines = prompt.includes('alternatives:') ? `alternatives: ${mockFixtures.feedback.alternatives}\nmatch: ${mockFixtures.feedback.match}\n` : '';
+    const { score, evaluation, correctedSentence, explanation } = reverse ? mockFixtures.reverseTranslationFeedback : mockFixtures.feedback;
+    const scoreLine = prompt.includes(MOCK_MARKERS.noScore) ? '' : `score: ${score}\n`;
+    const extraLines = reverse
+        ? `nuance: ${mockFixtures.reverseTranslationFeedback.nuance}\n`
+        : `rubric: ${mockFixtures.feedback.rubric}\nfixes: ${mockFixtures.feedback.fixes}\n${replyLine}${alternativeLines}`;
+    const separator = prompt.includes(MOCK_MARKERS.malformed) ? '' : '--- \n';
+    return `${scoreLine}evaluation: ${evaluation}\ncorrectedSentence: ${correctedSentence}\n${extraLines}${separator}${explanation}`;
+};
+
+// Fallback for JSON requests the mock has no fixture for: fill the schema with placeholders.
+const fillSchema = (schema: JsonSchema): unknown => {
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(
+                Object.entries(schema.properties).map(([key, value]) => [key, fillSchema(value)])
+            );
+        case 'array':
+            return [fillSchema(schema.items)];
+        case 'string':
+            return 'モック';
+        case 'number':
+            return 0;
+        case 'boolean':
+            return false;
+    }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface MockProviderOptions {
+    chunkSize?: number;
+    chunkDelayMs?: number;
+}
+
+export const createMockProvider = ({ chunkSize = 7, chunkDelayMs = 10 }: MockProviderOptions = {}): AIProvider => ({
+    label: 'Mock AI (offline)',
+
+    generateJson: async ({ schema }) => {
+        await wait(chunkDelayMs);
+        const properties = schema.type === 'object' ? schema.properties : {};
+        if ('skeleton' in properties) {
+            return JSON.stringify(mockFixtures.translationHints);
+        }
+        if ('coherence' in properties) {
+            return JSON.stringify(mockFixtures.paragraphFeedback);
+        }
+        if ('openingLine' in properties) {
+            return JSON.stringify(mockFixtures.conversationOpening);
+        }
+        if ('options' in properties) {
+            return JSON.stringify(mockFixtures.multipleChoiceTask);
+        }
+        if ('chunks' in properties) {
+            return JSON.stringify(mockFixtures.reorderTask);
+        }
+        if ('answer' in properties) {
+            return JSON.stringify(mockFixtures.clozeTask);
+        }
+        if ('segments' in properties) {
+            return JSON.stringify(mockFixtures.dictationTask);
+        }
+        if ('japaneseSentence' in properties) {
+            return JSON.stringify(mockFixtures.reverseTranslationTask);
+        }
+        if ('chineseSentence' in properties) {
+            return JSON.stringify(mockFixtures.sentenceTask);
+        }
+        return JSON.stringify(fillSchema(schema));
+    },
+
+    // Small fixed-size chunks so headers and the separator get split across chunk boundaries.
+    streamText: async function* (prompt) {
+        const text = prompt.includes('Follow-up question:') ? mockFixtures.followUpAnswer : buildFeedbackStream(prompt);
+        const failAt = prompt.includes(MOCK_MARKERS.fail) ? text.length - chunkSize * 2 : -1;
+        for (let i = 0; i < text.length; i += chunkSize) {
+            if (failAt !== -1 && i >= failAt) {
+                throw new Error('Mock stream failure');
+            }
+            await wait(chunkDelayMs);
+            yield text.slice(i, i + chunkSize);
+        }
+    },
+
+    synthesizeSpeech: async () => {
+        await wait(chunkDelayMs);
+        return mockFixtures.silentAudioBase64;
+    },
+});
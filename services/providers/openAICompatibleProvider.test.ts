@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { ProviderKind } from '../../types';
+
+const provider = createOpenAICompatibleProvider({
+    kind: ProviderKind.OpenAICompatible,
+    baseUrl: 'http://localhost:8080/v1/',
+    apiKey: '',
+    model: 'local',
+    speechModel: '',
+    voice: '',
+});
+
+const event = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+// Serves the body in the given byte-level pieces, as a network stream would.
+const stubStream = (pieces: string[]) => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+            controller.close();
+        },
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body)));
+};
+
+const collect = async () => {
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamText('prompt')) chunks.push(chunk);
+    return chunks;
+};
+
+describe('openAICompatibleProvider.streamText', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('yields events split across reads and stops at [DONE]', async () => {
+        const stream = `${event('昨日')}\n\n${event('、駅で')}\n\ndata: [DONE]\n\n${event('ignored')}\n`;
+        stubStream([stream.slice(0, 20), stream.slice(20)]);
+        expect(await collect()).toEqual(['昨日', '、駅で']);
+    });
+
+    it('keeps a last event that has no trailing newline', async () => {
+        stubStream([`${event('昨日')}\n\n`, event('、駅で')]);
+        expect(await collect()).toEqual(['昨日', '、駅で']);
+    });
+});
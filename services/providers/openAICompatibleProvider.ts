@@ -0,0 +1,105 @@
+import { ProviderConfig } from '../../types';
+import { AIProvider } from '../aiProvider';
+import { encode } from '../base64';
+
+// Works against any server that speaks the OpenAI Chat Completions API:
+// api.openai.com, Ollama (http://localhost:11434/v1), llama.cpp server, LM Studio, vLLM...
+
+export const createOpenAICompatibleProvider = (config: ProviderConfig): AIProvider => {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+    const headers = (): Record<string, string> => ({
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    });
+
+    const post = async (path: string, body: unknown): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: headers(),
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`AI server responded with ${response.status} ${response.statusText}: ${detail}`);
+        }
+        return response;
+    };
+
+    return {
+        label: `${config.model} (OpenAI-compatible)`,
+
+        generateJson: async ({ prompt, schema, temperature }) => {
+            // Plain `json_object` mode is the lowest common denominator across local servers,
+            // so the schema itself travels in the system message.
+            const response = await post('/chat/completions', {
+                model: config.model,
+                messages: [
+                    {
+                        role: 'system',
+                        content: `Respond with a single JSON object that matches this JSON Schema exactly:\n${JSON.stringify(schema)}`,
+                    },
+                    { role: 'user', content: prompt },
+                ],
+                response_format: { type: 'json_object' },
+                temperature,
+            });
+            const data = await response.json();
+            return data.choices?.[0]?.message?.content ?? '';
+        },
+
+        streamText: async function* (prompt) {
+            const response = await post('/chat/completions', {
+                model: config.model,
+                messages: [{ role: 'user', content: prompt }],
+                stream: true,
+            });
+            if (!response.body) {
+                throw new Error('AI server returned an empty stream.');
+            }
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let pending = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                // At the end the decoder is flushed and the last line handled even without a
+                // trailing newline, which some llama.cpp builds and proxies leave off.
+                pending += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+                // Server-sent events: one `data: {...}` payload per line.
+                const lines = pending.split('\n');
+                pending = done ? '' : lines.pop() ?? '';
+                for (const line of lines) {
+                    const trimmed = line.trim();
+                    if (!trimmed.startsWith('data:')) continue;
+                    const payload = trimmed.slice('data:'.length).trim();
+                    if (payload === '[DONE]') return;
+                    try {
+                        const text = JSON.parse(payload).choices?.[0]?.delta?.content;
+                        if (text) {
+                            yield text as string;
+                        }
+                    } catch (e) {
+                        console.warn('Skipping malformed stream event:', payload);
+                    }
+                }
+                if (done) return;
+            }
+        },
+
+        synthesizeSpeech: async (text) => {
+            // `pcm` output is raw 16-bit mono at 24kHz, the same format the Gemini TTS returns.
+            // Most local servers have no speech endpoint; the caller treats null as "no audio".
+            const response = await post('/audio/speech', {
+                model: config.speechModel,
+                voice: config.voice,
+                input: text,
+                response_format: 'pcm',
+            });
+            const buffer = await response.arrayBuffer();
+            return buffer.byteLength > 0 ? encode(new Uint8Array(buffer)) : null;
+        },
+    };
+};
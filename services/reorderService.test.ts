@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { gradeReorder, pickStarIndex, shuffleChunks } from './reorderService';
+import { ReorderVariant } from '../types';
+
+const task = { chunks: ['前に', 'ある', '喫茶店で', '友達と'], starIndex: 2 };
+
+describe('shuffleChunks', () => {
+    it('never hands out the chunks already in order', () => {
+        // A "random" source that would leave the order untouched on the first pass.
+        let calls = 0;
+        const random = () => (calls++ < 3 ? 0.99 : 0);
+        const order = shuffleChunks(task.chunks, random);
+        expect([...order].sort()).toEqual([0, 1, 2, 3]);
+        expect(order).not.toEqual([0, 1, 2, 3]);
+    });
+
+    it('leaves chunks that are all the same alone', () => {
+        expect(shuffleChunks(['の', 'の'])).toEqual([0, 1]);
+    });
+});
+
+describe('pickStarIndex', () => {
+    it('keeps ★ off the first and last slots', () => {
+        expect(pickStarIndex(4, () => 0)).toBe(1);
+        expect(pickStarIndex(4, () => 0.99)).toBe(2);
+    });
+});
+
+describe('gradeReorder', () => {
+    it('grades the whole order, or only the ★ slot in the exam variant', () => {
+        const swappedEnds = [3, 1, 2, 0];
+        expect(gradeReorder(task, swappedEnds, ReorderVariant.FullOrder)).toEqual({
+            correctSlots: [false, true, true, false],
+            isCorrect: false,
+        });
+        expect(gradeReorder(task, swappedEnds, ReorderVariant.Star).isCorrect).toBe(true);
+        expect(gradeReorder(task, [0, 1, 2, 3], ReorderVariant.FullOrder).isCorrect).toBe(true);
+    });
+
+    it('accepts identical chunks in either slot and fails an unanswered order', () => {
+        const twins = { chunks: ['本', 'の', '表紙', 'の'], starIndex: 1 };
+        expect(gradeReorder(twins, [0, 3, 2, 1], ReorderVariant.FullOrder).isCorrect).toBe(true);
+        expect(gradeReorder(twins, [], ReorderVariant.Star).isCorrect).toBe(false);
+    });
+});
@@ -0,0 +1,37 @@
+import { ReorderTask, ReorderVariant } from '../types';
+import { shuffle } from './shuffle';
+
+// Sentence reordering (並べ替え): shuffling the chunks and grading the learner's order.
+// An order is a list of indices into `task.chunks`, one per slot.
+
+export interface ReorderGrade {
+  // Slots holding the right chunk. Chunks are compared by text, so two identical
+  // chunks (e.g. two 「の」) may be placed either way round.
+  correctSlots: boolean[];
+  isCorrect: boolean;
+}
+
+// A random order that is never already the correct one (when there are at least two chunks).
+export const shuffleChunks = (chunks: string[], random: () => number = Math.random): number[] => {
+  let order = chunks.map((_, i) => i);
+  if (new Set(chunks).size < 2) return order;
+  do {
+    order = shuffle(order, random);
+  } while (order.every((chunkIndex, slot) => chunks[chunkIndex] === chunks[slot]));
+  return order;
+};
+
+// The exam puts ★ on one of the middle slots, so the answer can't be read off the ends.
+export const pickStarIndex = (chunkCount: number, random: () => number = Math.random): number =>
+  chunkCount <= 2 ? chunkCount - 1 : 1 + Math.floor(random() * (chunkCount - 2));
+
+export const gradeReorder = (task: Pick<ReorderTask, 'chunks' | 'starIndex'>, order: number[], variant: ReorderVariant): ReorderGrade => {
+  const correctSlots = task.chunks.map((chunk, slot) => order[slot] !== undefined && task.chunks[order[slot]] === chunk);
+  const isCorrect = variant === ReorderVariant.Star
+    ? correctSlots[task.starIndex] === true
+    : correctSlots.every(Boolean);
+  return { correctSlots, isCorrect };
+};
+
+export const reorderSentence = (task: Pick<ReorderTask, 'before' | 'chunks' | 'after'>): string =>
+  `${task.before}${task.chunks.join('')}${task.after}`;
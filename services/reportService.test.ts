@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { groupForReport, historyToCsv, studyReportHtml, studyReportMarkdown } from './reportService';
+import { grammarPoint, translationItem } from './testFixtures';
+import { ConversationScenario, ConversationSpeaker, Difficulty, GameMode, GrammarPoint, TranslationHistoryItem } from '../types';
+
+const translation = (timestamp: number, score: number | null, grammarPoint?: GrammarPoint, extra: Partial<TranslationHistoryItem> = {}) => translationItem({
+    id: `t-${timestamp}`,
+    timestamp,
+    chineseSentence: '我忘了带钱包。',
+    userSentence: '財布を忘れた。',
+    correctedSentence: '財布を忘れてしまった。',
+    score,
+    feedbackExplanation: '**てしまう** adds regret.',
+    grammarPoint,
+    ...extra,
+});
+
+describe('historyToCsv', () => {
+    it('writes one row per attempt and quotes fields with commas, quotes or line breaks', () => {
+        const csv = historyToCsv([
+            translation(Date.UTC(2026, 0, 2), 70, grammarPoint('～てしまう'), { userSentence: '財布を、"忘れた"\n。' }),
+            { id: 'c', timestamp: Date.UTC(2026, 0, 3), gameMode: GameMode.SentenceCheck, userSentence: '元気です。', correctedSentence: '元気です。', score: null, evaluation: '', feedbackExplanation: '' },
+        ]);
+        const lines = csv.replace(/^\uFEFF/, '').split('\r\n');
+
+        expect(csv.startsWith('\uFEFF')).toBe(true);
+        expect(lines[0]).toBe('timestamp,mode,level,length,prompt,answer,correction,score,grammar point');
+        expect(lines[1]).toBe('2026-01-02T00:00:00.000Z,Translation,N4,短,我忘了带钱包。,"財布を、""忘れた""\n。",財布を忘れてしまった。,70,～てしまう');
+        expect(lines[2]).toBe('2026-01-03T00:00:00.000Z,Sentence Check,,,,元気です。,元気です。,,');
+    });
+    it('neutralises values a spreadsheet would run as formulas', () => {
+        const csv = historyToCsv([
+            translation(Date.UTC(2026, 0, 2), 70, undefined, { chineseSentence: '=HYPERLINK("http://x","y")', userSentence: '+1', correctedSentence: '@SUM(A1)' }),
+            translation(Date.UTC(2026, 0, 3), 70, undefined, { chineseSentence: '-2', userSentence: '素晴らしい=最高', correctedSentence: '' }),
+        ]);
+        const lines = csv.replace(/^\uFEFF/, '').split('\r\n');
+
+        expect(lines[1]).toBe(`2026-01-02T00:00:00.000Z,Translation,N4,短,"'=HYPERLINK(""http://x"",""y"")",'+1,'@SUM(A1),70,`);
+        expect(lines[2]).toBe("2026-01-03T00:00:00.000Z,Translation,N4,短,'-2,素晴らしい=最高,,70,");
+    });
+
+    it('names conversations by the scenario title the app shows', () => {
+        const csv = historyToCsv([{
+            id: 'v',
+            timestamp: Date.UTC(2026, 0, 4),
+            gameMode: GameMode.Conversation,
+            difficulty: Difficulty.N4,
+            scenario: ConversationScenario.Shop,
+            turns: [{ speaker: ConversationSpeaker.Learner, text: 'これください。', feedback: { score: 80, evaluation: '', correctedSentence: 'これをください。', explanation: '' } }],
+        }]);
+        expect(csv.replace(/^\uFEFF/, '').split('\r\n')[1]).toBe('2026-01-04T00:00:00.000Z,Conversation,N4,,お店で買い物,これください。,これをください。,80,');
+    });
+});
+
+describe('study report', () => {
+    const range = { from: 10, to: 100 };
+    const history = [
+        translation(50, 90, grammarPoint('～ば')),
+        translation(20, 40, grammarPoint('～てしまう')),
+        translation(30, 60, grammarPoint('～てしまう')),
+        translation(40, 80),
+        translation(500, 10, grammarPoint('～ば')),
+    ];
+
+    it('groups attempts in the range by grammar point, weakest first and ungrouped last', () => {
+        const groups = groupForReport(history, range);
+        expect(groups.map(group => group.grammarPoint?.grammar_point ?? null)).toEqual(['～てしまう', '～ば', null]);
+        expect(groups[0].averageScore).toBe(50);
+        expect(groups[0].attempts.map(row => row.timestamp)).toEqual([20, 30]);
+    });
+
+    it('keeps explanations as Markdown in the Markdown report', () => {
+        const markdown = studyReportMarkdown(history, range);
+        expect(markdown).toContain('## ～てしまう (N4) — 意思');
+        expect(markdown).toContain('## その他 (No grammar point)');
+        expect(markdown).toContain('- **Correction:** 財布を忘れてしまった。');
+        expect(markdown).toContain('**てしまう** adds regret.');
+    });
+
+    it('escapes fields and renders explanations through the Markdown pipeline in the HTML report', () => {
+        const html = studyReportHtml([translation(20, 40, undefined, { userSentence: '<b>財布</b>' })], range);
+        expect(html).toContain('&lt;b&gt;財布&lt;/b&gt;');
+        expect(html).toContain('<div class="explanation"><p>**てしまう** adds regret.</p></div>');
+        expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    });
+
+    it('shows HTML in an explanation as text rather than running it', () => {
+        const html = studyReportHtml([translation(20, 40, undefined, { feedbackExplanation: '<script>alert(1)</script><img src=x onerror="alert(2)">' })], range);
+        expect(html).not.toContain('<script>alert');
+        expect(html).not.toContain('<img');
+        expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;&lt;img src=x onerror=&quot;alert(2)&quot;&gt;');
+    });
+});
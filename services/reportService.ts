@@ -0,0 +1,230 @@
+import { ConversationScenario, ConversationSpeaker, Difficulty, GameMode, GrammarPoint, HistoryItem, SentenceLength } from '../types';
+import { summarizeExam } from './examService';
+import { reorderSentence } from './reorderService';
+import { attemptScore } from './retryService';
+import { grammarPointKey } from './srsService';
+import { dayKey } from './statsService';
+import { renderMarkdown } from './markdownService';
+import { NO_CORRECTION_PLACEHOLDER } from './feedbackStreamParser';
+
+// Human-readable exports of the history: a CSV for spreadsheets and a study report
+// (Markdown or printable HTML) grouped by grammar point.
+
+export const modeLabels: Record<GameMode, string> = {
+  [GameMode.Translation]: 'Translation',
+  [GameMode.MultipleChoice]: 'Multiple Choice',
+  [GameMode.SentenceCheck]: 'Sentence Check',
+  [GameMode.Dictation]: 'Dictation',
+  [GameMode.ReverseTranslation]: 'Reverse Translation',
+  [GameMode.Cloze]: 'Cloze',
+  [GameMode.Reorder]: 'Reorder',
+  [GameMode.Exam]: 'Exam',
+  [GameMode.Conversation]: 'Conversation',
+};
+
+export const conversationScenarioLabels: Record<ConversationScenario, { title: string; subtitle: string }> = {
+  [ConversationScenario.Shop]: { title: 'お店で買い物', subtitle: '购物 (Shopping)' },
+  [ConversationScenario.JobInterview]: { title: '就職の面接', subtitle: '面试 (Job Interview)' },
+  [ConversationScenario.CoworkerFavor]: { title: '同僚に頼みごと', subtitle: '拜托同事 (Asking a Coworker)' },
+};
+
+// One attempt flattened to the columns every mode can fill in.
+export interface AttemptRow {
+  timestamp: number;
+  mode: GameMode;
+  level?: Difficulty;
+  length?: SentenceLength;
+  prompt: string;
+  answer: string;
+  correction: string;
+  score: number | null; // 0-100; all-or-nothing modes score 100 or 0
+  grammarPoint?: GrammarPoint;
+  explanation: string; // Markdown
+}
+
+const correctionOf = (sentence: string) => (sentence === NO_CORRECTION_PLACEHOLDER ? '' : sentence);
+
+export const attemptRow = (item: HistoryItem): AttemptRow => {
+  const base = { timestamp: item.timestamp, mode: item.gameMode };
+  switch (item.gameMode) {
+    case GameMode.Translation:
+      return { ...base, level: item.difficulty, length: item.sentenceLength, prompt: item.chineseSentence, answer: item.userSentence, correction: correctionOf(item.correctedSentence), score: item.score, grammarPoint: item.grammarPoint, explanation: item.feedbackExplanation };
+    case GameMode.MultipleChoice:
+      return { ...base, level: item.difficulty, length: item.sentenceLength, prompt: item.chineseSentence, answer: item.options[item.userChoiceIndex] ?? '', correction: item.options[item.correctOptionIndex], score: attemptScore(item), grammarPoint: item.grammarPoint, explanation: item.mcqExplanation };
+    case GameMode.SentenceCheck:
+      return { ...base, prompt: '', answer: item.userSentence, correction: correctionOf(item.correctedSentence), score: item.score, explanation: item.feedbackExplanation };
+    case GameMode.Dictation:
+      return { ...base, level: item.difficulty, length: item.sentenceLength, prompt: item.chineseTranslation, answer: item.userTranscript, correction: item.japaneseSentence, score: item.accuracy, grammarPoint: item.grammarPoint, explanation: '' };
+    case GameMode.ReverseTranslation:
+      return { ...base, level: item.difficulty, length: item.sentenceLength, prompt: item.japaneseSentence, answer: item.userSentence, correction: correctionOf(item.correctedSentence), score: item.score, grammarPoint: item.grammarPoint, explanation: item.feedbackExplanation };
+    case GameMode.Cloze:
+      return { ...base, level: item.difficulty, length: item.sentenceLength, prompt: `${item.before}＿＿${item.after}`, answer: item.userAnswer, correction: item.answer, score: item.userAnswer ? (item.isCorrect ? 100 : 0) : null, grammarPoint: item.grammarPoint, explanation: '' };
+    case GameMode.Reorder:
+      return { ...base, level: item.difficulty, length: item.sentenceLength, prompt: item.chineseTranslation, answer: item.userOrder.map(index => item.chunks[index]).join(''), correction: reorderSentence(item), score: item.userOrder.length > 0 ? (item.isCorrect ? 100 : 0) : null, grammarPoint: item.grammarPoint, explanation: '' };
+    case GameMode.Exam: {
+      const summary = summarizeExam(item.questions);
+      return { ...base, level: item.difficulty, length: item.sentenceLength, prompt: `${summary.total} questions`, answer: `${summary.correct}/${summary.total}`, correction: '', score: summary.score, explanation: '' };
+    }
+    case GameMode.Conversation: {
+      const learnerTurns = item.turns.flatMap(turn => (turn.speaker === ConversationSpeaker.Learner ? [turn] : []));
+      const scores = learnerTurns.flatMap(turn => (typeof turn.feedback.score === 'number' ? [turn.feedback.score] : []));
+      return {
+        ...base,
+        level: item.difficulty,
+        prompt: conversationScenarioLabels[item.scenario].title,
+        answer: learnerTurns.map(turn => turn.text).join(' / '),
+        correction: learnerTurns.map(turn => correctionOf(turn.feedback.correctedSentence) || turn.text).join(' / '),
+        score: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+        explanation: '',
+      };
+    }
+  }
+};
+
+// --- CSV ---
+
+const CSV_COLUMNS = ['timestamp', 'mode', 'level', 'length', 'prompt', 'answer', 'correction', 'score', 'grammar point'];
+
+// Text starting like a formula is prefixed with an apostrophe so spreadsheets show it as text
+// instead of evaluating it; answers and AI output are never trusted to be formula-free.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvField = (value: string) => {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180, with a byte order mark so spreadsheet apps read the Japanese as UTF-8.
+export const historyToCsv = (items: HistoryItem[]): string => {
+  const lines = items.map(attemptRow).map(row => [
+    new Date(row.timestamp).toISOString(),
+    modeLabels[row.mode],
+    row.level ?? '',
+    row.length ?? '',
+    row.prompt,
+    row.answer,
+    row.correction,
+    row.score === null ? '' : String(row.score),
+    row.grammarPoint?.grammar_point ?? '',
+  ].map(csvField).join(','));
+  return '\uFEFF' + [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+};
+
+// --- Study report ---
+
+export interface ReportRange {
+  from: number; // inclusive timestamps
+  to: number;
+}
+
+export interface StudyReportGroup {
+  grammarPoint: GrammarPoint | null;
+  attempts: AttemptRow[]; // oldest first
+  averageScore: number | null;
+}
+
+const average = (rows: AttemptRow[]) => {
+  const scores = rows.flatMap(row => (row.score === null ? [] : [row.score]));
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+};
+
+// Attempts in the range by grammar point, weakest average first; attempts without one come last.
+export const groupForReport = (items: HistoryItem[], range: ReportRange): StudyReportGroup[] => {
+  const groups = new Map<string, StudyReportGroup>();
+  const rows = items
+    .filter(item => item.timestamp >= range.from && item.timestamp <= range.to)
+    .map(attemptRow)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  for (const row of rows) {
+    const key = row.grammarPoint ? grammarPointKey(row.grammarPoint) : '';
+    const group = groups.get(key) ?? { grammarPoint: row.grammarPoint ?? null, attempts: [], averageScore: null };
+    group.attempts.push(row);
+    groups.set(key, group);
+  }
+  const result = Array.from(groups.values(), group => ({ ...group, averageScore: average(group.attempts) }));
+  const rank = (group: StudyReportGroup) => (group.grammarPoint === null ? Infinity : group.averageScore ?? 101);
+  return result.sort((a, b) => rank(a) - rank(b));
+};
+
+const REPORT_TITLE = '学習レポート (Study Report)';
+const NO_GRAMMAR_POINT = 'その他 (No grammar point)';
+
+const formatAverage = (score: number | null) => (score === null ? '—' : String(Math.round(score)));
+
+const groupTitle = (group: StudyReportGroup) =>
+  group.grammarPoint ? `${group.grammarPoint.grammar_point} (${group.grammarPoint.level}) — ${group.grammarPoint.meaning_cn}` : NO_GRAMMAR_POINT;
+
+const attemptTitle = (row: AttemptRow) =>
+  `${new Date(row.timestamp).toLocaleString()} · ${modeLabels[row.mode]} · ${row.score ?? '—'}`;
+
+const summaryLine = (groups: StudyReportGroup[], range: ReportRange) => {
+  const rows = groups.flatMap(group => group.attempts);
+  return `${dayKey(range.from)} – ${dayKey(range.to)} · ${rows.length} attempts · average score ${formatAverage(average(rows))}`;
+};
+
+const attemptFields = (row: AttemptRow): [string, string][] =>
+  ([['Prompt', row.prompt], ['Your answer', row.answer], ['Correction', row.correction]] as [string, string][])
+    .filter(([, value]) => value);
+
+export const studyReportMarkdown = (items: HistoryItem[], range: ReportRange): string => {
+  const groups = groupForReport(items, range);
+  const lines = [`# ${REPORT_TITLE}`, '', summaryLine(groups, range)];
+  for (const group of groups) {
+    lines.push('', `## ${groupTitle(group)}`, '', `${group.attempts.length} attempts · average ${formatAverage(group.averageScore)}`);
+    for (const row of group.attempts) {
+      lines.push('', `### ${attemptTitle(row)}`, '');
+      lines.push(...attemptFields(row).map(([label, value]) => `- **${label}:** ${value}`));
+      if (row.explanation) lines.push('', row.explanation.trim());
+    }
+  }
+  return lines.join('\n') + '\n';
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const REPORT_STYLES = `
+body { font-family: "Hiragino Sans", "Noto Sans JP", "Noto Sans SC", sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1e293b; line-height: 1.6; }
+h1 { margin-bottom: 0.25rem; }
+h2 { border-bottom: 2px solid #cbd5e1; padding-bottom: 0.25rem; margin-top: 2.5rem; }
+h3 { font-size: 1rem; color: #475569; margin-bottom: 0.25rem; }
+.meta { color: #64748b; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; margin: 0.5rem 0; }
+dt { font-weight: bold; color: #475569; }
+dd { margin: 0; }
+.explanation { border-left: 3px solid #cbd5e1; padding-left: 0.75rem; }
+section.attempt { break-inside: avoid; }
+@media print { body { margin: 0; max-width: none; } h2 { break-after: avoid; } }
+`;
+
+// A standalone page; explanations go through the same Markdown rendering as the app.
+export const studyReportHtml = (items: HistoryItem[], range: ReportRange): string => {
+  const groups = groupForReport(items, range);
+  const body = groups.map(group => [
+    `<h2>${escapeHtml(groupTitle(group))}</h2>`,
+    `<p class="meta">${group.attempts.length} attempts · average ${formatAverage(group.averageScore)}</p>`,
+    ...group.attempts.map(row => [
+      '<section class="attempt">',
+      `<h3>${escapeHtml(attemptTitle(row))}</h3>`,
+      `<dl>${attemptFields(row).map(([label, value]) => `<dt>${label}</dt><dd lang="ja">${escapeHtml(value)}</dd>`).join('')}</dl>`,
+      // Explanations come from the model or an imported file, so any HTML in them is shown as text.
+      row.explanation ? `<div class="explanation">${renderMarkdown(escapeHtml(row.explanation))}</div>` : '',
+      '</section>',
+    ].join('\n')),
+  ].join('\n')).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="zh">
+<head>
+<meta charset="utf-8">
+<title>${REPORT_TITLE}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${REPORT_TITLE}</h1>
+<p class="meta">${escapeHtml(summaryLine(groups, range))}</p>
+${body}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { attemptScore, groupAttempts } from './retryService';
+import { multipleChoiceItem, translationItem } from './testFixtures';
+import { HistoryItem } from '../types';
+
+const translation = (id: string, timestamp: number, score: number | null, parentId?: string) =>
+    translationItem({ id, timestamp, score, parentId });
+
+const mcq = (id: string, userChoiceIndex: number) => multipleChoiceItem({ id, userChoiceIndex });
+
+describe('groupAttempts', () => {
+    it('groups retries with their first attempt, oldest first', () => {
+        const history: HistoryItem[] = [
+            translation('c', 3, 90, 'a'),
+            translation('other', 2, 40),
+            translation('b', 2, 70, 'a'),
+            translation('a', 1, 50),
+        ];
+        const groups = groupAttempts(history);
+
+        expect(groups.get('a')?.map(item => item.id)).toEqual(['a', 'b', 'c']);
+        expect(groups.get('other')?.map(item => item.id)).toEqual(['other']);
+    });
+
+    it('keeps retries together after the first attempt is deleted', () => {
+        const groups = groupAttempts([translation('c', 3, 90, 'a'), translation('b', 2, 70, 'a')]);
+        expect(groups.get('a')?.map(item => item.id)).toEqual(['b', 'c']);
+    });
+});
+
+describe('attemptScore', () => {
+    it('scores a multiple choice answer as all or nothing and leaves skipped ones ungraded', () => {
+        expect(attemptScore(mcq('1', 1))).toBe(100);
+        expect(attemptScore(mcq('2', 0))).toBe(0);
+        expect(attemptScore(mcq('3', -1))).toBeNull();
+        expect(attemptScore(translation('4', 0, 65))).toBe(65);
+    });
+});
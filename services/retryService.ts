@@ -0,0 +1,33 @@
+import { GameMode, HistoryItem, MultipleChoiceHistoryItem, TranslationHistoryItem } from '../types';
+
+// A retry links to the first attempt at the question rather than to the attempt it
+// was started from, so every attempt of a question shares one root id.
+
+export type RetryableHistoryItem = TranslationHistoryItem | MultipleChoiceHistoryItem;
+
+export const isRetryable = (item: HistoryItem): item is RetryableHistoryItem =>
+  item.gameMode === GameMode.Translation || item.gameMode === GameMode.MultipleChoice;
+
+export const rootAttemptId = (item: RetryableHistoryItem): string => item.parentId ?? item.id;
+
+// Attempts of each question by root id, oldest first. A retry whose first attempt has
+// been deleted still groups with the other retries of that question.
+export const groupAttempts = (history: HistoryItem[]): Map<string, RetryableHistoryItem[]> => {
+  const groups = new Map<string, RetryableHistoryItem[]>();
+  for (const item of history) {
+    if (!isRetryable(item)) continue;
+    const key = rootAttemptId(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  for (const attempts of groups.values()) {
+    attempts.sort((a, b) => a.timestamp - b.timestamp);
+  }
+  return groups;
+};
+
+// Translation score, or 100/0 for a multiple choice answer; null when ungraded or skipped.
+export const attemptScore = (item: RetryableHistoryItem): number | null => {
+  if (item.gameMode === GameMode.Translation) return item.score;
+  if (item.userChoiceIndex === -1) return null;
+  return item.userChoiceIndex === item.correctOptionIndex ? 100 : 0;
+};
@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest';
+import { shuffle } from './shuffle';
+
+describe('shuffle', () => {
+    it('swaps each position with one at or before it, without touching the input', () => {
+        const items = ['a', 'b', 'c', 'd'];
+        expect(shuffle(items, () => 0)).toEqual(['b', 'c', 'd', 'a']);
+        expect(shuffle(items, () => 0.99)).toEqual(['a', 'b', 'c', 'd']);
+        expect(items).toEqual(['a', 'b', 'c', 'd']);
+    });
+});
@@ -0,0 +1,9 @@
+// Fisher–Yates: every order is equally likely, unlike sorting with a random comparator.
+export const shuffle = <T,>(items: readonly T[], random: () => number = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { buildReviewStates, countDueByLevel, getDueReviews, grammarPointKey, reviewQuality, scheduleReview } from './srsService';
+import { clozeItem, grammarPoint, multipleChoiceItem, translationItem } from './testFixtures';
+import { Difficulty, GrammarPoint, SentenceLength } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const naru = grammarPoint('～になる', Difficulty.N5);
+const tara = grammarPoint('～たら', Difficulty.N4);
+
+const translation = (grammarPoint: GrammarPoint, timestamp: number, score: number | null) =>
+    translationItem({ id: `t-${timestamp}`, timestamp, difficulty: grammarPoint.level, score, grammarPoint });
+
+const mcq = (grammarPoint: GrammarPoint, timestamp: number, correct: boolean) => multipleChoiceItem({
+    id: `m-${timestamp}`,
+    timestamp,
+    difficulty: grammarPoint.level,
+    sentenceLength: SentenceLength.Short,
+    userChoiceIndex: correct ? 0 : 2,
+    correctOptionIndex: 0,
+    grammarPoint,
+});
+
+describe('scheduleReview', () => {
+    it('follows the SM-2 intervals of 1 day, 6 days, then interval × ease', () => {
+        const first = scheduleReview(undefined, naru, 5, 0);
+        const second = scheduleReview(first, naru, 5, first.due);
+        const third = scheduleReview(second, naru, 5, second.due);
+
+        expect([first.intervalDays, second.intervalDays]).toEqual([1, 6]);
+        expect(third.intervalDays).toBe(Math.round(6 * second.easeFactor));
+        expect(third.due).toBe(second.due + third.intervalDays * DAY_MS);
+    });
+
+    it('resets the streak on a failed recall and never lets the ease drop below 1.3', () => {
+        let state = scheduleReview(undefined, naru, 5, 0);
+        for (let i = 0; i < 10; i++) {
+            state = scheduleReview(state, naru, 0, 0);
+        }
+        expect(state.repetitions).toBe(0);
+        expect(state.intervalDays).toBe(1);
+        expect(state.easeFactor).toBe(1.3);
+    });
+});
+
+describe('buildReviewStates', () => {
+    it('replays history oldest first, grading scores and MCQ answers', () => {
+        // Newest first, as the history is stored.
+        const states = buildReviewStates([
+            mcq(naru, 2 * DAY_MS, false),
+            translation(naru, 0, 95),
+            translation(tara, 0, null),
+        ]);
+
+        const naruState = states.get(grammarPointKey(naru));
+        expect(naruState?.repetitions).toBe(0);
+        expect(naruState?.due).toBe(3 * DAY_MS);
+        // An unscored attempt says nothing about recall.
+        expect(states.has(grammarPointKey(tara))).toBe(false);
+    });
+});
+
+describe('reviewQuality', () => {
+    it('grades cloze answers like multiple choice, with a give-up as a blackout', () => {
+        const cloze = (userAnswer: string, isCorrect: boolean) =>
+            clozeItem({ answer: 'に', reading: 'に', userAnswer, isCorrect, grammarPoint: naru });
+        expect([cloze('に', true), cloze('が', false), cloze('', false)].map(reviewQuality)).toEqual([4, 1, 0]);
+    });
+});
+
+describe('due reviews', () => {
+    const states = buildReviewStates([
+        translation(naru, 0, 30),
+        mcq(tara, DAY_MS, true),
+        translation(grammarPoint('～ている', Difficulty.N5), 0, 90),
+    ]);
+
+    it('lists due grammar points of a level, most overdue first', () => {
+        const now = 3 * DAY_MS;
+        expect(getDueReviews(states, now).map(state => state.grammarPoint.grammar_point)).toEqual(['～になる', '～ている', '～たら']);
+        expect(getDueReviews(states, now, Difficulty.N4).map(state => state.grammarPoint)).toEqual([tara]);
+    });
+
+    it('counts due points per JLPT level', () => {
+        expect(countDueByLevel(states, 1.5 * DAY_MS)).toEqual({
+            [Difficulty.N5]: 2, [Difficulty.N4]: 0, [Difficulty.N3]: 0, [Difficulty.N2]: 0, [Difficulty.N1]: 0,
+        });
+    });
+});
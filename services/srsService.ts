@@ -0,0 +1,105 @@
+import { HistoryItem, GameMode, GrammarPoint, Difficulty } from '../types';
+
+// Spaced repetition for grammar points, using the SM-2 algorithm.
+//
+// Review state is not stored anywhere: it is rebuilt by replaying the history in
+// chronological order, so importing, deleting or retrying practice items always
+// leaves the schedule consistent with what the learner actually did.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export interface ReviewState {
+  grammarPoint: GrammarPoint;
+  repetitions: number; // successful reviews in a row
+  intervalDays: number;
+  easeFactor: number;
+  lastReviewed: number;
+  due: number;
+}
+
+export const grammarPointKey = (point: GrammarPoint) => `${point.level}:${point.grammar_point}`;
+
+// SM-2 grades recall from 0 (blackout) to 5 (perfect); 3 and up counts as remembered.
+export const reviewQuality = (item: HistoryItem): number | null => {
+  if (item.gameMode === GameMode.MultipleChoice) {
+    if (item.userChoiceIndex === -1) return 0;
+    return item.userChoiceIndex === item.correctOptionIndex ? 4 : 1;
+  }
+  if (item.gameMode === GameMode.Cloze) {
+    if (!item.userAnswer) return 0;
+    return item.isCorrect ? 4 : 1;
+  }
+  if (item.gameMode === GameMode.Reorder) {
+    if (item.userOrder.length === 0) return 0;
+    return item.isCorrect ? 4 : 1;
+  }
+  if (item.gameMode === GameMode.Translation && typeof item.score === 'number') {
+    if (item.score >= 90) return 5;
+    if (item.score >= 75) return 4;
+    if (item.score >= 60) return 3;
+    if (item.score >= 40) return 2;
+    return item.score >= 20 ? 1 : 0;
+  }
+  return null;
+};
+
+export const scheduleReview = (
+  previous: ReviewState | undefined,
+  grammarPoint: GrammarPoint,
+  quality: number,
+  reviewedAt: number
+): ReviewState => {
+  const repetitions = previous?.repetitions ?? 0;
+  const easeFactor = previous?.easeFactor ?? INITIAL_EASE;
+
+  let nextRepetitions: number;
+  let intervalDays: number;
+  if (quality < 3) {
+    // Forgotten: start over, but keep the (lowered) ease.
+    nextRepetitions = 0;
+    intervalDays = 1;
+  } else {
+    nextRepetitions = repetitions + 1;
+    intervalDays = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round((previous?.intervalDays ?? 1) * easeFactor);
+  }
+
+  const nextEase = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  return {
+    grammarPoint,
+    repetitions: nextRepetitions,
+    intervalDays,
+    easeFactor: nextEase,
+    lastReviewed: reviewedAt,
+    due: reviewedAt + intervalDays * DAY_MS,
+  };
+};
+
+export const buildReviewStates = (history: HistoryItem[]): Map<string, ReviewState> => {
+  const states = new Map<string, ReviewState>();
+  const chronological = [...history].sort((a, b) => a.timestamp - b.timestamp);
+  for (const item of chronological) {
+    if (!('grammarPoint' in item) || !item.grammarPoint) continue;
+    const quality = reviewQuality(item);
+    if (quality === null) continue;
+    const key = grammarPointKey(item.grammarPoint);
+    states.set(key, scheduleReview(states.get(key), item.grammarPoint, quality, item.timestamp));
+  }
+  return states;
+};
+
+// Most overdue first.
+export const getDueReviews = (states: Map<string, ReviewState>, now: number, level?: Difficulty): ReviewState[] =>
+  Array.from(states.values())
+    .filter(state => state.due <= now && (!level || state.grammarPoint.level === level))
+    .sort((a, b) => a.due - b.due);
+
+export const countDueByLevel = (states: Map<string, ReviewState>, now: number): Record<Difficulty, number> => {
+  const counts = Object.fromEntries(Object.values(Difficulty).map(level => [level, 0])) as Record<Difficulty, number>;
+  for (const state of getDueReviews(states, now)) {
+    counts[state.grammarPoint.level]++;
+  }
+  return counts;
+};
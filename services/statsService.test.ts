@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+    aggregateRubricScores,
+    translationScoreTrend,
+    mcqAccuracy,
+    practiceStreaks,
+    activityCalendar,
+    weakestGrammarPoints,
+    chinglishDistractorRate,
+    hintUsage,
+} from './statsService';
+import { clozeItem, day, grammarPoint, multipleChoiceItem, translationItem } from './testFixtures';
+import { Difficulty, GameMode, GrammarPoint, HistoryItem, MultipleChoiceHistoryItem, RubricDimension, RubricScores, SentenceLength } from '../types';
+
+const checkItem = (id: string, rubric?: RubricScores): HistoryItem => ({
+    id,
+    timestamp: 0,
+    gameMode: GameMode.SentenceCheck,
+    userSentence: '',
+    correctedSentence: '',
+    score: 70,
+    evaluation: '',
+    feedbackExplanation: '',
+    rubric,
+});
+
+describe('aggregateRubricScores', () => {
+    it('averages each dimension over the attempts that graded it and finds the weakest', () => {
+        const result = aggregateRubricScores([
+            checkItem('1', { [RubricDimension.Particles]: 40, [RubricDimension.Tense]: 90 }),
+            checkItem('2', { [RubricDimension.Particles]: 60 }),
+            checkItem('3'),
+        ]);
+
+        expect(result.averages).toEqual({ [RubricDimension.Particles]: 50, [RubricDimension.Tense]: 90 });
+        expect(result.counts).toEqual({ [RubricDimension.Particles]: 2, [RubricDimension.Tense]: 1 });
+        expect(result.weakest).toBe(RubricDimension.Particles);
+    });
+
+    it('has no weakest dimension without rubric data', () => {
+        expect(aggregateRubricScores([checkItem('1')]).weakest).toBeNull();
+    });
+});
+
+const translation = (timestamp: number, score: number | null, grammarPoint?: GrammarPoint) =>
+    translationItem({ id: `t-${timestamp}-${score}`, timestamp, score, grammarPoint });
+
+const mcq = (timestamp: number, userChoiceIndex: number, extra: Partial<MultipleChoiceHistoryItem> = {}) =>
+    multipleChoiceItem({ id: `m-${timestamp}-${userChoiceIndex}`, timestamp, userChoiceIndex, chinglishOptionIndex: 0, ...extra });
+
+const cloze = (timestamp: number, isCorrect: boolean, grammarPoint: GrammarPoint) =>
+    clozeItem({ id: `c-${timestamp}`, timestamp, userAnswer: 'x', isCorrect, grammarPoint });
+
+describe('progress statistics', () => {
+    it('averages translation scores per day, oldest first, skipping unscored attempts', () => {
+        expect(translationScoreTrend([
+            translation(day(3), 90),
+            translation(day(1), 60),
+            translation(day(1), 80),
+            translation(day(2), null),
+        ])).toEqual([
+            { day: '2026-01-01', average: 70, count: 2 },
+            { day: '2026-01-03', average: 90, count: 1 },
+        ]);
+    });
+
+    it('tallies MCQ accuracy by level and sentence length, counting skips as wrong', () => {
+        const { byDifficulty, byLength } = mcqAccuracy([
+            mcq(day(1), 1),
+            mcq(day(1), -1),
+            mcq(day(1), 1, { difficulty: Difficulty.N3, sentenceLength: SentenceLength.Long }),
+        ]);
+        expect(byDifficulty[Difficulty.N5]).toEqual({ correct: 1, total: 2 });
+        expect(byDifficulty[Difficulty.N3]).toEqual({ correct: 1, total: 1 });
+        expect(byLength[SentenceLength.Medium]).toEqual({ correct: 1, total: 2 });
+        expect(byLength[SentenceLength.Short]).toEqual({ correct: 0, total: 0 });
+    });
+
+    it('keeps the current streak alive until a full day is missed', () => {
+        const history = [day(1), day(2), day(3), day(5), day(6)].map(t => translation(t, 80));
+        expect(practiceStreaks(history, day(6))).toEqual({ current: 2, longest: 3 });
+        expect(practiceStreaks(history, day(7))).toEqual({ current: 2, longest: 3 });
+        expect(practiceStreaks(history, day(8))).toEqual({ current: 0, longest: 3 });
+    });
+
+    it('lays out the activity calendar in Sunday-first weeks ending today', () => {
+        // 2026-01-07 is a Wednesday.
+        const weeks = activityCalendar([translation(day(7), 80), translation(day(7), 70), translation(day(4), 50)], day(7), 2);
+        expect(weeks).toHaveLength(2);
+        expect(weeks[0][0]).toEqual({ day: '2025-12-28', count: 0 });
+        expect(weeks[1][0]).toEqual({ day: '2026-01-04', count: 1 });
+        expect(weeks[1][3]).toEqual({ day: '2026-01-07', count: 2 });
+        expect(weeks[1].slice(4)).toEqual([null, null, null]);
+    });
+
+    it('ranks grammar points by their average result, MCQ and cloze answers counting as 0 or 100', () => {
+        const teform = grammarPoint('～てもいい');
+        const tara = grammarPoint('～たら');
+        const result = weakestGrammarPoints([
+            translation(day(1), 90, teform),
+            mcq(day(1), 2, { grammarPoint: tara }),
+            translation(day(2), 80, tara),
+            translation(day(2), 10),
+            cloze(day(3), true, teform),
+        ], 5);
+        expect(result.map(({ grammarPoint, attempts, average }) => [grammarPoint.grammar_point, attempts, average])).toEqual([
+            ['～たら', 2, 40],
+            ['～てもいい', 2, 95],
+        ]);
+    });
+
+    it('counts how often the Chinglish distractor was picked among answered questions', () => {
+        expect(chinglishDistractorRate([
+            mcq(day(1), 0),
+            mcq(day(1), 2),
+            mcq(day(1), 1),
+            mcq(day(1), -1),
+            mcq(day(1), 0, { chinglishOptionIndex: undefined }),
+        ])).toEqual({ chosen: 1, answered: 3, wrong: 2 });
+    });
+
+    it('counts translations answered after revealing hints', () => {
+        expect(hintUsage([
+            { ...translation(day(1), 80), hintsUsed: 2 } as HistoryItem,
+            { ...translation(day(2), 60), hintsUsed: 1 } as HistoryItem,
+            translation(day(3), 90),
+            mcq(day(3), 1),
+        ])).toEqual({ attempts: 3, hinted: 2, hints: 3 });
+    });
+});
@@ -0,0 +1,235 @@
+import { HistoryItem, GameMode, RubricDimension, RubricScores, Difficulty, SentenceLength, GrammarPoint } from '../types';
+import { grammarPointKey } from './srsService';
+
+export interface RubricAggregate {
+  averages: RubricScores;
+  counts: Partial<Record<RubricDimension, number>>;
+  // Lowest average among dimensions graded at least once, or null without any rubric data.
+  weakest: RubricDimension | null;
+}
+
+export const aggregateRubricScores = (history: HistoryItem[]): RubricAggregate => {
+  const totals: Partial<Record<RubricDimension, number>> = {};
+  const counts: Partial<Record<RubricDimension, number>> = {};
+
+  for (const item of history) {
+    if (item.gameMode !== GameMode.Translation && item.gameMode !== GameMode.SentenceCheck) continue;
+    if (!item.rubric) continue;
+    for (const dimension of Object.values(RubricDimension)) {
+      const score = item.rubric[dimension];
+      if (typeof score !== 'number') continue;
+      totals[dimension] = (totals[dimension] ?? 0) + score;
+      counts[dimension] = (counts[dimension] ?? 0) + 1;
+    }
+  }
+
+  const averages: RubricScores = {};
+  let weakest: RubricDimension | null = null;
+  for (const dimension of Object.values(RubricDimension)) {
+    const count = counts[dimension];
+    if (!count) continue;
+    averages[dimension] = (totals[dimension] as number) / count;
+    if (weakest === null || (averages[dimension] as number) < (averages[weakest] as number)) {
+      weakest = dimension;
+    }
+  }
+
+  return { averages, counts, weakest };
+};
+
+// --- Progress dashboard ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar day, so a late-night session counts for the day the learner lived it.
+export const dayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Whole days since the epoch for a local day; rounding absorbs DST shifts.
+const dayNumber = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  return Math.round(new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() / DAY_MS);
+};
+
+export interface ScorePoint {
+  day: string;
+  average: number;
+  count: number;
+}
+
+// Daily average translation score, oldest day first. Unscored attempts are left out.
+export const translationScoreTrend = (history: HistoryItem[]): ScorePoint[] => {
+  const byDay = new Map<string, { total: number; count: number }>();
+  for (const item of history) {
+    if (item.gameMode !== GameMode.Translation || typeof item.score !== 'number') continue;
+    const key = dayKey(item.timestamp);
+    const entry = byDay.get(key) ?? { total: 0, count: 0 };
+    entry.total += item.score;
+    entry.count++;
+    byDay.set(key, entry);
+  }
+  return Array.from(byDay, ([day, { total, count }]) => ({ day, average: total / count, count }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+};
+
+export interface AccuracyTally {
+  correct: number;
+  total: number;
+}
+
+export interface McqAccuracy {
+  byDifficulty: Record<Difficulty, AccuracyTally>;
+  byLength: Record<SentenceLength, AccuracyTally>;
+}
+
+const emptyTallies = <K extends string>(keys: K[]) =>
+  Object.fromEntries(keys.map(key => [key, { correct: 0, total: 0 }])) as Record<K, AccuracyTally>;
+
+// Skipped questions count as answered wrongly.
+export const mcqAccuracy = (history: HistoryItem[]): McqAccuracy => {
+  const byDifficulty = emptyTallies(Object.values(Difficulty));
+  const byLength = emptyTallies(Object.values(SentenceLength));
+  for (const item of history) {
+    if (item.gameMode !== GameMode.MultipleChoice) continue;
+    const correct = item.userChoiceIndex === item.correctOptionIndex ? 1 : 0;
+    for (const tally of [byDifficulty[item.difficulty], byLength[item.sentenceLength]]) {
+      if (!tally) continue;
+      tally.correct += correct;
+      tally.total++;
+    }
+  }
+  return { byDifficulty, byLength };
+};
+
+export interface PracticeStreaks {
+  // Consecutive days up to today, or up to yesterday if today has no practice yet.
+  current: number;
+  longest: number;
+}
+
+export const practiceStreaks = (history: HistoryItem[], now: number): PracticeStreaks => {
+  const days = Array.from(new Set(history.map(item => dayNumber(item.timestamp)))).sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const practised = new Set(days);
+  let day = dayNumber(now);
+  if (!practised.has(day)) day--;
+  let current = 0;
+  while (practised.has(day)) {
+    current++;
+    day--;
+  }
+  return { current, longest };
+};
+
+export interface CalendarDay {
+  day: string;
+  count: number;
+}
+
+// Practice counts for the last `weeks` weeks as columns of Sunday-to-Saturday days.
+// Days after `now` are null so the grid keeps its shape.
+export const activityCalendar = (history: HistoryItem[], now: number, weeks: number): (CalendarDay | null)[][] => {
+  const counts = new Map<string, number>();
+  for (const item of history) {
+    const key = dayKey(item.timestamp);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const today = new Date(now);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay() - (weeks - 1) * 7);
+  const todayKey = dayKey(now);
+  const columns: (CalendarDay | null)[][] = [];
+  let future = false;
+  for (let week = 0; week < weeks; week++) {
+    const column: (CalendarDay | null)[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + weekday);
+      const key = dayKey(date.getTime());
+      column.push(future ? null : { day: key, count: counts.get(key) ?? 0 });
+      if (key === todayKey) future = true;
+    }
+    columns.push(column);
+  }
+  return columns;
+};
+
+export interface GrammarPointResult {
+  grammarPoint: GrammarPoint;
+  attempts: number;
+  // Translation scores as-is, MCQ, cloze and reordering answers as 100 (correct) or 0.
+  average: number;
+}
+
+export const weakestGrammarPoints = (history: HistoryItem[], limit: number): GrammarPointResult[] => {
+  const results = new Map<string, { grammarPoint: GrammarPoint; total: number; attempts: number }>();
+  for (const item of history) {
+    if (!('grammarPoint' in item) || !item.grammarPoint) continue;
+    let result: number;
+    if (item.gameMode === GameMode.MultipleChoice) {
+      result = item.userChoiceIndex === item.correctOptionIndex ? 100 : 0;
+    } else if (item.gameMode === GameMode.Cloze || item.gameMode === GameMode.Reorder) {
+      result = item.isCorrect ? 100 : 0;
+    } else if (item.gameMode === GameMode.Translation && typeof item.score === 'number') {
+      result = item.score;
+    } else {
+      continue;
+    }
+    const key = grammarPointKey(item.grammarPoint);
+    const entry = results.get(key) ?? { grammarPoint: item.grammarPoint, total: 0, attempts: 0 };
+    entry.total += result;
+    entry.attempts++;
+    results.set(key, entry);
+  }
+  return Array.from(results.values(), ({ grammarPoint, total, attempts }) => ({ grammarPoint, attempts, average: total / attempts }))
+    .sort((a, b) => a.average - b.average || b.attempts - a.attempts)
+    .slice(0, limit);
+};
+
+export interface ChinglishTally {
+  chosen: number;
+  // Answered questions whose Chinglish option is known (older items don't record it).
+  answered: number;
+  wrong: number;
+}
+
+export const chinglishDistractorRate = (history: HistoryItem[]): ChinglishTally => {
+  const tally: ChinglishTally = { chosen: 0, answered: 0, wrong: 0 };
+  for (const item of history) {
+    if (item.gameMode !== GameMode.MultipleChoice || typeof item.chinglishOptionIndex !== 'number') continue;
+    if (item.userChoiceIndex === -1) continue;
+    tally.answered++;
+    if (item.userChoiceIndex !== item.correctOptionIndex) tally.wrong++;
+    if (item.userChoiceIndex === item.chinglishOptionIndex) tally.chosen++;
+  }
+  return tally;
+};
+
+export interface HintUsage {
+  // Translation attempts, and how many of them were answered after revealing hints.
+  attempts: number;
+  hinted: number;
+  hints: number;
+}
+
+export const hintUsage = (history: HistoryItem[]): HintUsage => {
+  const usage: HintUsage = { attempts: 0, hinted: 0, hints: 0 };
+  for (const item of history) {
+    if (item.gameMode !== GameMode.Translation) continue;
+    usage.attempts++;
+    if (item.hintsUsed) {
+      usage.hinted++;
+      usage.hints += item.hintsUsed;
+    }
+  }
+  return usage;
+};
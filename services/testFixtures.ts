@@ -0,0 +1,60 @@
+import {
+  ClozeHistoryItem, Difficulty, GameMode, GrammarPoint, MultipleChoiceHistoryItem, SentenceLength, TranslationHistoryItem,
+} from '../types';
+
+// History items for the service tests. Every field is filled with a neutral default, so a
+// test only spells out what it is about and a new HistoryItem field is added here once.
+
+// Local noon on a day of January 2026, away from any midnight/DST edge.
+export const day = (date: number) => new Date(2026, 0, date, 12).getTime();
+
+export const grammarPoint = (name: string, level: Difficulty = Difficulty.N4): GrammarPoint => ({
+  level, grammar_point: name, meaning_cn: '意思', usage: '', example_ja: '', example_cn: '', note: '',
+});
+
+export const translationItem = (fields: Partial<TranslationHistoryItem> = {}): TranslationHistoryItem => ({
+  id: 't',
+  timestamp: 0,
+  gameMode: GameMode.Translation,
+  difficulty: Difficulty.N4,
+  sentenceLength: SentenceLength.Short,
+  chineseSentence: '',
+  userSentence: '',
+  correctedSentence: '',
+  score: null,
+  evaluation: '',
+  feedbackExplanation: '',
+  ...fields,
+});
+
+// Option 1 is correct unless the test says otherwise; the learner skipped the question.
+export const multipleChoiceItem = (fields: Partial<MultipleChoiceHistoryItem> = {}): MultipleChoiceHistoryItem => ({
+  id: 'm',
+  timestamp: 0,
+  gameMode: GameMode.MultipleChoice,
+  difficulty: Difficulty.N5,
+  sentenceLength: SentenceLength.Medium,
+  chineseSentence: '',
+  options: ['a', 'b', 'c', 'd'],
+  userChoiceIndex: -1,
+  correctOptionIndex: 1,
+  mcqExplanation: '',
+  ...fields,
+});
+
+export const clozeItem = (fields: Partial<ClozeHistoryItem> = {}): ClozeHistoryItem => ({
+  id: 'c',
+  timestamp: 0,
+  gameMode: GameMode.Cloze,
+  difficulty: Difficulty.N5,
+  sentenceLength: SentenceLength.Medium,
+  before: '',
+  answer: '',
+  after: '',
+  reading: '',
+  alternatives: [],
+  chineseTranslation: '',
+  userAnswer: '',
+  isCorrect: false,
+  ...fields,
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from './zipService';
+
+const readUint32 = (bytes: Uint8Array, offset: number) => new DataView(bytes.buffer).getUint32(offset, true);
+const readUint16 = (bytes: Uint8Array, offset: number) => new DataView(bytes.buffer).getUint16(offset, true);
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    });
+});
+
+describe('createZip', () => {
+    it('stores each entry after a local header and indexes them in the central directory', () => {
+        const data = new TextEncoder().encode('こんにちは');
+        const zip = createZip([{ name: 'a.txt', data }, { name: 'media/b.wav', data: new Uint8Array([1, 2]) }], new Date(2026, 0, 2, 3, 4, 6));
+
+        expect(readUint32(zip, 0)).toBe(0x04034b50);
+        expect(readUint32(zip, 14)).toBe(crc32(data));
+        expect(new TextDecoder().decode(zip.slice(30, 35))).toBe('a.txt');
+        expect(Array.from(zip.slice(35, 35 + data.length))).toEqual(Array.from(data));
+
+        const end = zip.length - 22;
+        expect(readUint32(zip, end)).toBe(0x06054b50);
+        expect(readUint16(zip, end + 10)).toBe(2);
+        const central = readUint32(zip, end + 16);
+        expect(readUint32(zip, central)).toBe(0x02014b50);
+        expect(readUint32(zip, central + 42)).toBe(0);
+        expect(readUint16(zip, central + 12)).toBe((3 << 11) | (4 << 5) | 3);
+    });
+});
@@ -6,12 +6,23 @@ export enum GameState {
   Feedback,
   Grammar,
   History,
+  Stats,
+  Settings,
+  Exam,
+  ExamReport,
+  Conversation,
 }
 
 export enum GameMode {
   Translation = 'TRANSLATION',
   MultipleChoice = 'MULTIPLE_CHOICE',
   SentenceCheck = 'SENTENCE_CHECK',
+  Dictation = 'DICTATION',
+  ReverseTranslation = 'REVERSE_TRANSLATION',
+  Cloze = 'CLOZE',
+  Reorder = 'REORDER',
+  Exam = 'EXAM',
+  Conversation = 'CONVERSATION',
 }
 
 export enum Difficulty {
@@ -26,6 +37,23 @@ export enum SentenceLength {
   Short = '短',
   Medium = '中',
   Long = '长',
+  Paragraph = '段落', // translation only: several connected sentences
+}
+
+export enum ProviderKind {
+  Gemini = 'GEMINI',
+  OpenAICompatible = 'OPENAI_COMPATIBLE',
+  Mock = 'MOCK',
+}
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  // Used by the OpenAI-compatible adapter only (OpenAI, Ollama, llama.cpp, LM Studio...)
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  speechModel: string;
+  voice: string;
 }
 
 export interface SentenceTask {
@@ -33,21 +61,183 @@ export interface SentenceTask {
   grammarPoint?: GrammarPoint;
 }
 
+export interface HintWord {
+  word: string;
+  reading: string;
+  meaning: string; // in Chinese
+}
+
+// Hints for a translation task, revealed one stage at a time (see `hintService`).
+export interface TranslationHints {
+  vocabulary: HintWord[];
+  skeleton: string; // the sentence pattern with its particles, content words left as blanks
+  firstChunk: string; // the opening words of a model translation
+}
+
 export interface MultipleChoiceTask {
   chineseSentence: string;
   options: string[];
   correctOptionIndex: number;
+  // The literal, word-for-word translation from Chinese among the wrong options.
+  chinglishOptionIndex?: number;
   explanation: string;
   grammarPoint?: GrammarPoint;
 }
 
+// A word or particle of a dictation sentence with its hiragana reading, so the
+// learner may write it either way.
+export interface DictationSegment {
+  text: string;
+  reading: string;
+}
+
+export interface DictationTask {
+  japaneseSentence: string;
+  segments: DictationSegment[];
+  chineseTranslation: string;
+  grammarPoint?: GrammarPoint;
+}
+
+// A Japanese sentence for the learner to translate into Chinese.
+export interface ReverseTranslationTask {
+  japaneseSentence: string;
+  grammarPoint?: GrammarPoint;
+}
+
+// A sentence with the grammar expression blanked out: `before` + `answer` + `after`.
+export interface ClozeTask {
+  before: string;
+  answer: string;
+  after: string;
+  reading: string; // hiragana reading of `answer`, empty when unknown
+  alternatives: string[]; // other accepted spellings of `answer`
+  chineseTranslation: string;
+  grammarPoint?: GrammarPoint;
+}
+
+// JLPT 文の組み立て: `chunks` (in the correct order) go between `before` and `after`.
+export interface ReorderTask {
+  before: string;
+  chunks: string[];
+  after: string;
+  starIndex: number; // the slot marked ★
+  chineseTranslation: string;
+  grammarPoint?: GrammarPoint;
+}
+
+export enum ReorderVariant {
+  FullOrder = 'FULL_ORDER', // the whole order must be right
+  Star = 'STAR', // only the chunk in the ★ slot is graded, as in the exam
+}
+
+// Dimensions of the 《日语表达规范总纲》 summary the evaluators score individually.
+export enum RubricDimension {
+  Syntax = '句法结构',
+  Particles = '助词使用',
+  Modification = '修饰关系',
+  Tense = '时态一致',
+  Politeness = '敬体/常体',
+  Naturalness = '自然表达',
+  Modality = '语气与情态',
+  Culture = '文化语感',
+  SentencePatterns = '常用句式',
+}
+
+// Dimensions the AI judged not applicable to a sentence are simply absent.
+export type RubricScores = Partial<Record<RubricDimension, number>>;
+
+// One change the AI made to the learner's sentence, with its reason.
+export interface CorrectionNote {
+  original: string;
+  corrected: string;
+  reason: string;
+}
+
+// How well a reverse translation conveyed the nuance of the task's grammar point.
+export enum NuanceVerdict {
+  Understood = 'UNDERSTOOD',
+  Partial = 'PARTIAL',
+  Missed = 'MISSED',
+}
+
 export interface Feedback {
-  score: number;
+  score: number | null; // null when the AI response had no usable score
+  evaluation: string;
+  correctedSentence: string;
+  explanation: string;
+  rubric?: RubricScores;
+  fixes?: CorrectionNote[];
+  nuance?: NuanceVerdict;
+  reply?: string; // the conversation partner's next line
+  // Per-sentence breakdown of a paragraph; `explanation` then holds the overall coherence comment.
+  sentences?: SentenceFeedback[];
+  alternatives?: AlternativeTranslation[];
+  matchedRegister?: Register; // the alternative the learner's answer already amounts to
+}
+
+export enum Register {
+  Casual = 'CASUAL',
+  Polite = 'POLITE',
+  Written = 'WRITTEN',
+}
+
+// Another natural way to translate the task sentence, for one register.
+export interface AlternativeTranslation {
+  register: Register;
+  sentence: string;
+}
+
+// Whether a sentence ends in the polite です/ます form or the plain form.
+export enum SpeechStyle {
+  Polite = 'POLITE',
+  Plain = 'PLAIN',
+}
+
+export interface SentenceFeedback {
+  sentence: string; // as the learner wrote it
+  score: number | null;
   evaluation: string;
   correctedSentence: string;
   explanation: string;
+  fixes?: CorrectionNote[];
+  style?: SpeechStyle;
+}
+
+export type FeedbackHeader = Omit<Feedback, 'explanation'>;
+
+// A question the learner asked about a piece of feedback, and the teacher's answer.
+export interface FollowUpMessage {
+  question: string;
+  answer: string;
+}
+
+export enum FeedbackParseWarning {
+  MissingScore = 'MISSING_SCORE',
+  MissingEvaluation = 'MISSING_EVALUATION',
+  MissingCorrection = 'MISSING_CORRECTION',
+  MissingRubric = 'MISSING_RUBRIC',
+  MissingNuance = 'MISSING_NUANCE',
+  MissingReply = 'MISSING_REPLY',
+  MissingAlternatives = 'MISSING_ALTERNATIVES',
+  MissingSeparator = 'MISSING_SEPARATOR',
+  Unparseable = 'UNPARSEABLE',
+}
+
+export enum ConversationScenario {
+  Shop = 'SHOP',
+  JobInterview = 'JOB_INTERVIEW',
+  CoworkerFavor = 'COWORKER_FAVOR',
 }
 
+export enum ConversationSpeaker {
+  Partner = 'PARTNER', // the AI's role
+  Learner = 'LEARNER',
+}
+
+export type ConversationTurn =
+  | { speaker: ConversationSpeaker.Partner; text: string; translation?: string }
+  | { speaker: ConversationSpeaker.Learner; text: string; feedback: Feedback };
+
 export interface GrammarPoint {
   level: Difficulty;
   grammar_point: string;
@@ -67,10 +257,18 @@ export type TranslationHistoryItem = {
   chineseSentence: string;
   userSentence: string;
   correctedSentence: string;
-  score: number;
+  score: number | null;
   evaluation: string;
   feedbackExplanation: string;
+  rubric?: RubricScores;
+  fixes?: CorrectionNote[];
+  hintsUsed?: number; // hint stages revealed before answering; `score` already has the penalty applied
+  sentences?: SentenceFeedback[];
+  alternatives?: AlternativeTranslation[];
+  matchedRegister?: Register;
   grammarPoint?: GrammarPoint;
+  followUps?: FollowUpMessage[];
+  parentId?: string; // the first attempt at the same question, when this one is a retry
   audioBase64?: string;
 };
 
@@ -84,21 +282,138 @@ export type MultipleChoiceHistoryItem = {
   options: string[];
   userChoiceIndex: number; // -1 if user skipped
   correctOptionIndex: number;
+  chinglishOptionIndex?: number;
   mcqExplanation: string;
   grammarPoint?: GrammarPoint;
+  parentId?: string; // the first attempt at the same question, when this one is a retry
   audiosBase64?: (string | null)[];
 };
 
+export type ReorderHistoryItem = {
+  id: string;
+  timestamp: number;
+  gameMode: GameMode.Reorder;
+  difficulty: Difficulty;
+  sentenceLength: SentenceLength;
+  before: string;
+  chunks: string[];
+  after: string;
+  starIndex: number;
+  chineseTranslation: string;
+  variant: ReorderVariant;
+  userOrder: number[]; // indices into `chunks` per slot; empty if user skipped
+  isCorrect: boolean;
+  grammarPoint?: GrammarPoint;
+  audioBase64?: string;
+};
+
 export type SentenceCheckHistoryItem = {
   id: string;
   timestamp: number;
   gameMode: GameMode.SentenceCheck;
   userSentence: string;
   correctedSentence: string;
-  score: number;
+  score: number | null;
   evaluation: string;
   feedbackExplanation: string;
+  rubric?: RubricScores;
+  fixes?: CorrectionNote[];
+  sentences?: SentenceFeedback[];
+  followUps?: FollowUpMessage[];
   audioBase64?: string;
 };
 
-export type HistoryItem = TranslationHistoryItem | MultipleChoiceHistoryItem | SentenceCheckHistoryItem;
+export type DictationHistoryItem = {
+  id: string;
+  timestamp: number;
+  gameMode: GameMode.Dictation;
+  difficulty: Difficulty;
+  sentenceLength: SentenceLength;
+  japaneseSentence: string;
+  segments: DictationSegment[];
+  chineseTranslation: string;
+  userTranscript: string;
+  accuracy: number; // 0-100, share of characters heard correctly
+  grammarPoint?: GrammarPoint;
+  audioBase64?: string;
+};
+
+export type ReverseTranslationHistoryItem = {
+  id: string;
+  timestamp: number;
+  gameMode: GameMode.ReverseTranslation;
+  difficulty: Difficulty;
+  sentenceLength: SentenceLength;
+  japaneseSentence: string;
+  userSentence: string; // the learner's Chinese translation
+  correctedSentence: string; // the AI's reference Chinese translation
+  score: number | null;
+  evaluation: string;
+  nuance?: NuanceVerdict;
+  feedbackExplanation: string;
+  grammarPoint?: GrammarPoint;
+  followUps?: FollowUpMessage[];
+  audioBase64?: string; // the Japanese sentence read aloud
+};
+
+export type ClozeHistoryItem = {
+  id: string;
+  timestamp: number;
+  gameMode: GameMode.Cloze;
+  difficulty: Difficulty;
+  sentenceLength: SentenceLength;
+  before: string;
+  answer: string;
+  after: string;
+  reading: string;
+  alternatives: string[];
+  chineseTranslation: string;
+  userAnswer: string; // empty if the user gave up
+  isCorrect: boolean;
+  grammarPoint?: GrammarPoint;
+  audioBase64?: string;
+};
+
+// One question of a mock exam with the learner's answer (-1 or '' while unanswered).
+export type ExamQuestion =
+  | { gameMode: GameMode.MultipleChoice; task: MultipleChoiceTask; userChoiceIndex: number; isCorrect: boolean }
+  | { gameMode: GameMode.Cloze; task: ClozeTask; userAnswer: string; isCorrect: boolean }
+  // As in the exam, only the chunk for the ★ slot is asked for: an index into `task.chunks`.
+  | { gameMode: GameMode.Reorder; task: ReorderTask; userChoiceIndex: number; isCorrect: boolean };
+
+export type ExamSection = ExamQuestion['gameMode'];
+
+// A whole mock exam session, saved as a single record.
+export type ExamHistoryItem = {
+  id: string;
+  timestamp: number;
+  gameMode: GameMode.Exam;
+  difficulty: Difficulty;
+  sentenceLength: SentenceLength;
+  questions: ExamQuestion[];
+  timeLimitSeconds: number;
+  timeUsedSeconds: number;
+  timedOut: boolean;
+};
+
+// A role-play transcript, saved after every evaluated turn.
+export type ConversationHistoryItem = {
+  id: string;
+  timestamp: number;
+  gameMode: GameMode.Conversation;
+  difficulty: Difficulty;
+  scenario: ConversationScenario;
+  turns: ConversationTurn[];
+  audiosBase64?: (string | null)[]; // partner lines read aloud, by turn index
+};
+
+export type HistoryItem =
+  | TranslationHistoryItem
+  | MultipleChoiceHistoryItem
+  | ReorderHistoryItem
+  | SentenceCheckHistoryItem
+  | DictationHistoryItem
+  | ReverseTranslationHistoryItem
+  | ClozeHistoryItem
+  | ExamHistoryItem
+  | ConversationHistoryItem;
@@ -0,0 +1,2 @@
+// jsdom has no IndexedDB; history is stored there, so give every test file an in-memory one.
+import 'fake-indexeddb/auto';